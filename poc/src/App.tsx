@@ -11,6 +11,7 @@ function App() {
     const [isRunning, setIsRunning] = createSignal(true);
     const [avgDailyVolatility, setAvgDailyVolatility] = createSignal(5);
     const [speed, setSpeed] = createSignal(100);
+    const [feeDecay, setFeeDecay] = createSignal(false);
 
     const [metrics, setMetrics] = createSignal<Metrics | undefined>();
 
@@ -35,6 +36,7 @@ function App() {
                 speed={speed()}
                 updMetrics={setMetrics}
                 isSim={isSim()}
+                feeDecay={feeDecay()}
             />
 
             <Show
@@ -51,6 +53,8 @@ function App() {
                     setVolatility={setAvgDailyVolatility}
                     isRunning={isRunning()}
                     toggleRunning={() => setIsRunning((r) => !r)}
+                    feeDecay={feeDecay()}
+                    toggleFeeDecay={() => setFeeDecay((d) => !d)}
                 />
             </Show>
         </Show>
@@ -1,14 +1,36 @@
 import { createEffect, createSignal, onCleanup, onMount } from "solid-js";
-import { Pool, type SwapArgs } from "../logic/pool.ts";
+import {
+    type DriftParams,
+    Pool,
+    type QuoteResult,
+    type SwapArgs,
+} from "../logic/pool.ts";
 import {
     generateNextDayPivotTick,
     generateTodayTargetQuoteVolume,
     generateTrade,
 } from "../logic/trade-gen.ts";
-import { delay, panic } from "../logic/utils.ts";
+import { delay, type TwoSided, twoSided } from "../logic/utils.ts";
 import { LiquidityChart } from "./LiquidityChart.tsx";
-import { absoluteTickToPrice, ECs } from "../logic/ecs.ts";
+import { ECs } from "../logic/ecs.ts";
+import { TickMath } from "../logic/tick-math.ts";
+import { InvariantViolationError, isRecoverable } from "../logic/errors.ts";
 import { Beacon } from "../logic/beacon.ts";
+import { type Asset, BTC, TokenAmount, USDT } from "../logic/asset.ts";
+import { FEE_TIERS } from "../logic/fee-model.ts";
+import { type FeeDecayParams } from "../logic/fee-decay.ts";
+import { SECONDS_PER_DAY, SimulatedClock } from "../logic/clock.ts";
+import {
+    type RubberBandAttackArgs,
+    simulateRubberBandAttack,
+} from "../logic/attack.ts";
+import {
+    ClosestFirstRecovery,
+    ProportionalRecovery,
+    type RecoveryStrategy,
+    WorstFirstRecovery,
+} from "../logic/recovery-strategy.ts";
+import { simulateIlHealing } from "../logic/il-healing.ts";
 
 export const CURRENT_TICK = 114445; // 93323 USDC per 1 BTC | 4 Dec 2025
 const INIT_TICKS = 1000; // +-10% around cur price
@@ -16,18 +38,78 @@ const INIT_TICKS = 1000; // +-10% around cur price
 const BTC_QTY = "100"; // from uniswap WBTC/USDT | 4 Dec 2025
 const USD_QTY = "9_000_000"; // from uniswap WBTC/USDT | 4 Dec 2025
 const AVG_DAILY_VOLUME = "24_300_000"; // from uniswap WBTC/USDT | 4 Dec 2025
+const FEE_DECAY_HALF_LIFE = 3600; // simulated seconds
+const FEE_DECAY_RECOVERY_VOLUME = "100_000"; // USD
+const IL_HEALING_PUSH = "10"; // BTC, ~1% of the price
+const IL_HEALING_TRIP = "0.5"; // BTC
+const IL_HEALING_TRIPS = 10; // with more, every strategy repairs all of the IL
+const IL_HEALING_TRIP_SECONDS = 60;
+const FEE_DECAY_TRIP_SECONDS = 1800; // half of the half-life, so every round trip finds the fees decayed
+const QUOTE_PREVIEW = "1"; // BTC
+const RUBBER_BAND_PUSH = "10_000_000"; // USD, past the tick span, so the drifting reserves stretch after the price
+const RUBBER_BAND_HOLD_SECONDS = 600; // one interval of the delayed drift, so it takes a single step
+
+const INSTANT_DRIFT: DriftParams = { mode: "instant" };
+const DELAYED_DRIFT: DriftParams = {
+    mode: "delayed",
+    interval: 600,
+    fraction: ECs.fromString("0.1"),
+};
 
-export let POOL = new Pool(CURRENT_TICK, INIT_TICKS, false, {
-    baseQty: ECs.fromString(BTC_QTY),
-    quoteQty: ECs.fromString(USD_QTY),
-});
+const RECOVERY_STRATEGIES: [string, RecoveryStrategy][] = [
+    ["worst first", new WorstFirstRecovery()],
+    ["closest first", new ClosestFirstRecovery()],
+    ["proportional", new ProportionalRecovery()],
+    ["worst first, holding", new WorstFirstRecovery({ holdLeftover: true })],
+];
+
+const ASSETS = twoSided(BTC, USDT);
+
+const FEE_DECAY: FeeDecayParams = {
+    halfLife: FEE_DECAY_HALF_LIFE,
+    floor: FEE_TIERS.low,
+    recoveryVolume: TokenAmount.fromString(
+        ASSETS.quote,
+        FEE_DECAY_RECOVERY_VOLUME
+    ).qty,
+};
+
+/** Every trade moves the clock by its share of the daily volume, so a simulated day lasts a day. */
+export const CLOCK = new SimulatedClock();
+
+export let POOL = new Pool(
+    CURRENT_TICK,
+    INIT_TICKS,
+    ASSETS,
+    new TickMath(),
+    false,
+    {
+        baseQty: TokenAmount.fromString(ASSETS.base, BTC_QTY).qty,
+        quoteQty: TokenAmount.fromString(ASSETS.quote, USD_QTY).qty,
+    },
+    {
+        clock: CLOCK,
+    }
+);
 
 const ORIGINAL_STATS = POOL.stats;
 
 export type Metrics = {
+    assets: TwoSided<Asset>;
     day: number;
     curPrice: ECs;
     curFeeFactor: ECs;
+    curFeeDecay: ECs;
+    /** What selling `QUOTE_PREVIEW` of base would get right now, see `Pool.quote`. */
+    quotePreview: QuoteResult & { qtyIn: ECs };
+    /** The quote value sold from the recovery bins since the start. */
+    recoveredVolume: ECs;
+    /** The share of the IL every recovery strategy heals, in %, see `simulateIlHealing`. */
+    ilHealing: { strategy: string; healed: ECs }[];
+    /** The IL healed by the pool's recovery strategy with the fee decay off and on, in %. */
+    feeDecayHealing: { off: ECs; on: ECs };
+    /** What the rubber band attack would earn in quote right now, see `simulateRubberBandAttack`. */
+    rubberBandProfit: { instant: ECs; delayed: ECs };
 
     avgVolume: ECs;
     avgFees: ECs;
@@ -35,17 +117,17 @@ export type Metrics = {
     avgAPR: ECs;
     avgSlippage: ECs;
 
-    usdReserve: ECs;
-    usdInventory: ECs;
-    usdProfit: ECs;
-    usdProfitPercent: ECs;
-    usdIL: ECs;
-
-    btcReserve: ECs;
-    btcInventory: ECs;
-    btcProfit: ECs;
-    btcProfitPercent: ECs;
-    btcIL: ECs;
+    quoteReserve: ECs;
+    quoteInventory: ECs;
+    quoteProfit: ECs;
+    quoteProfitPercent: ECs;
+    quoteIL: ECs;
+
+    baseReserve: ECs;
+    baseInventory: ECs;
+    baseProfit: ECs;
+    baseProfitPercent: ECs;
+    baseIL: ECs;
 };
 
 export type SimulationProps = {
@@ -54,6 +136,7 @@ export type SimulationProps = {
     volatility: number;
     isRunning: boolean;
     isSim: boolean;
+    feeDecay: boolean;
 };
 
 export function Simulation(props: SimulationProps) {
@@ -66,6 +149,75 @@ export function Simulation(props: SimulationProps) {
     const [stats, setStats] = createSignal(ORIGINAL_STATS);
     const [il, setIl] = createSignal(POOL.il);
     const [feeFactor, setFeeFactor] = createSignal(POOL.feeFactor);
+    const [recoveredVolume, setRecoveredVolume] = createSignal(ECs.zero());
+
+    const previewQuote = () => {
+        const qtyIn = TokenAmount.fromString(ASSETS.base, QUOTE_PREVIEW).qty;
+
+        return {
+            qtyIn,
+            ...POOL.quote({ qtyIn, direction: "base -> quote" }),
+        };
+    };
+    // `quote` swaps on a copy of the pool, so the preview is only refreshed when the metrics are shown after a trade
+    let quotePreview: ReturnType<typeof previewQuote> | undefined;
+
+    // the comparisons run on copies of the pool, so once a simulated day is enough
+    const compareIlHealing = () =>
+        RECOVERY_STRATEGIES.map(([strategy, it]) => ({
+            strategy,
+            healed: simulateIlHealing({
+                pool: POOL,
+                strategy: it,
+                qtyIn: TokenAmount.fromString(ASSETS.base, IL_HEALING_PUSH).qty,
+                direction: "base -> quote",
+                roundTrips: IL_HEALING_TRIPS,
+                tripQtyIn: TokenAmount.fromString(ASSETS.base, IL_HEALING_TRIP)
+                    .qty,
+                tripSeconds: IL_HEALING_TRIP_SECONDS,
+            }).healed.mul(100),
+        }));
+    const [ilHealing, setIlHealing] = createSignal(compareIlHealing());
+
+    const compareFeeDecay = () => {
+        const heal = (feeDecay: FeeDecayParams | null) =>
+            simulateIlHealing({
+                pool: POOL,
+                strategy: POOL.recoveryStrategy,
+                qtyIn: TokenAmount.fromString(ASSETS.base, IL_HEALING_PUSH).qty,
+                direction: "base -> quote",
+                roundTrips: IL_HEALING_TRIPS,
+                tripQtyIn: TokenAmount.fromString(ASSETS.base, IL_HEALING_TRIP)
+                    .qty,
+                tripSeconds: FEE_DECAY_TRIP_SECONDS,
+                feeDecay,
+            }).healed.mul(100);
+
+        return { off: heal(null), on: heal(FEE_DECAY) };
+    };
+    const [feeDecayHealing, setFeeDecayHealing] = createSignal(
+        compareFeeDecay()
+    );
+
+    const compareRubberBand = () => {
+        const attack = (drift: DriftParams) =>
+            simulateRubberBandAttack({
+                pool: POOL,
+                qtyIn: TokenAmount.fromString(ASSETS.quote, RUBBER_BAND_PUSH)
+                    .qty,
+                direction: "quote -> base",
+                holdSeconds: RUBBER_BAND_HOLD_SECONDS,
+                drift,
+            }).profit;
+
+        return {
+            instant: attack(INSTANT_DRIFT),
+            delayed: attack(DELAYED_DRIFT),
+        };
+    };
+    const [rubberBandProfit, setRubberBandProfit] = createSignal(
+        compareRubberBand()
+    );
     const [opacity, setOpacity] = createSignal(
         window.scrollY === 0 ? 0.6 : 0.2
     );
@@ -117,6 +269,7 @@ export function Simulation(props: SimulationProps) {
             pivotTick = generateNextDayPivotTick({
                 todayPivotTick: pivotTick,
                 todayVolatility: avgDailyVolatility(),
+                tickMath: POOL.tickMath,
             });
 
             setAvgSlippage24h([]);
@@ -208,29 +361,36 @@ export function Simulation(props: SimulationProps) {
                 ? args.qtyIn.mul(Beacon.base(POOL).price(POOL.curAbsoluteTick))
                 : args.qtyIn.clone();
 
+        CLOCK.advance(
+            quoteVolume.div(t.targetQuoteVolume).toNumber() * SECONDS_PER_DAY
+        );
+
         const baseReserveBefore = POOL.overallReserve.base;
         const quoteReserveBefore = POOL.overallReserve.quote;
 
-        const { feeFactor, feesIn, slippage } = POOL.swap(args);
+        const { feeFactor, feesIn, slippage, recoveredQtyOut } =
+            POOL.swap(args);
 
         const statsAfter = POOL.stats;
         const baseReserveAfter = POOL.overallReserve.base;
         const quoteReserveAfter = POOL.overallReserve.quote;
 
         if (baseReserveAfter.lt(baseReserveBefore)) {
-            panic(
-                `Base reserve has decreased! (after - before = ${baseReserveAfter
+            throw new InvariantViolationError({
+                component: "Pool",
+                detail: `Base reserve has decreased! (after - before = ${baseReserveAfter
                     .sub(baseReserveBefore)
-                    .toString()})`
-            );
+                    .toString()})`,
+            });
         }
 
         if (quoteReserveAfter.lt(quoteReserveBefore)) {
-            panic(
-                `Quote reserve has decreased! (after - before = ${quoteReserveAfter
+            throw new InvariantViolationError({
+                component: "Pool",
+                detail: `Quote reserve has decreased! (after - before = ${quoteReserveAfter
                     .sub(quoteReserveBefore)
-                    .toString()})`
-            );
+                    .toString()})`,
+            });
         }
 
         addTradeQuote(quoteVolume);
@@ -240,8 +400,23 @@ export function Simulation(props: SimulationProps) {
         setStats(statsAfter);
         setIl(POOL.il);
         setFeeFactor(feeFactor);
+        quotePreview = undefined;
+        setRecoveredVolume((v) =>
+            v.add(
+                args.direction === "base -> quote"
+                    ? recoveredQtyOut
+                    : recoveredQtyOut.mul(
+                          Beacon.base(POOL).price(POOL.curAbsoluteTick)
+                      )
+            )
+        );
 
         nextDay(quoteVolume, feesIn);
+        if (today().day !== t.day) {
+            setIlHealing(compareIlHealing());
+            setFeeDecayHealing(compareFeeDecay());
+            setRubberBandProfit(compareRubberBand());
+        }
     };
 
     const quoteProfit = () => {
@@ -295,6 +470,10 @@ export function Simulation(props: SimulationProps) {
 
     const [int, setInt] = createSignal<number | undefined>();
 
+    createEffect(() => {
+        POOL.setFeeDecay(props.feeDecay ? FEE_DECAY : undefined);
+    });
+
     createEffect(() => {
         if (window.scrollY === 0) {
             if (props.isSim) {
@@ -327,19 +506,30 @@ export function Simulation(props: SimulationProps) {
         window.addEventListener("scroll", handleScroll);
 
         (window as any).swap = swap;
+        (window as any).quote = (args: SwapArgs) => POOL.quote(args);
+        (window as any).rubberBand = (
+            args: Omit<RubberBandAttackArgs, "pool">
+        ) => simulateRubberBandAttack({ ...args, pool: POOL });
 
         setInt(
             setInterval(() => {
                 if (props.updMetrics) {
                     props.updMetrics({
+                        assets: POOL.assets,
                         day: today().day,
 
-                        curPrice: absoluteTickToPrice(
+                        curPrice: POOL.tickMath.price(
                             POOL.curAbsoluteTick,
                             "base",
                             "reserve"
                         ),
                         curFeeFactor: feeFactor().mul(100),
+                        curFeeDecay: POOL.feeDecay.mul(100),
+                        quotePreview: (quotePreview ??= previewQuote()),
+                        recoveredVolume: recoveredVolume(),
+                        ilHealing: ilHealing(),
+                        feeDecayHealing: feeDecayHealing(),
+                        rubberBandProfit: rubberBandProfit(),
 
                         avgAPR: avgFees30d()
                             .div(POOL.tvlQuote)
@@ -349,21 +539,21 @@ export function Simulation(props: SimulationProps) {
                         avgTxnSize: avgTradeSize24h(),
                         avgSlippage: avgSlippage24h().mul(100),
 
-                        usdReserve: stats().quote.actualReserve,
-                        usdInventory: stats().quote.respectiveReserve,
-                        usdProfit: quoteProfit(),
-                        usdProfitPercent: quoteProfit()
+                        quoteReserve: stats().quote.actualReserve,
+                        quoteInventory: stats().quote.respectiveReserve,
+                        quoteProfit: quoteProfit(),
+                        quoteProfitPercent: quoteProfit()
                             .div(POOL.depositedReserves.quote)
                             .mul(100),
-                        usdIL: il().quote.mul(100),
+                        quoteIL: il().quote.mul(100),
 
-                        btcReserve: stats().base.actualReserve,
-                        btcInventory: stats().base.respectiveReserve,
-                        btcProfit: baseProfit(),
-                        btcProfitPercent: baseProfit()
+                        baseReserve: stats().base.actualReserve,
+                        baseInventory: stats().base.respectiveReserve,
+                        baseProfit: baseProfit(),
+                        baseProfitPercent: baseProfit()
                             .div(POOL.depositedReserves.base)
                             .mul(100),
-                        btcIL: il().base.mul(100),
+                        baseIL: il().base.mul(100),
                     });
                 }
             }, 100)
@@ -372,7 +562,14 @@ export function Simulation(props: SimulationProps) {
 
     onMount(async () => {
         while (true) {
-            if (isRunning()) swap();
+            if (isRunning()) {
+                try {
+                    swap();
+                } catch (e) {
+                    // the pool is left untouched by these, only bugs should stop the simulation
+                    if (!isRecoverable(e)) throw e;
+                }
+            }
             await delay(Math.floor(((101 - speed()) / 100) * 1000));
         }
     });
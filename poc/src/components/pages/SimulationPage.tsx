@@ -1,8 +1,9 @@
-import { Show } from "solid-js";
+import { For, Show } from "solid-js";
 import { Button } from "../Button.tsx";
 import { NumberInput } from "../NumberInput.tsx";
 import { type Metrics } from "../Simulation.tsx";
 import { PauseIcon, PlayIcon } from "../Icons.tsx";
+import { formatAmount } from "../../logic/asset.ts";
 
 export type SimulationPageProps = {
     isSim: boolean;
@@ -17,6 +18,9 @@ export type SimulationPageProps = {
 
     isRunning: boolean;
     toggleRunning: () => void;
+
+    feeDecay: boolean;
+    toggleFeeDecay: () => void;
 };
 
 export const SimulationPage = (props: SimulationPageProps) => {
@@ -33,28 +37,99 @@ export const SimulationPage = (props: SimulationPageProps) => {
                             {props.metrics.curFeeFactor.toString(2)}%
                         </span>
                     </p>
+                    <p>
+                        Fee Decay:{" "}
+                        <span class="font-bold">
+                            {props.metrics.curFeeDecay.toString(2)}%
+                        </span>
+                    </p>
                     <p>
                         Price:{" "}
                         <span class="font-bold">
-                            ${props.metrics.curPrice.toString(2)}
+                            {props.metrics.assets.quote.sign}
+                            {props.metrics.curPrice.toString(2)}
+                        </span>
+                    </p>
+                    <p>
+                        Sell{" "}
+                        {formatAmount(
+                            props.metrics.assets.base,
+                            props.metrics.quotePreview.qtyIn
+                        )}
+                        :{" "}
+                        <span class="font-bold">
+                            {formatAmount(
+                                props.metrics.assets.quote,
+                                props.metrics.quotePreview.qtyOut
+                            )}{" "}
+                            ({props.metrics.quotePreview.ticksCrossed} ticks)
                         </span>
                     </p>
                     <p>
                         Txn Size (avg 30d):{" "}
                         <span class="font-bold">
-                            ${props.metrics.avgTxnSize.toShortString()}
+                            {formatAmount(
+                                props.metrics.assets.quote,
+                                props.metrics.avgTxnSize
+                            )}
                         </span>
                     </p>
                     <p>
                         24h Volume (avg 30d):{" "}
                         <span class="font-bold">
-                            ${props.metrics.avgVolume.toShortString()}
+                            {formatAmount(
+                                props.metrics.assets.quote,
+                                props.metrics.avgVolume
+                            )}
                         </span>
                     </p>
                     <p>
                         24h Fees (avg 30d):{" "}
                         <span class="font-bold">
-                            ${props.metrics.avgFees.toShortString()}
+                            {formatAmount(
+                                props.metrics.assets.quote,
+                                props.metrics.avgFees
+                            )}
+                        </span>
+                    </p>
+                    <p>
+                        Recovered:{" "}
+                        <span class="font-bold">
+                            {formatAmount(
+                                props.metrics.assets.quote,
+                                props.metrics.recoveredVolume
+                            )}
+                        </span>
+                    </p>
+                    <For each={props.metrics.ilHealing}>
+                        {(it) => (
+                            <p>
+                                IL healed ({it.strategy}):{" "}
+                                <span class="font-bold">
+                                    {it.healed.toString(2)}%
+                                </span>
+                            </p>
+                        )}
+                    </For>
+                    <p>
+                        IL healed (fee decay off / on):{" "}
+                        <span class="font-bold">
+                            {props.metrics.feeDecayHealing.off.toString(2)}% /{" "}
+                            {props.metrics.feeDecayHealing.on.toString(2)}%
+                        </span>
+                    </p>
+                    <p>
+                        Rubber band profit (instant / delayed drift):{" "}
+                        <span class="font-bold">
+                            {formatAmount(
+                                props.metrics.assets.quote,
+                                props.metrics.rubberBandProfit.instant
+                            )}{" "}
+                            /{" "}
+                            {formatAmount(
+                                props.metrics.assets.quote,
+                                props.metrics.rubberBandProfit.delayed
+                            )}
                         </span>
                     </p>
 
@@ -93,6 +168,16 @@ export const SimulationPage = (props: SimulationPageProps) => {
                         />
                     </div>
 
+                    <div class="flex flex-row items-center justify-between">
+                        <p class="font-extrabold text-[20px]">Fee Decay</p>
+                        <Button
+                            class="w-[135px]"
+                            onClick={props.toggleFeeDecay}
+                        >
+                            <p>{props.feeDecay ? "on" : "off"}</p>
+                        </Button>
+                    </div>
+
                     <Button
                         class="self-end w-[135px] hover:[&>svg>path]:fill-white"
                         onClick={props.toggleRunning}
@@ -116,28 +201,39 @@ export const SimulationPage = (props: SimulationPageProps) => {
             <div class="flex flex-row gap-[10px] justify-between items-end">
                 <div class="flex flex-col justify-start gap-4 lg:gap-[24px]">
                     <p class="font-extrabold text-[24px] lg:text-[36px]">
-                        USD AMM
+                        {props.metrics.assets.quote.symbol} AMM
                     </p>
                     <div class="flex flex-col justify-start gap-[12px] font-normal text-[12px] lg:text-[14px]">
                         <p>
                             Reserve:{" "}
                             <span class="font-extrabold">
-                                ${props.metrics.usdReserve.toShortString()}
+                                {formatAmount(
+                                    props.metrics.assets.quote,
+                                    props.metrics.quoteReserve
+                                )}
                             </span>
                         </p>
                         <p>
                             Inventory:{" "}
                             <span class="font-extrabold">
-                                ${props.metrics.usdInventory.toShortString()}
+                                {formatAmount(
+                                    props.metrics.assets.quote,
+                                    props.metrics.quoteInventory
+                                )}
                             </span>
                         </p>
                         <p>
                             Profit:{" "}
                             <span class="font-extrabold">
-                                ${props.metrics.usdProfit.toShortString()}{" "}
+                                {formatAmount(
+                                    props.metrics.assets.quote,
+                                    props.metrics.quoteProfit
+                                )}{" "}
                                 <span class="hidden lg:inline">
                                     (
-                                    {props.metrics.usdProfitPercent.toString(2)}
+                                    {props.metrics.quoteProfitPercent.toString(
+                                        2
+                                    )}
                                     %)
                                 </span>
                             </span>
@@ -148,7 +244,7 @@ export const SimulationPage = (props: SimulationPageProps) => {
                             </span>
                             <span class="inline lg:hidden">IL</span>:{" "}
                             <span class="font-extrabold">
-                                {props.metrics.usdIL.toString(4)}%
+                                {props.metrics.quoteIL.toString(4)}%
                             </span>
                         </p>
                     </div>
@@ -174,28 +270,39 @@ export const SimulationPage = (props: SimulationPageProps) => {
 
                 <div class="flex flex-col justify-end gap-4 lg:gap-[24px] text-right">
                     <p class="font-extrabold text-[24px] lg:text-[36px]">
-                        BTC AMM
+                        {props.metrics.assets.base.symbol} AMM
                     </p>
                     <div class="flex flex-col justify-end gap-[12px] font-normal text-[12px] lg:text-[14px]">
                         <p>
                             Reserve:{" "}
                             <span class="font-extrabold">
-                                ₿{props.metrics.btcReserve.toShortString()}
+                                {formatAmount(
+                                    props.metrics.assets.base,
+                                    props.metrics.baseReserve
+                                )}
                             </span>
                         </p>
                         <p>
                             Inventory:{" "}
                             <span class="font-extrabold">
-                                ₿{props.metrics.btcInventory.toShortString()}
+                                {formatAmount(
+                                    props.metrics.assets.base,
+                                    props.metrics.baseInventory
+                                )}
                             </span>
                         </p>
                         <p>
                             Profit:{" "}
                             <span class="font-extrabold">
-                                ₿{props.metrics.btcProfit.toShortString()}{" "}
+                                {formatAmount(
+                                    props.metrics.assets.base,
+                                    props.metrics.baseProfit
+                                )}{" "}
                                 <span class="hidden lg:inline">
                                     (
-                                    {props.metrics.btcProfitPercent.toString(2)}
+                                    {props.metrics.baseProfitPercent.toString(
+                                        2
+                                    )}
                                     %)
                                 </span>
                             </span>
@@ -206,7 +313,7 @@ export const SimulationPage = (props: SimulationPageProps) => {
                             </span>
                             <span class="inline lg:hidden">IL</span>:{" "}
                             <span class="font-extrabold">
-                                {props.metrics.btcIL.toString(4)}%
+                                {props.metrics.baseIL.toString(4)}%
                             </span>
                         </p>
                     </div>
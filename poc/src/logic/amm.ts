@@ -1,10 +1,15 @@
 import { Beacon } from "./beacon.ts";
-import { CurrentTick } from "./cur-tick.ts";
+import { CurrentTick, type CurrentTickState } from "./cur-tick.ts";
 import { ECs } from "./ecs.ts";
-import { Liquidity } from "./liquidity.ts";
+import {
+    Liquidity,
+    type LiquidityShapes,
+    type LiquidityState,
+} from "./liquidity.ts";
 import { Pool } from "./pool.ts";
 import { type TakeResult, Range } from "./range.ts";
-import { type TwoAmmSided } from "./utils.ts";
+import { type Side, type TwoAmmSided } from "./utils.ts";
+import { InsufficientLiquidityError } from "./errors.ts";
 
 /**
  * Arguments for depositing liquidity into an AMM.
@@ -18,13 +23,25 @@ export type DepositArgs = {
  * Arguments for withdrawing liquidity from an AMM.
  */
 export type WithdrawArgs = {
-    /**
-     * The amount of deposited reserve to withdraw.
-     * Should be the same as was really deposited.
-     */
+    /** The shares minted by earlier deposits. */
+    shares: ECs;
+    /** The part of the deposited reserve the shares were minted for, only used for accounting. */
     depositedReserve: ECs;
 };
 
+/**
+ * What a withdrawal takes from each part of the AMM.
+ */
+export type WithdrawResult = {
+    /** In the reserve asset. */
+    reserveRange: ECs;
+    /** In the inventory asset. */
+    inventoryRanges: ECs;
+    currentTick: TwoAmmSided<ECs>;
+    /** The recovery bin's fees, in the inventory asset. */
+    collateral: ECs;
+};
+
 /**
  * Total liquidity of the AMM
  */
@@ -42,8 +59,19 @@ export type LiquidityDigest = {
     inventory: Range[];
 };
 
+/**
+ * `AMM` as plain data, see `Pool.toState`. The ECs are kept in raw units.
+ */
+export type AMMState = {
+    depositedReserve: string;
+    totalShares: string;
+    liquidity: LiquidityState;
+    currentTick: CurrentTickState;
+};
+
 export class AMM {
     private _depositedReserve = ECs.zero();
+    private _totalShares = ECs.zero();
 
     constructor(
         private $: Beacon,
@@ -79,25 +107,89 @@ export class AMM {
         );
 
         a._depositedReserve = this._depositedReserve.clone();
+        a._totalShares = this._totalShares.clone();
 
         return a;
     }
 
-    public deposit(args: DepositArgs): void {
+    public static fromState(
+        state: AMMState,
+        $: Beacon,
+        _getTickSpan: (() => number) | undefined,
+        shapes: LiquidityShapes
+    ) {
+        const liq = Liquidity.fromState(
+            state.liquidity,
+            _getTickSpan,
+            $.clone(),
+            shapes
+        );
+        const ct = CurrentTick.fromState(state.currentTick, liq, $.clone());
+
+        const a = new AMM($, _getTickSpan, ct.getIndex(), liq, ct);
+
+        a._depositedReserve = new ECs(BigInt(state.depositedReserve));
+        a._totalShares = new ECs(BigInt(state.totalShares));
+
+        return a;
+    }
+
+    public toState(): AMMState {
+        return {
+            depositedReserve: this._depositedReserve.raw.toString(),
+            totalShares: this._totalShares.raw.toString(),
+            liquidity: this._liquidity.toState(),
+            currentTick: this._currentTick.toState(),
+        };
+    }
+
+    /**
+     * Deposits the reserve and returns the minted shares.
+     * The shares are minted in proportion to the current value of the AMM, so the earlier depositors keep their fees.
+     */
+    public deposit(args: DepositArgs): ECs {
+        const value = this.getValue();
+        const shares =
+            this._totalShares.isZero() || value.isZero()
+                ? args.reserve.clone()
+                : args.reserve.mul(this._totalShares).div(value, "floor");
+
         this._liquidity.deposit(args.reserve, this._currentTick.getIndex());
         this._depositedReserve.addAssign(args.reserve);
+        this._totalShares.addAssign(shares);
+
+        return shares;
     }
 
-    public withdraw(args: WithdrawArgs): TwoAmmSided<ECs> {
-        const cut = args.depositedReserve.div(this._depositedReserve);
+    public withdraw(args: WithdrawArgs): WithdrawResult {
+        if (args.shares.gt(this._totalShares))
+            throw new InsufficientLiquidityError({
+                requested: args.shares.clone(),
+                available: this._totalShares.clone(),
+            });
+
+        const cut = args.shares.div(this._totalShares, "floor");
         const { reserve: r1, inventory: i1 } = this._liquidity.withdraw(cut);
 
-        const { reserve: r2, inventory: i2 } =
-            this._currentTick.withdrawCut(cut);
+        const {
+            reserve: r2,
+            inventory: i2,
+            collateral,
+        } = this._currentTick.withdrawCut(cut);
 
         this._depositedReserve.subAssign(args.depositedReserve);
+        this._totalShares.subAssign(args.shares);
 
-        return { reserve: r1.add(r2), inventory: i1.add(i2) };
+        return {
+            reserveRange: r1,
+            inventoryRanges: i1,
+            currentTick: { reserve: r2, inventory: i2 },
+            collateral,
+        };
+    }
+
+    public get side(): Side {
+        return this.$.isBase ? "base" : "quote";
     }
 
     public get currentTick(): CurrentTick {
@@ -144,6 +236,25 @@ export class AMM {
         return this._depositedReserve.clone();
     }
 
+    public getTotalShares(): ECs {
+        return this._totalShares.clone();
+    }
+
+    public getCollateral(): ECs {
+        return this._currentTick.getRecoveryBin().getCollateral();
+    }
+
+    /**
+     * Everything the AMM holds (the collateral included), valued in the reserve asset at the current price.
+     */
+    public getValue(): ECs {
+        return this.getActualReserve().add(
+            this.getActualInventory()
+                .add(this.getCollateral())
+                .mul(this.$.price(this.currentTick.getIndex(), "inventory"))
+        );
+    }
+
     public getActualReserve(): ECs {
         return (this._liquidity.reserve?.getReserveQty() ?? ECs.zero()).add(
             this.currentTick.getCurrentReserve()
@@ -0,0 +1,80 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { BTC, formatAmount, TokenAmount, USDC, USDT } from "./asset.ts";
+
+Deno.test("negative fractions keep their sign", () => {
+    assert(ECs.fromString("-0.5").isNegative());
+    assert(ECs.fromString("-0.5").eq(ECs.half().negate()));
+    assertEquals(TokenAmount.fromString(BTC, "-0.25").toNative(), -25_000_000n);
+});
+
+Deno.test("amounts are parsed in the scientific notation", () => {
+    assertEquals(TokenAmount.fromString(BTC, "2.1e-4").toNative(), 21_000n);
+    assertEquals(
+        TokenAmount.fromString(USDC, "1.5E3").toNative(),
+        1_500_000_000n
+    );
+    assertEquals(TokenAmount.fromString(USDC, "-1e-6").toNative(), -1n);
+});
+
+Deno.test("digits below the smallest native unit are rejected", () => {
+    assertThrows(
+        () => TokenAmount.fromString(USDC, "0.0000001"),
+        InvalidArgumentError
+    );
+    assertThrows(
+        () => TokenAmount.fromString(BTC, "1e-9"),
+        InvalidArgumentError
+    );
+});
+
+Deno.test("native units convert both ways without loss", () => {
+    for (const units of [0n, 1n, 12_345_678n, -987_654_321_012n]) {
+        const a = TokenAmount.fromNative(BTC, units);
+
+        assert(a.isNativeExact());
+        assertEquals(a.toNative(), units);
+    }
+
+    // ECs keep more digits than the token, so the rounding is up to the caller
+    const third = new TokenAmount(USDC, ECs.one().div(3));
+    assert(!third.isNativeExact());
+    assertEquals(third.toNative(), 333_333n);
+    assertEquals(third.toNative("ceil"), 333_334n);
+});
+
+Deno.test(
+    "amounts are formatted with the sign and the decimals of the asset",
+    () => {
+        assertEquals(
+            TokenAmount.fromString(BTC, "0.00012345").toString(),
+            "₿0.00012345"
+        );
+        assertEquals(
+            TokenAmount.fromString(USDC, "-2.5").toString(),
+            "-$2.500000"
+        );
+        assertEquals(
+            TokenAmount.fromString(USDT, "1250000").toShortString(),
+            "$1.25M"
+        );
+
+        assertEquals(formatAmount(BTC, ECs.fromString("1.25")), "₿1.2500");
+        assertEquals(formatAmount(USDT, ECs.fromString("-93320")), "-$93.32K");
+        assertEquals(
+            formatAmount(USDT, ECs.fromString("93320"), false),
+            "$93320.000000"
+        );
+    }
+);
+
+Deno.test("amounts of different assets don't mix", () => {
+    const btc = TokenAmount.fromString(BTC, "1");
+    const usdt = TokenAmount.fromString(USDT, "1");
+
+    assertEquals(btc.add(btc).toNative(), 200_000_000n);
+    assertEquals(btc.sub(btc).toNative(), 0n);
+    assertThrows(() => btc.add(usdt), InvalidArgumentError);
+    assertThrows(() => usdt.sub(btc), InvalidArgumentError);
+});
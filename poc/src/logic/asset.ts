@@ -0,0 +1,136 @@
+import { ECs, type Rounding } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+
+/**
+ * A token the pool trades.
+ */
+export type Asset = {
+    /** Ticker, e.g. `BTC`. */
+    symbol: string;
+    /** Short currency sign used when formatting amounts, e.g. `₿`. */
+    sign: string;
+    /** Native decimals of the token, e.g. `8` for e8s. */
+    decimals: number;
+};
+
+export const BTC: Asset = { symbol: "BTC", sign: "₿", decimals: 8 };
+export const USDC: Asset = { symbol: "USDC", sign: "$", decimals: 6 };
+export const USDT: Asset = { symbol: "USDT", sign: "$", decimals: 6 };
+
+/**
+ * An amount of a particular asset. The quantity itself is kept in ECs, so the math stays exact,
+ * while conversions to and from native units respect the decimals of the asset.
+ */
+export class TokenAmount {
+    constructor(private _asset: Asset, private _qty: ECs) {}
+
+    public static zero(asset: Asset): TokenAmount {
+        return new TokenAmount(asset, ECs.zero());
+    }
+
+    /**
+     * Parses a human-readable amount, e.g. `1.5`, `-0.25` or `2.1e-4`.
+     * Digits below the smallest native unit are not allowed.
+     */
+    public static fromString(asset: Asset, s: string): TokenAmount {
+        const a = new TokenAmount(asset, ECs.fromString(s));
+
+        if (!a.isNativeExact())
+            throw new InvalidArgumentError({
+                argument: "s",
+                detail: `'${s}' has more than ${asset.decimals} decimals of ${asset.symbol}`,
+            });
+
+        return a;
+    }
+
+    /**
+     * Creates an amount from an integer amount of native units (e.g. e8s for BTC).
+     */
+    public static fromNative(asset: Asset, units: bigint): TokenAmount {
+        return new TokenAmount(asset, ECs.fromNative(units, asset.decimals));
+    }
+
+    /**
+     * Converts to an integer amount of native units (e.g. e8s for BTC).
+     */
+    public toNative(rounding: Rounding = "floor"): bigint {
+        return this._qty.toNative(this._asset.decimals, rounding);
+    }
+
+    /**
+     * Whether the amount can be represented in native units without losing anything.
+     */
+    public isNativeExact(): boolean {
+        return ECs.fromNative(this.toNative(), this._asset.decimals).eq(
+            this._qty
+        );
+    }
+
+    public clone(): TokenAmount {
+        return new TokenAmount(this._asset, this._qty.clone());
+    }
+
+    public add(other: TokenAmount): TokenAmount {
+        this.assertSameAsset(other);
+
+        return new TokenAmount(this._asset, this._qty.add(other._qty));
+    }
+
+    public sub(other: TokenAmount): TokenAmount {
+        this.assertSameAsset(other);
+
+        return new TokenAmount(this._asset, this._qty.sub(other._qty));
+    }
+
+    /**
+     * Formats the amount with the native number of decimals, e.g. `₿0.00012345`.
+     */
+    public toString(decimals: number = this._asset.decimals): string {
+        const q = this._qty.toString(decimals);
+
+        return q.startsWith("-")
+            ? `-${this._asset.sign}${q.substring(1)}`
+            : `${this._asset.sign}${q}`;
+    }
+
+    /**
+     * Formats the amount in a compact way, e.g. `$1.25M`.
+     */
+    public toShortString(): string {
+        const q = this._qty.toShortString();
+
+        return q.startsWith("-")
+            ? `-${this._asset.sign}${q.substring(1)}`
+            : `${this._asset.sign}${q}`;
+    }
+
+    public get asset(): Asset {
+        return this._asset;
+    }
+
+    public get qty(): ECs {
+        return this._qty.clone();
+    }
+
+    private assertSameAsset(other: TokenAmount) {
+        if (other._asset.symbol !== this._asset.symbol)
+            throw new InvalidArgumentError({
+                argument: "other",
+                detail: `can't mix ${this._asset.symbol} with ${other._asset.symbol}`,
+            });
+    }
+}
+
+/**
+ * Formats an ECs quantity of the asset, e.g. `₿1.25` or `$93.32K`.
+ */
+export function formatAmount(
+    asset: Asset,
+    qty: ECs,
+    short: boolean = true
+): string {
+    const a = new TokenAmount(asset, qty);
+
+    return short ? a.toShortString() : a.toString();
+}
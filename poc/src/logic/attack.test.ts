@@ -0,0 +1,53 @@
+import { assert, assertEquals } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { SimulatedClock } from "./clock.ts";
+import { simulateRubberBandAttack } from "./attack.ts";
+import { makePool } from "./test-utils.ts";
+
+Deno.test(
+    "the delayed drift makes the attack less profitable, until it catches up",
+    () => {
+        const pool = makePool({ clock: new SimulatedClock() });
+        const tick = pool.curAbsoluteTick;
+        // past the tick span, so the drifting reserves have to stretch after the price
+        const args = {
+            pool,
+            qtyIn: ECs.fromString("10_000_000"),
+            direction: "quote -> base" as const,
+        };
+        const delayedDrift = {
+            mode: "delayed" as const,
+            interval: 60,
+            fraction: ECs.fromString("0.1"),
+        };
+
+        const instant = simulateRubberBandAttack({
+            ...args,
+            holdSeconds: 600,
+            drift: { mode: "instant" },
+        });
+        const delayed = simulateRubberBandAttack({
+            ...args,
+            holdSeconds: 600,
+            drift: delayedDrift,
+        });
+        const delayedLong = simulateRubberBandAttack({
+            ...args,
+            holdSeconds: 86_400,
+            drift: delayedDrift,
+        });
+
+        assert(instant.ticksPushed > 1000);
+        assert(instant.profit.isPositive());
+
+        // ten steps only cover a part of the way, a day is enough to get where the instant drift jumps to
+        assert(delayed.profit.lt(instant.profit));
+        assert(delayedLong.profit.gt(delayed.profit));
+        assert(delayedLong.profit.eq(instant.profit));
+
+        // the pool itself keeps its own drift, clock and price
+        assertEquals(pool.driftParams, { mode: "instant" });
+        assertEquals(pool.clock.now(), 0);
+        assertEquals(pool.curAbsoluteTick, tick);
+    }
+);
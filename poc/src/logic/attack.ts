@@ -0,0 +1,64 @@
+import { ECs } from "./ecs.ts";
+import { type DriftParams, type Pool } from "./pool.ts";
+import { SimulatedClock } from "./clock.ts";
+import { type SwapDirection } from "./utils.ts";
+
+export type RubberBandAttackArgs = {
+    pool: Pool;
+    /** What the attacker pushes the price with. */
+    qtyIn: ECs;
+    direction: SwapDirection;
+    /** How long the attacker waits for the reserves to drift before swapping back. */
+    holdSeconds: number;
+    /** The drift of the copy, the pool's own one when not set. */
+    drift?: DriftParams;
+};
+
+export type RubberBandAttackResult = {
+    /** What the attacker gets for `qtyIn` on the way there. */
+    qtyOut: ECs;
+    /** What the attacker gets back for `qtyOut`, in the asset of `qtyIn`. */
+    qtyBack: ECs;
+    /** `qtyBack - qtyIn`, in the asset of `qtyIn`. */
+    profit: ECs;
+    /** How far the push moved the price. */
+    ticksPushed: number;
+};
+
+/**
+ * The "rubber band" manipulation from the risk analysis (3A): push the price far away, let the drifting
+ * reserves stretch after it, then swap back through the stretched liquidity.
+ *
+ * Runs on a copy of the pool with its own simulated clock, so `holdSeconds` passes only for the copy,
+ * and `drift` lets the same attack be compared between the drift modes.
+ */
+export function simulateRubberBandAttack(
+    args: RubberBandAttackArgs
+): RubberBandAttackResult {
+    const clock = new SimulatedClock(args.pool.clock.now());
+    const pool = args.pool.clone(true, clock, { drift: args.drift });
+    const tickBefore = pool.curAbsoluteTick;
+
+    const { qtyOut } = pool.swap({
+        qtyIn: args.qtyIn,
+        direction: args.direction,
+    });
+    const ticksPushed = Math.abs(pool.curAbsoluteTick - tickBefore);
+
+    clock.advance(args.holdSeconds);
+
+    const { qtyOut: qtyBack } = pool.swap({
+        qtyIn: qtyOut,
+        direction:
+            args.direction === "base -> quote"
+                ? "quote -> base"
+                : "base -> quote",
+    });
+
+    return {
+        qtyOut,
+        qtyBack,
+        profit: qtyBack.sub(args.qtyIn),
+        ticksPushed,
+    };
+}
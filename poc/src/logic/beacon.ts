@@ -1,48 +1,44 @@
-import { absoluteTickToPrice } from "./ecs.ts";
 import { Pool } from "./pool.ts";
-import {
-    type AMMSide,
-    type DriftingStatus,
-    panic,
-    type Side,
-} from "./utils.ts";
+import { InvariantViolationError } from "./errors.ts";
+import { type AMMSide, type Side } from "./utils.ts";
+import { type LayerName } from "./layer.ts";
 
 export class Beacon {
     protected _side: Side;
     protected _ammSide: AMMSide | undefined;
-    protected _driftingStatus: DriftingStatus;
+    protected _layer: LayerName;
     protected _noLogs: boolean;
     protected _pool: Pool;
 
     public static base(
         pool: Pool,
-        driftingStatus: DriftingStatus = "stable",
+        layer: LayerName = "stable",
         ammSide: AMMSide | undefined = undefined,
         noLogs: boolean = false
     ) {
-        return new Beacon(pool, "base", ammSide, driftingStatus, noLogs);
+        return new Beacon(pool, "base", ammSide, layer, noLogs);
     }
 
     public static quote(
         pool: Pool,
-        driftingStatus: DriftingStatus = "stable",
+        layer: LayerName = "stable",
         ammSide: AMMSide | undefined = undefined,
         noLogs: boolean = false
     ) {
-        return new Beacon(pool, "quote", ammSide, driftingStatus, noLogs);
+        return new Beacon(pool, "quote", ammSide, layer, noLogs);
     }
 
     constructor(
         pool: Pool,
         side: Side,
         ammSide: AMMSide | undefined,
-        driftingStatus: DriftingStatus,
+        layer: LayerName,
         noLogs?: boolean
     ) {
         this._pool = pool;
         this._side = side;
         this._ammSide = ammSide;
-        this._driftingStatus = driftingStatus;
+        this._layer = layer;
         this._noLogs = noLogs ?? false;
     }
 
@@ -50,14 +46,14 @@ export class Beacon {
         pool?: Pool;
         side?: Side;
         ammSide?: AMMSide;
-        driftingStatus?: DriftingStatus;
+        layer?: LayerName;
         noLogs?: boolean;
     }) {
         return new Beacon(
             args?.pool ?? this.pool,
             args?.side ?? this._side,
             args?.ammSide ?? this._ammSide,
-            args?.driftingStatus ?? this._driftingStatus,
+            args?.layer ?? this._layer,
             args?.noLogs ?? this._noLogs
         );
     }
@@ -65,26 +61,24 @@ export class Beacon {
     public toString() {
         return `${this._ammSide === undefined ? "" : this._ammSide + " "}${
             this._side
-        } ${this._driftingStatus}${this._noLogs ? " noLogs" : ""}`;
+        } ${this._layer}${this._noLogs ? " noLogs" : ""}`;
     }
 
     public price(tickIdx: number, lhs: AMMSide = "reserve") {
-        return absoluteTickToPrice(tickIdx, this._side, lhs);
+        return this._pool.tickMath.price(tickIdx, this._side, lhs);
     }
 
     public get isBase() {
         return this._side === "base";
     }
 
-    public get isDrifting() {
-        return this._driftingStatus === "drifting";
-    }
-
     public get isReserve() {
         if (this._ammSide === undefined)
-            panic(
-                `[Beacon ${this}] The beacon is not amm-oriented, can't check if reserve or not`
-            );
+            throw new InvariantViolationError({
+                component: "Beacon",
+                beacon: `${this}`,
+                detail: "The beacon is not amm-oriented, can't check if reserve or not",
+            });
 
         return this._ammSide === "reserve";
     }
@@ -96,4 +90,12 @@ export class Beacon {
     public get pool() {
         return this._pool;
     }
+
+    public get tickMath() {
+        return this._pool.tickMath;
+    }
+
+    public now() {
+        return this._pool.clock.now();
+    }
 }
@@ -0,0 +1,71 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { SimulatedClock, SystemClock } from "./clock.ts";
+import { makePool } from "./test-utils.ts";
+
+Deno.test("the simulated clock only moves forward, when told to", () => {
+    const clock = new SimulatedClock(100);
+    assertEquals(clock.now(), 100);
+
+    clock.advance(0.5);
+    clock.set(200);
+    assertEquals(clock.now(), 200);
+
+    assertThrows(() => clock.advance(-1), InvalidArgumentError);
+    assertThrows(() => clock.set(199), InvalidArgumentError);
+    assertEquals(clock.now(), 200);
+});
+
+Deno.test("the system clock is in seconds", () => {
+    const now = new SystemClock().now();
+
+    assert(Math.abs(now - Date.now() / 1000) < 60);
+});
+
+Deno.test(
+    "the pool operations are stamped with the time of the pool's clock",
+    () => {
+        const clock = new SimulatedClock(1_000);
+        const pool = makePool({ clock });
+
+        clock.advance(10);
+        const position = pool.deposit("base", ECs.fromString("1"), "bob");
+        assertEquals(pool.positionStats(position).openedAt, 1_010);
+
+        clock.advance(10);
+        const order = pool.placeOrder(
+            "base",
+            pool.curAbsoluteTick + 100,
+            ECs.fromString("1")
+        );
+        assertEquals(pool.orderStats(order).placedAt, 1_020);
+
+        clock.advance(10);
+        const swap = pool.swap({
+            qtyIn: ECs.fromString("1"),
+            direction: "base -> quote",
+        });
+        assertEquals(swap.timestamp, 1_030);
+
+        clock.advance(10);
+        assertEquals(pool.withdraw(position).timestamp, 1_040);
+    }
+);
+
+Deno.test("a copy of the pool can run on its own clock", () => {
+    const clock = new SimulatedClock();
+    const pool = makePool({ clock });
+
+    const own = new SimulatedClock(500);
+    const copy = pool.clone(true, own);
+    own.advance(100);
+
+    assertEquals(copy.clock.now(), 600);
+    assertEquals(pool.clock.now(), 0);
+    assertEquals(
+        copy.swap({ qtyIn: ECs.fromString("1"), direction: "base -> quote" })
+            .timestamp,
+        600
+    );
+});
@@ -0,0 +1,55 @@
+import { InvalidArgumentError } from "./errors.ts";
+
+/** Seconds since the Unix epoch (or since the start of a simulation), fractions allowed. */
+export type Timestamp = number;
+
+export const SECONDS_PER_DAY = 86_400;
+
+/**
+ * Tells the pool what time it is. Every time-based mechanism (fee decay, TWAP, etc.) asks it,
+ * so swapping the clock makes the whole pool run in a different time.
+ */
+export interface Clock {
+    now(): Timestamp;
+}
+
+/**
+ * The wall-clock time.
+ */
+export class SystemClock implements Clock {
+    public now(): Timestamp {
+        return Date.now() / 1000;
+    }
+}
+
+/**
+ * A clock that only moves when told to, so the same operations always happen at the same time.
+ * Meant for the tests and the simulation.
+ */
+export class SimulatedClock implements Clock {
+    constructor(private _now: Timestamp = 0) {}
+
+    public now(): Timestamp {
+        return this._now;
+    }
+
+    public advance(seconds: number) {
+        if (!(seconds >= 0))
+            throw new InvalidArgumentError({
+                argument: "seconds",
+                detail: `the clock can't go backwards: ${seconds}`,
+            });
+
+        this._now += seconds;
+    }
+
+    public set(timestamp: Timestamp) {
+        if (!(timestamp >= this._now))
+            throw new InvalidArgumentError({
+                argument: "timestamp",
+                detail: `the clock can't go backwards: ${timestamp} < ${this._now}`,
+            });
+
+        this._now = timestamp;
+    }
+}
@@ -0,0 +1,53 @@
+import { assert } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { makePool } from "./test-utils.ts";
+
+Deno.test(
+    "a withdrawal never leaves more inventory in the tick than is left",
+    () => {
+        const pool = makePool();
+        const [, quote] = pool.positions();
+
+        // half-fills the current tick of the quote AMMs with base inventory
+        pool.swap({
+            qtyIn: ECs.fromString("0.0001"),
+            direction: "base -> quote",
+        });
+
+        // the inventory of the current tick of each quote AMM, as the reserve it was bought with
+        const inventories = (p: typeof pool) =>
+            p.toState().layers.map(({ amm }) => {
+                const tick = amm.quote.currentTick;
+
+                return ECs.fromString(tick.targetReserve).sub(
+                    ECs.fromString(tick.currentReserve)
+                );
+            });
+        const before = inventories(pool);
+
+        for (const cut of [
+            "0.1",
+            "0.333333333333333333333333333333",
+            "0.5",
+            "0.99",
+        ]) {
+            // the only LP of the quote side, so the cut of every quote AMM is the fraction
+            const copy = pool.clone(true);
+            const c = ECs.fromString(cut);
+            copy.withdraw(quote, c);
+
+            const after = inventories(copy);
+            const one = ECs.one().raw;
+
+            for (let i = 0; i < before.length; i++) {
+                assert(before[i].isPositive());
+                assert(!after[i].isNegative());
+                // compared exactly, as `before * (1 - cut)` with no rounding
+                assert(
+                    after[i].raw * one <= before[i].raw * (one - c.raw),
+                    `${cut} of layer ${i}`
+                );
+            }
+        }
+    }
+);
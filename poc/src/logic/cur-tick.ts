@@ -3,8 +3,9 @@ import { ECs } from "./ecs.ts";
 import { Liquidity } from "./liquidity.ts";
 import { Pool } from "./pool.ts";
 import { type TakeResult } from "./range.ts";
-import { RecoveryBin } from "./recovery-bin.ts";
-import { type AMMSwapDirection, panic, type TwoAmmSided } from "./utils.ts";
+import { RecoveryBin, type RecoveryBinState } from "./recovery-bin.ts";
+import { type AMMSwapDirection, type TwoAmmSided } from "./utils.ts";
+import { InvariantViolationError } from "./errors.ts";
 
 export type CurrentTickSwapArgs = {
     direction: AMMSwapDirection;
@@ -14,6 +15,20 @@ export type CurrentTickSwapArgs = {
 export type CurrentTickSwapResult = {
     qtyOut: ECs;
     reminderIn: ECs;
+    /** The part of `qtyOut` that came from the recovery bin. */
+    recoveredOut: ECs;
+    /** The part of the input filled normally, because the recovery limiter held the recovery bin back. */
+    deferredIn: ECs;
+};
+
+/**
+ * `CurrentTick` as plain data, see `Pool.toState`. The ECs are kept in raw units.
+ */
+export type CurrentTickState = {
+    index: number;
+    targetReserve: string;
+    currentReserve: string;
+    recoveryBin: RecoveryBinState;
 };
 
 export class CurrentTick {
@@ -44,17 +59,45 @@ export class CurrentTick {
         return c;
     }
 
+    public static fromState(
+        state: CurrentTickState,
+        liquidity: Liquidity,
+        $: Beacon
+    ) {
+        const c = new CurrentTick(state.index, liquidity, $);
+
+        c._targetReserve = new ECs(BigInt(state.targetReserve));
+        c._currentReserve = new ECs(BigInt(state.currentReserve));
+        c._recoveryBin = RecoveryBin.fromState(
+            state.recoveryBin,
+            liquidity,
+            $.clone()
+        );
+
+        return c;
+    }
+
+    public toState(): CurrentTickState {
+        return {
+            index: this._index,
+            targetReserve: this._targetReserve.raw.toString(),
+            currentReserve: this._currentReserve.raw.toString(),
+            recoveryBin: this._recoveryBin.toState(),
+        };
+    }
+
     public addInventoryFees(fees: ECs) {
         this._recoveryBin.addCollateral(fees);
     }
 
     public swap(args: CurrentTickSwapArgs): CurrentTickSwapResult {
         if (args.direction === "reserve -> inventory") {
-            const { reminderReserveIn, inventoryOut } =
+            const { reminderReserveIn, inventoryOut, deferred } =
                 this._recoveryBin.recover({
                     curTickIdx: this._index,
                     reserveIn: args.qtyIn.clone(),
                 });
+            const recoveredOut = inventoryOut.clone();
 
             const respectiveReserve = this._targetReserve.sub(
                 this._currentReserve
@@ -64,30 +107,38 @@ export class CurrentTick {
                 return {
                     qtyOut: inventoryOut,
                     reminderIn: reminderReserveIn,
+                    recoveredOut,
+                    deferredIn: ECs.zero(),
                 };
             }
 
+            this._recoveryBin.onNormalFill();
+
             if (respectiveReserve.ge(reminderReserveIn)) {
                 this._currentReserve.addAssign(reminderReserveIn);
                 inventoryOut.addAssign(
-                    reminderReserveIn.mul(this.$.price(this._index))
+                    reminderReserveIn.mul(this.$.price(this._index), "floor")
                 );
 
                 return {
                     qtyOut: inventoryOut,
                     reminderIn: ECs.zero(),
+                    recoveredOut,
+                    deferredIn: deferred ? reminderReserveIn : ECs.zero(),
                 };
             }
 
             this._currentReserve = this._targetReserve.clone();
             inventoryOut.addAssign(
-                respectiveReserve.mul(this.$.price(this._index))
+                respectiveReserve.mul(this.$.price(this._index), "floor")
             );
             reminderReserveIn.subAssign(respectiveReserve);
 
             return {
                 qtyOut: inventoryOut,
                 reminderIn: reminderReserveIn,
+                recoveredOut,
+                deferredIn: deferred ? respectiveReserve : ECs.zero(),
             };
         }
 
@@ -95,10 +146,14 @@ export class CurrentTick {
             return {
                 qtyOut: ECs.zero(),
                 reminderIn: args.qtyIn,
+                recoveredOut: ECs.zero(),
+                deferredIn: ECs.zero(),
             };
 
+        // the trader never gets more reserve than their inventory is worth
         const needsReserve = args.qtyIn.mul(
-            this.$.price(this._index, "inventory")
+            this.$.price(this._index, "inventory"),
+            "floor"
         );
 
         if (needsReserve.le(this._currentReserve)) {
@@ -107,13 +162,16 @@ export class CurrentTick {
             return {
                 qtyOut: needsReserve,
                 reminderIn: ECs.zero(),
+                recoveredOut: ECs.zero(),
+                deferredIn: ECs.zero(),
             };
         }
 
         const getsReserve = this._currentReserve.clone();
         const reminderReserve = needsReserve.sub(getsReserve);
         const reminderInventory = reminderReserve.mul(
-            this.$.price(this._index)
+            this.$.price(this._index),
+            "floor"
         );
 
         this._currentReserve = ECs.zero();
@@ -121,9 +179,30 @@ export class CurrentTick {
         return {
             qtyOut: getsReserve,
             reminderIn: reminderInventory,
+            recoveredOut: ECs.zero(),
+            deferredIn: ECs.zero(),
         };
     }
 
+    /**
+     * How much has to be swapped at this tick to get `qtyOut` (if there is enough liquidity).
+     * Every source of liquidity at the tick, the recovery bin included, trades at the tick's price.
+     */
+    public getQtyInForQtyOut(qtyOut: ECs, direction: AMMSwapDirection): ECs {
+        return direction === "reserve -> inventory"
+            ? qtyOut.div(this.$.price(this._index), "ceil")
+            : qtyOut.div(this.$.price(this._index, "inventory"), "ceil");
+    }
+
+    /**
+     * Whether nothing is left to swap in the direction at this tick (the recovery bin aside), so it can be switched.
+     */
+    public isConsumed(direction: AMMSwapDirection): boolean {
+        return direction === "reserve -> inventory"
+            ? this._currentReserve.eq(this._targetReserve)
+            : this._currentReserve.isZero();
+    }
+
     public prepareSwap(direction: AMMSwapDirection) {
         const fromCurTick: TakeResult = {
             tickIdx: this._index,
@@ -133,22 +212,17 @@ export class CurrentTick {
             ),
         };
 
-        if (direction === "reserve -> inventory") {
-            if (!this._currentReserve.eq(this._targetReserve))
-                panic(
-                    `[Curtick ${this.$}] Only a fully consumed curtick can be switched`
-                );
+        if (!this.isConsumed(direction))
+            throw this.violation(
+                "Only a fully consumed curtick can be switched"
+            );
 
-            if (this.$.isBase) this._index -= 1;
-            else this._index += 1;
+        if (direction === "reserve -> inventory") {
+            if (this.$.isBase) this._index -= this.$.tickMath.tickSpacing;
+            else this._index += this.$.tickMath.tickSpacing;
         } else {
-            if (!this._currentReserve.isZero())
-                panic(
-                    `[Curtick ${this.$}] Only a fully consumed curtick can be switched`
-                );
-
-            if (this.$.isBase) this._index += 1;
-            else this._index -= 1;
+            if (this.$.isBase) this._index += this.$.tickMath.tickSpacing;
+            else this._index -= this.$.tickMath.tickSpacing;
         }
 
         const newTick = this.liquidity.takeNextTick(
@@ -164,16 +238,26 @@ export class CurrentTick {
         }
     }
 
-    public withdrawCut(cut: ECs): TwoAmmSided<ECs> {
-        const reserve = this._currentReserve.mul(cut);
-        const inventory = this.getCurrentInventory().mul(cut);
+    /**
+     * Withdraws the `cut` of the tick, the recovery bin's share is returned separately as `collateral`.
+     */
+    public withdrawCut(cut: ECs): TwoAmmSided<ECs> & { collateral: ECs } {
+        const reserve = this._currentReserve.mul(cut, "floor");
+        const inventory = this.getCurrentInventory().mul(cut, "floor");
+
+        // the inventory (as the reserve it was bought with) that stays is rounded down,
+        // so the tick never holds more of it than is left after the payout
+        const inventoryReserve = this._targetReserve.sub(this._currentReserve);
+        const keptInventoryReserve = inventoryReserve.sub(
+            inventoryReserve.mul(cut, "ceil")
+        );
 
         this._currentReserve.subAssign(reserve);
-        this._targetReserve.mulAssign(ECs.one().sub(cut));
+        this._targetReserve = this._currentReserve.add(keptInventoryReserve);
 
-        const recoveryBinInventory = this._recoveryBin.withdrawCut(cut);
+        const collateral = this._recoveryBin.withdrawCut(cut);
 
-        return { reserve, inventory: inventory.add(recoveryBinInventory) };
+        return { reserve, inventory, collateral };
     }
 
     public getIndex(): number {
@@ -182,8 +266,8 @@ export class CurrentTick {
 
     private putInventoryTick(tick: TakeResult) {
         if (tick.tickIdx !== this._index)
-            panic(
-                `[Curtick ${this.$}] Ticks don't match: old=${this._index}, new=${tick.tickIdx}`
+            throw this.violation(
+                `Ticks don't match: old=${this._index}, new=${tick.tickIdx}`
             );
 
         this._targetReserve = tick.reserveQty.clone();
@@ -192,8 +276,8 @@ export class CurrentTick {
 
     private putReserveTick(tick: TakeResult) {
         if (tick.tickIdx !== this._index) {
-            panic(
-                `[Curtick ${this.$}] Ticks don't match: old=${this._index} new=${tick.tickIdx}`
+            throw this.violation(
+                `Ticks don't match: old=${this._index}, new=${tick.tickIdx}`
             );
         }
 
@@ -201,6 +285,14 @@ export class CurrentTick {
         this._currentReserve = tick.reserveQty.clone();
     }
 
+    private violation(detail: string) {
+        return new InvariantViolationError({
+            component: "CurrentTick",
+            beacon: `${this.$}`,
+            detail,
+        });
+    }
+
     public getRecoveryBin() {
         return this._recoveryBin;
     }
@@ -0,0 +1,257 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs, type Rounding } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+
+// 1e-31, the documented error bound
+const BOUND = ECs.fromString("0.0000000000000000000000000000001");
+
+function assertWithin(actual: ECs, expected: ECs, bound: ECs) {
+    const err = actual.sub(expected).abs();
+
+    assert(
+        err.le(bound),
+        `${actual} differs from ${expected} by ${err}, more than ${bound}`
+    );
+}
+
+Deno.test("ln is within the absolute error bound", () => {
+    const cases: [string, string][] = [
+        ["2", "0.69314718055994530941723212145818"],
+        ["10", "2.30258509299404568401799145468436"],
+        ["0.00000000000000000001", "-46.05170185988091368035982909368728"],
+        ["123456789.123", "18.63140176716431804176395657676367"],
+        ["1", "0"],
+    ];
+
+    for (const [x, ln] of cases) {
+        assertWithin(ECs.fromString(x).ln(), ECs.fromString(ln), BOUND);
+    }
+});
+
+Deno.test("exp is within the relative error bound", () => {
+    const cases: [string, string][] = [
+        ["1", "2.71828182845904523536028747135266"],
+        ["-10", "0.00004539992976248485153559151556"],
+        ["50", "5184705528587072464087.45332293348538482746910058384640"],
+        ["0", "1"],
+    ];
+
+    for (const [x, exp] of cases) {
+        const expected = ECs.fromString(exp);
+        let bound = expected.mul(BOUND, "ceil");
+        if (bound.raw < 1n) bound = new ECs(1n);
+
+        assertWithin(ECs.fromString(x).exp(), expected, bound);
+    }
+});
+
+Deno.test("exp inverts ln", () => {
+    for (const x of ["0.001", "0.5", "3", "1000", "98765.4321"]) {
+        const a = ECs.fromString(x);
+        // ln is off by at most 1e-31, so exp of it is off relatively by about as much
+        const bound = a.mul(BOUND.mul(2), "ceil");
+
+        assertWithin(a.ln().exp(), a, bound);
+    }
+});
+
+Deno.test("log is within the absolute error bound", () => {
+    const ten = ECs.fromString("10");
+    const bound = BOUND.div(ten.ln(), "ceil");
+
+    assertWithin(ECs.fromString("1000").log(ten), ECs.fromString("3"), bound);
+    assertWithin(
+        ECs.fromString("0.0001").log(ten),
+        ECs.fromString("-4"),
+        bound
+    );
+});
+
+Deno.test("ln and log reject the arguments they are not defined for", () => {
+    assertThrows(() => ECs.zero().ln(), InvalidArgumentError);
+    assertThrows(() => ECs.fromString("-1").ln(), InvalidArgumentError);
+    assertThrows(
+        () => ECs.fromString("5").log(ECs.one()),
+        InvalidArgumentError
+    );
+});
+
+Deno.test("fromString parses the exponent within its bound only", () => {
+    assert(ECs.fromString("1.5e-3").eq(ECs.fromString("0.0015")));
+    assert(ECs.fromString("1e100").eq(ECs.fromString("10").pow(100)));
+    assert(ECs.fromString("1e-100").isZero());
+
+    for (const s of ["1e101", "1e-101", "1e1000000", "-2.5E+99999999"]) {
+        assertThrows(() => ECs.fromString(s), InvalidArgumentError);
+    }
+});
+
+/** The raw results of `mul`, `div` and their `*Assign` variants must agree, `expected` is per rounding mode. */
+function assertRounds(
+    op: "mul" | "div",
+    a: ECs,
+    b: ECs | number,
+    expected: Record<Rounding | "none", bigint>
+) {
+    for (const [mode, raw] of Object.entries(expected)) {
+        const rounding = mode === "none" ? undefined : (mode as Rounding);
+        const assigned = a.clone();
+
+        if (op === "mul") {
+            assertEquals(a.mul(b, rounding).raw, raw, `${a} * ${b}, ${mode}`);
+            assigned.mulAssign(b, rounding);
+        } else {
+            assertEquals(a.div(b, rounding).raw, raw, `${a} / ${b}, ${mode}`);
+            assigned.divAssign(b, rounding);
+        }
+
+        assertEquals(assigned.raw, raw, `${op}Assign, ${mode}`);
+    }
+}
+
+Deno.test("mul rounds the ties and the negatives as asked", () => {
+    const half = ECs.half();
+
+    // 1.5 and 2.5 raw units: the ties go to the even neighbour, the truncation - toward zero
+    assertRounds("mul", new ECs(3n), half, {
+        none: 1n,
+        floor: 1n,
+        ceil: 2n,
+        "half-even": 2n,
+    });
+    assertRounds("mul", new ECs(5n), half, {
+        none: 2n,
+        floor: 2n,
+        ceil: 3n,
+        "half-even": 2n,
+    });
+    assertRounds("mul", new ECs(-3n), half, {
+        none: -1n,
+        floor: -2n,
+        ceil: -1n,
+        "half-even": -2n,
+    });
+    assertRounds("mul", new ECs(-5n), half, {
+        none: -2n,
+        floor: -3n,
+        ceil: -2n,
+        "half-even": -2n,
+    });
+
+    // not a tie, 0.3 raw units
+    assertRounds("mul", new ECs(3n), ECs.fromString("0.1"), {
+        none: 0n,
+        floor: 0n,
+        ceil: 1n,
+        "half-even": 0n,
+    });
+    // exact results are not rounded, multiplying by an integer is always exact
+    assertRounds("mul", new ECs(-4n), half, {
+        none: -2n,
+        floor: -2n,
+        ceil: -2n,
+        "half-even": -2n,
+    });
+    assertRounds("mul", new ECs(-7n), 3, {
+        none: -21n,
+        floor: -21n,
+        ceil: -21n,
+        "half-even": -21n,
+    });
+});
+
+Deno.test("div rounds the ties and the negatives as asked", () => {
+    const third = 33333333333333333333333333333333n;
+
+    assertRounds("div", ECs.one(), ECs.fromString("3"), {
+        none: third,
+        floor: third,
+        ceil: third + 1n,
+        "half-even": third,
+    });
+    assertRounds("div", ECs.fromString("2"), ECs.fromString("3"), {
+        none: 2n * third,
+        floor: 2n * third,
+        ceil: 2n * third + 1n,
+        "half-even": 2n * third + 1n,
+    });
+    assertRounds("div", ECs.one().negate(), ECs.fromString("3"), {
+        none: -third,
+        floor: -third - 1n,
+        ceil: -third,
+        "half-even": -third,
+    });
+    // by a negative divisor the quotient is negative too
+    assertRounds("div", ECs.one(), ECs.fromString("-3"), {
+        none: -third,
+        floor: -third - 1n,
+        ceil: -third,
+        "half-even": -third,
+    });
+
+    // ties of the integer division
+    assertRounds("div", new ECs(7n), 2, {
+        none: 3n,
+        floor: 3n,
+        ceil: 4n,
+        "half-even": 4n,
+    });
+    assertRounds("div", new ECs(5n), 2, {
+        none: 2n,
+        floor: 2n,
+        ceil: 3n,
+        "half-even": 2n,
+    });
+    assertRounds("div", new ECs(-7n), 2, {
+        none: -3n,
+        floor: -4n,
+        ceil: -3n,
+        "half-even": -4n,
+    });
+    assertRounds("div", new ECs(-6n), 4, {
+        none: -1n,
+        floor: -2n,
+        ceil: -1n,
+        "half-even": -2n,
+    });
+});
+
+Deno.test(
+    "sqrt is the exact floor of the root on perfect squares and around them",
+    () => {
+        const scale = ECs.one().raw;
+
+        // `k` raw units squared are a perfect square, its root is `k * 1e16` raw units
+        for (const k of [
+            1n,
+            2n,
+            7n,
+            10n ** 8n,
+            10n ** 16n,
+            12345678901234567n,
+            98765432109876543210987n,
+        ]) {
+            const square = k * k;
+            assertEquals(
+                new ECs(square).sqrt().raw,
+                k * 10n ** 16n,
+                `sqrt(${square})`
+            );
+
+            // one raw unit to each side, the root has to stay the floor
+            for (const raw of [square - 1n, square + 1n]) {
+                const root = new ECs(raw).sqrt().raw;
+                const n = raw * scale;
+
+                assert(root * root <= n, `sqrt(${raw}) is too big`);
+                assert(
+                    (root + 1n) * (root + 1n) > n,
+                    `sqrt(${raw}) is too small`
+                );
+            }
+        }
+
+        assertEquals(ECs.zero().sqrt().raw, 0n);
+        assertThrows(() => new ECs(-1n).sqrt(), InvalidArgumentError);
+    }
+);
@@ -1,12 +1,131 @@
-import { type AMMSide, MAX_TICK, MIN_TICK, panic, type Side } from "./utils.ts";
+import { InvalidArgumentError } from "./errors.ts";
 
 // e32s for maximum precision
 const DECIMALS = 32;
+/** The largest exponent `fromString` accepts, either way - a bigger one would build a huge bigint for nothing. */
+const MAX_EXPONENT = 100;
 const base: bigint = 1_0000_0000_0000_0000_0000_0000_0000_0000n;
 
 const numBasePowM4: number = 1_0000_0000;
 const bBasePowM4: bigint = 1_0000_0000n;
 
+/**
+ * How the result of `mul`/`div` is rounded when it doesn't fit into e32s.
+ * When omitted, the result is truncated toward zero.
+ */
+export type Rounding = "floor" | "ceil" | "half-even";
+
+function divRound(n: bigint, d: bigint, rounding?: Rounding): bigint {
+    const q = n / d;
+    const r = n % d;
+
+    if (rounding === undefined || r === 0n) return q;
+
+    // the exact quotient lies between q and q + sign
+    const sign = n < 0n !== d < 0n ? -1n : 1n;
+
+    switch (rounding) {
+        case "floor":
+            return sign === -1n ? q - 1n : q;
+        case "ceil":
+            return sign === 1n ? q + 1n : q;
+        case "half-even": {
+            const r2 = (r < 0n ? -r : r) * 2n;
+            const dAbs = d < 0n ? -d : d;
+
+            if (r2 < dAbs) return q;
+            if (r2 > dAbs) return q + sign;
+
+            return q % 2n === 0n ? q : q + sign;
+        }
+    }
+}
+
+// transcendental functions are evaluated with 8 guard digits and then rounded to e32s
+const wideBase: bigint = base * 1_0000_0000n;
+
+function bitLength(n: bigint): number {
+    return n.toString(2).length;
+}
+
+// 2 * atanh(z) = z + z^3/3 + z^5/5 + ..., all values are wide
+function atanhSeries2(z: bigint): bigint {
+    const z2 = (z * z) / wideBase;
+
+    let term = z;
+    let sum = z;
+
+    for (let n = 3n; ; n += 2n) {
+        term = (term * z2) / wideBase;
+        if (term === 0n) break;
+
+        sum += term / n;
+    }
+
+    return sum * 2n;
+}
+
+// ln(2) = 2 * atanh(1/3)
+const LN_2_WIDE: bigint = atanhSeries2(wideBase / 3n);
+
+function lnWide(x: bigint): bigint {
+    if (x <= 0n)
+        throw new InvalidArgumentError({
+            argument: "x",
+            detail: "the logarithm is only defined for positive numbers",
+        });
+
+    // x = m * 2^k, where m is in [1, 2)
+    let k = bitLength(x) - bitLength(wideBase);
+    let m = k >= 0 ? x >> BigInt(k) : x << BigInt(-k);
+
+    if (m < wideBase) {
+        k -= 1;
+        m = k >= 0 ? x >> BigInt(k) : x << BigInt(-k);
+    }
+
+    // ln(m) = 2 * atanh((m - 1) / (m + 1)), the argument is in [0, 1/3)
+    const z = ((m - wideBase) * wideBase) / (m + wideBase);
+
+    return BigInt(k) * LN_2_WIDE + atanhSeries2(z);
+}
+
+function expWide(x: bigint): bigint {
+    // x = k * ln(2) + r, where |r| <= ln(2) / 2
+    const k = divRound(x, LN_2_WIDE, "half-even");
+    const r = x - k * LN_2_WIDE;
+
+    let term = wideBase;
+    let sum = wideBase;
+
+    for (let n = 1n; ; n += 1n) {
+        term = (term * r) / wideBase / n;
+        if (term === 0n) break;
+
+        sum += term;
+    }
+
+    return k >= 0n ? sum << k : sum >> -k;
+}
+
+function nativeScale(decimals: number): bigint {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > DECIMALS)
+        throw new InvalidArgumentError({
+            argument: "decimals",
+            detail: `native decimals should be an integer in [0, ${DECIMALS}]`,
+        });
+
+    return 10n ** BigInt(DECIMALS - decimals);
+}
+
+function toWide(val: bigint): bigint {
+    return val * (wideBase / base);
+}
+
+function fromWide(val: bigint): bigint {
+    return divRound(val, wideBase / base, "half-even");
+}
+
 export class ECs {
     constructor(private _val: bigint) {}
 
@@ -14,16 +133,55 @@ export class ECs {
         return new ECs(this._val);
     }
 
+    /**
+     * Parses strings like `123.456`, `-0.5`, `1_000.25` or `1.5e-3`.
+     * Digits past the 32nd decimal are truncated, the exponent is limited to `MAX_EXPONENT`.
+     */
     public static fromString(s: string): ECs {
-        const parts = s.split(".");
-        if (parts.length > 2) panic("Expecting a string in format '123.456'");
+        const m = s
+            .replaceAll("_", "")
+            .trim()
+            .match(/^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/);
+
+        if (!m || (m[2] === "" && !m[3]))
+            throw new InvalidArgumentError({
+                argument: "s",
+                detail: `expecting a string in format '-123.456e7', got '${s}'`,
+            });
+
+        const [, sign, whole, fraction = "", exp = "0"] = m;
+
+        if (Math.abs(Number(exp)) > MAX_EXPONENT)
+            throw new InvalidArgumentError({
+                argument: "s",
+                detail: `the exponent should be within ±${MAX_EXPONENT}, got '${s}'`,
+            });
 
-        const whole = BigInt(parts[0].replaceAll("_", ""));
-        const fraction = parts[1]
-            ? BigInt(parts[1].replaceAll("_", "").padEnd(DECIMALS, "0"))
-            : 0n;
+        // the decimal point is moved by the exponent, then the digits are scaled to e32s
+        const digits = BigInt(whole + fraction || "0");
+        const scale = DECIMALS - fraction.length + Number(exp);
+
+        const val =
+            scale >= 0
+                ? digits * 10n ** BigInt(scale)
+                : digits / 10n ** BigInt(-scale);
+
+        return new ECs(sign === "-" ? -val : val);
+    }
+
+    /**
+     * Converts an integer amount of native units (e.g. e8s) into ECs, losslessly.
+     */
+    public static fromNative(units: bigint, decimals: number): ECs {
+        return new ECs(units * nativeScale(decimals));
+    }
 
-        return new ECs(whole * base + (whole >= 0n ? fraction : -fraction));
+    /**
+     * Converts into an integer amount of native units (e.g. e8s).
+     * Lossless, unless there is dust below the smallest native unit - that is rounded away.
+     */
+    public toNative(decimals: number, rounding: Rounding = "floor"): bigint {
+        return divRound(this._val, nativeScale(decimals), rounding);
     }
 
     public toString(decimals: number = DECIMALS) {
@@ -105,41 +263,41 @@ export class ECs {
         return new ECs(a._val - b._val);
     }
 
-    public mul(other: ECs | number): ECs {
-        return ECs._mul(this, other);
+    public mul(other: ECs | number, rounding?: Rounding): ECs {
+        return ECs._mul(this, other, rounding);
     }
 
-    public mulAssign(other: ECs | number) {
+    public mulAssign(other: ECs | number, rounding?: Rounding) {
         this._val =
             typeof other === "number"
                 ? this._val * BigInt(other)
-                : (this._val * other._val) / base;
+                : divRound(this._val * other._val, base, rounding);
     }
 
-    public static _mul(a: ECs, b: ECs | number): ECs {
+    public static _mul(a: ECs, b: ECs | number, rounding?: Rounding): ECs {
         return new ECs(
             typeof b === "number"
                 ? a._val * BigInt(b)
-                : (a._val * b._val) / base
+                : divRound(a._val * b._val, base, rounding)
         );
     }
 
-    public div(other: ECs | number): ECs {
-        return ECs._div(this, other);
+    public div(other: ECs | number, rounding?: Rounding): ECs {
+        return ECs._div(this, other, rounding);
     }
 
-    public divAssign(other: ECs | number) {
+    public divAssign(other: ECs | number, rounding?: Rounding) {
         this._val =
             typeof other === "number"
-                ? this._val / BigInt(other)
-                : (this._val * base) / other._val;
+                ? divRound(this._val, BigInt(other), rounding)
+                : divRound(this._val * base, other._val, rounding);
     }
 
-    public static _div(a: ECs, b: ECs | number): ECs {
+    public static _div(a: ECs, b: ECs | number, rounding?: Rounding): ECs {
         return new ECs(
             typeof b === "number"
-                ? a._val / BigInt(b)
-                : (a._val * base) / b._val
+                ? divRound(a._val, BigInt(b), rounding)
+                : divRound(a._val * base, b._val, rounding)
         );
     }
 
@@ -183,35 +341,70 @@ export class ECs {
         return ECs._sqrt(this);
     }
 
+    /**
+     * Newton's method over raw units, returns the exact floor of the root.
+     */
     public static _sqrt(a: ECs): ECs {
-        const one = ECs.one();
-        if (a.eq(one)) return a;
-
-        let low = ECs.zero();
-        let high = a;
-        if (a.lt(one)) {
-            low = a;
-            high = one;
-        }
+        if (a.isNegative())
+            throw new InvalidArgumentError({
+                argument: "a",
+                detail: "the square root is only defined for non-negative numbers",
+            });
 
-        const eps = new ECs(1n);
-        let dif = high.sub(low);
+        const n = a._val * base;
+        if (n === 0n) return ECs.zero();
 
-        while (dif.gt(eps)) {
-            const mid = high.add(low).div(ECs.two());
-            const mid2 = mid.pow2();
+        // the initial guess is always above the root, so the sequence decreases monotonically
+        let x = 1n << BigInt(Math.ceil(bitLength(n) / 2));
 
-            if (mid2.eq(a)) return mid;
-            else if (mid2.gt(a)) {
-                high = mid;
-            } else {
-                low = mid;
-            }
+        while (true) {
+            const y = (x + n / x) >> 1n;
+            if (y >= x) return new ECs(x);
 
-            dif = high.sub(low);
+            x = y;
         }
+    }
+
+    public ln(): ECs {
+        return ECs._ln(this);
+    }
+
+    /**
+     * Natural logarithm. The absolute error is below 1e-31.
+     */
+    public static _ln(a: ECs): ECs {
+        return new ECs(fromWide(lnWide(toWide(a._val))));
+    }
+
+    public exp(): ECs {
+        return ECs._exp(this);
+    }
+
+    /**
+     * Natural exponent. The relative error is below 1e-31 (or one raw unit, whichever is bigger).
+     */
+    public static _exp(a: ECs): ECs {
+        return new ECs(fromWide(expWide(toWide(a._val))));
+    }
 
-        return low;
+    public log(logBase: ECs): ECs {
+        return ECs._log(this, logBase);
+    }
+
+    /**
+     * Logarithm of `a` in base `b`. The absolute error is below `1e-31 / |ln(b)|`.
+     */
+    public static _log(a: ECs, b: ECs): ECs {
+        const lnB = lnWide(toWide(b._val));
+        if (lnB === 0n)
+            throw new InvalidArgumentError({
+                argument: "b",
+                detail: "the logarithm base can't be 1",
+            });
+
+        return new ECs(
+            fromWide(divRound(lnWide(toWide(a._val)) * wideBase, lnB))
+        );
     }
 
     public pow(exp: number | bigint): ECs {
@@ -353,45 +546,3 @@ export class ECs {
         return this._val;
     }
 }
-
-/** The base price used for calculating tick prices. */
-export const BASE_PRICE = ECs.fromString("1.0001");
-
-export function basePriceAbsoluteToTick(price: ECs): number {
-    if (price.isNegative()) panic("The price can't be negative");
-
-    if (price.eq(ECs.one())) return 0;
-
-    let left = price.lt(ECs.one()) ? MIN_TICK : 1,
-        right = price.lt(ECs.one()) ? -1 : MAX_TICK;
-
-    while (true) {
-        const mid = Math.floor((left + right) / 2);
-
-        const t = BASE_PRICE.pow(mid);
-
-        if (t.eq(price)) return mid;
-        if (Math.abs(right - left) <= 1) return mid;
-        if (t.gt(price)) {
-            right = mid;
-        } else {
-            left = mid;
-        }
-    }
-}
-
-export function absoluteTickToPrice(
-    absoluteTick: number,
-    side: Side,
-    ammSide: AMMSide
-): ECs {
-    if (side === "base") {
-        return ammSide === "reserve"
-            ? BASE_PRICE.pow(absoluteTick)
-            : ECs.one().div(BASE_PRICE.pow(absoluteTick));
-    } else {
-        return ammSide === "reserve"
-            ? ECs.one().div(BASE_PRICE.pow(absoluteTick))
-            : BASE_PRICE.pow(absoluteTick);
-    }
-}
@@ -0,0 +1,151 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import {
+    InsufficientLiquidityError,
+    InvalidArgumentError,
+    InvariantViolationError,
+    isRecoverable,
+    PriceImpactExceededError,
+    SlippageExceededError,
+} from "./errors.ts";
+import { TickMath } from "./tick-math.ts";
+import { makePool } from "./test-utils.ts";
+
+Deno.test("only the market conditions are recoverable", () => {
+    const qty = ECs.one();
+
+    assert(
+        isRecoverable(
+            new InsufficientLiquidityError({ requested: qty, available: qty })
+        )
+    );
+    assert(
+        isRecoverable(
+            new SlippageExceededError({
+                limit: "minQtyOut",
+                expected: qty,
+                actual: qty,
+            })
+        )
+    );
+    assert(
+        isRecoverable(
+            new PriceImpactExceededError({
+                direction: "base -> quote",
+                maxTicks: 1,
+                ticks: 2,
+            })
+        )
+    );
+
+    assert(
+        !isRecoverable(
+            new InvariantViolationError({ component: "Pool", detail: "" })
+        )
+    );
+    assert(
+        !isRecoverable(new InvalidArgumentError({ argument: "a", detail: "" }))
+    );
+    assert(!isRecoverable(new Error("")));
+});
+
+Deno.test("the errors carry their codes and names", () => {
+    const e = new PriceImpactExceededError({
+        direction: "quote -> base",
+        maxTicks: 10,
+        ticks: 12,
+    });
+
+    assertEquals(e.code, "PRICE_IMPACT_EXCEEDED");
+    assertEquals(e.name, "PriceImpactExceededError");
+    assertEquals(e.payload.ticks, 12);
+    assert(e instanceof Error);
+});
+
+Deno.test(
+    "every failed swap throws its own error and leaves the pool untouched",
+    () => {
+        const pool = makePool(undefined, new TickMath({ maxTick: 120000 }));
+        const tick = pool.curAbsoluteTick;
+        const reserve = pool.overallReserve;
+        const qtyIn = ECs.fromString("3");
+        const direction = "base -> quote";
+
+        const impact = pool.quote({ qtyIn, direction }).ticksCrossed;
+        assert(impact > 1);
+
+        assertThrows(
+            () => pool.swap({ qtyIn, direction, maxImpactTicks: impact - 1 }),
+            PriceImpactExceededError
+        );
+        assertThrows(
+            () =>
+                pool.swap({
+                    qtyIn,
+                    direction,
+                    minQtyOut: ECs.fromString("1e9"),
+                }),
+            SlippageExceededError
+        );
+        assertThrows(
+            () =>
+                pool.swapExactOut({
+                    qtyOut: ECs.fromString("100"),
+                    direction: "quote -> base",
+                    maxQtyIn: ECs.one(),
+                }),
+            SlippageExceededError
+        );
+        assertThrows(
+            () =>
+                pool.swapExactOut({
+                    qtyOut: ECs.fromString("1000"),
+                    direction: "quote -> base",
+                }),
+            InsufficientLiquidityError
+        );
+
+        assertEquals(pool.curAbsoluteTick, tick);
+        assert(pool.overallReserve.base.eq(reserve.base));
+        assert(pool.overallReserve.quote.eq(reserve.quote));
+
+        // within the limit the swap goes through
+        pool.swap({ qtyIn, direction, maxImpactTicks: impact });
+        assert(pool.curAbsoluteTick < tick);
+    }
+);
+
+Deno.test("the price impact limit counts the ticks the swap really moves", () => {
+    const pool = makePool();
+    const tick = pool.curAbsoluteTick;
+    pool.placeOrder("base", tick + 1, ECs.fromString("5"));
+
+    // the ask fills most of the buy, so the price stops right at it
+    const args = {
+        qtyIn: ECs.fromString("400_000"),
+        direction: "quote -> base" as const,
+    };
+    assertEquals(pool.quote(args).postTradeTick, tick + 1);
+
+    assertThrows(
+        () => pool.swap({ ...args, maxImpactTicks: 0 }),
+        PriceImpactExceededError
+    );
+    assertEquals(pool.curAbsoluteTick, tick);
+
+    pool.swap({ ...args, maxImpactTicks: 1 });
+    assertEquals(pool.curAbsoluteTick, tick + 1);
+});
+
+Deno.test("arguments that make no sense are rejected", () => {
+    const pool = makePool();
+    assertEquals(pool.positions().length, 2);
+
+    assertThrows(() => ECs.fromString("1.2.3"), InvalidArgumentError);
+    assertThrows(() => pool.deposit("base", ECs.zero()), InvalidArgumentError);
+    assertThrows(
+        () => pool.withdraw(pool.positions()[0], ECs.fromString("2")),
+        InvalidArgumentError
+    );
+    assertThrows(() => pool.cancelOrder(42), InvalidArgumentError);
+});
@@ -0,0 +1,165 @@
+import { type ECs } from "./ecs.ts";
+import { type SwapDirection } from "./utils.ts";
+
+/**
+ * Machine-readable codes of all errors thrown by the logic layer.
+ */
+export type DriftyErrorCode =
+    | "INVALID_ARGUMENT"
+    | "INVARIANT_VIOLATION"
+    | "INSUFFICIENT_LIQUIDITY"
+    | "SLIPPAGE_EXCEEDED"
+    | "PRICE_IMPACT_EXCEEDED";
+
+/**
+ * The base of all errors thrown by the logic layer.
+ * `code` tells what happened, `payload` carries the details.
+ */
+export abstract class DriftyError<
+    C extends DriftyErrorCode = DriftyErrorCode,
+    P = unknown
+> extends Error {
+    constructor(
+        public readonly code: C,
+        public readonly payload: P,
+        message: string
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export type InvalidArgumentPayload = {
+    argument: string;
+    detail: string;
+};
+
+/**
+ * The caller passed something that makes no sense, e.g. an unparsable number.
+ */
+export class InvalidArgumentError extends DriftyError<
+    "INVALID_ARGUMENT",
+    InvalidArgumentPayload
+> {
+    constructor(payload: InvalidArgumentPayload) {
+        super(
+            "INVALID_ARGUMENT",
+            payload,
+            `Invalid ${payload.argument}: ${payload.detail}`
+        );
+    }
+}
+
+export type InvariantViolationPayload = {
+    /** The class that detected the violation, e.g. `Range`. */
+    component: string;
+    /** The beacon of the component, if it has one. */
+    beacon?: string;
+    detail: string;
+};
+
+/**
+ * The internal state went wrong. This is always a bug and should never be recovered from.
+ */
+export class InvariantViolationError extends DriftyError<
+    "INVARIANT_VIOLATION",
+    InvariantViolationPayload
+> {
+    constructor(payload: InvariantViolationPayload) {
+        super(
+            "INVARIANT_VIOLATION",
+            payload,
+            `[${payload.component}${
+                payload.beacon === undefined ? "" : " " + payload.beacon
+            }] ${payload.detail}`
+        );
+    }
+}
+
+export type InsufficientLiquidityPayload = {
+    requested: ECs;
+    available: ECs;
+};
+
+/**
+ * There is not enough liquidity to fulfill the request. Both amounts are in the same asset.
+ * The pool state is left untouched (a swap that runs out of liquidity fills partially instead, see `Pool.swap`).
+ */
+export class InsufficientLiquidityError extends DriftyError<
+    "INSUFFICIENT_LIQUIDITY",
+    InsufficientLiquidityPayload
+> {
+    constructor(payload: InsufficientLiquidityPayload) {
+        super(
+            "INSUFFICIENT_LIQUIDITY",
+            payload,
+            `Insufficient liquidity: requested=${payload.requested}, available=${payload.available}`
+        );
+    }
+}
+
+export type SlippageExceededPayload = {
+    /** Which of the swap limits was hit. */
+    limit: "maxQtyIn" | "minQtyOut";
+    /** The limit set by the trader. */
+    expected: ECs;
+    /** What the swap would actually take or give. */
+    actual: ECs;
+};
+
+/**
+ * The swap would be worse for the trader than the limits they set. The pool state is left untouched.
+ */
+export class SlippageExceededError extends DriftyError<
+    "SLIPPAGE_EXCEEDED",
+    SlippageExceededPayload
+> {
+    constructor(payload: SlippageExceededPayload) {
+        super(
+            "SLIPPAGE_EXCEEDED",
+            payload,
+            `Slippage exceeded: ${payload.limit}=${payload.expected}, actual=${payload.actual}`
+        );
+    }
+}
+
+export type PriceImpactExceededPayload = {
+    direction: SwapDirection;
+    /** The limit set by the trader, in absolute ticks. */
+    maxTicks: number;
+    /** How far the swap would move the price, in absolute ticks. */
+    ticks: number;
+};
+
+/**
+ * The swap would move the price further than the trader allowed. The pool state is left untouched.
+ */
+export class PriceImpactExceededError extends DriftyError<
+    "PRICE_IMPACT_EXCEEDED",
+    PriceImpactExceededPayload
+> {
+    constructor(payload: PriceImpactExceededPayload) {
+        super(
+            "PRICE_IMPACT_EXCEEDED",
+            payload,
+            `Too big price impact: ${payload.direction} moves ${payload.ticks} ticks, maxTicks=${payload.maxTicks}`
+        );
+    }
+}
+
+/**
+ * Whether the error describes an expected market condition (so the caller may retry with other arguments),
+ * rather than a bug. The pool state is left untouched by these.
+ */
+export function isRecoverable(
+    e: unknown
+): e is
+    | InsufficientLiquidityError
+    | SlippageExceededError
+    | PriceImpactExceededError {
+    return (
+        e instanceof InsufficientLiquidityError ||
+        e instanceof SlippageExceededError ||
+        e instanceof PriceImpactExceededError
+    );
+}
@@ -0,0 +1,119 @@
+import { assert, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { FeeDecay, type FeeDecayParams } from "./fee-decay.ts";
+import { SimulatedClock } from "./clock.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { makePool } from "./test-utils.ts";
+
+const PARAMS: FeeDecayParams = {
+    halfLife: 3600,
+    floor: ECs.fromString("0.0005"),
+    recoveryVolume: ECs.fromString("100_000"),
+};
+
+function assertAbout(actual: ECs, expected: string) {
+    const e = ECs.fromString(expected);
+
+    assert(
+        actual.sub(e).abs().le(ECs.fromString("0.000000000001")),
+        `${actual} != ${expected}`
+    );
+}
+
+Deno.test("the multiplier halves every half-life since the last swap", () => {
+    const decay = new FeeDecay(PARAMS);
+    decay.onSwap(1000, ECs.zero());
+
+    assertAbout(decay.multiplier(1000), "1");
+    assertAbout(decay.multiplier(1000 + 3600), "0.5");
+    assertAbout(decay.multiplier(1000 + 7200), "0.25");
+    assertAbout(decay.multiplier(1000 + 1800), Math.SQRT1_2.toFixed(12));
+
+    assertThrows(
+        () => new FeeDecay({ ...PARAMS, halfLife: 0 }),
+        InvalidArgumentError
+    );
+});
+
+Deno.test("the decayed fee never goes below the floor", () => {
+    const decay = new FeeDecay(PARAMS);
+    decay.onSwap(0, ECs.zero());
+
+    assertAbout(decay.apply(ECs.fromString("0.003"), 3600), "0.0015");
+    assert(decay.apply(ECs.fromString("0.003"), 36000).eq(PARAMS.floor));
+
+    // a fee already below the floor is kept as is
+    assert(
+        decay
+            .apply(ECs.fromString("0.0001"), 36000)
+            .eq(ECs.fromString("0.0001"))
+    );
+});
+
+Deno.test("the fees recover as the volume returns", () => {
+    const decay = new FeeDecay(PARAMS);
+    decay.onSwap(0, ECs.zero());
+
+    decay.onSwap(7200, ECs.fromString("25_000"));
+    assertAbout(decay.multiplier(7200), "0.5");
+
+    decay.onSwap(7200, ECs.fromString("25_000"));
+    assertAbout(decay.multiplier(7200), "0.75");
+
+    decay.onSwap(7200, ECs.fromString("100_000"));
+    assert(decay.multiplier(7200).eq(ECs.one()));
+});
+
+Deno.test("swaps report the decay they were charged with", () => {
+    const clock = new SimulatedClock();
+    const pool = makePool({ clock, feeDecay: PARAMS });
+    const swap = () =>
+        pool.swap({
+            qtyIn: ECs.fromString("0.01"),
+            direction: "base -> quote",
+        });
+
+    const first = swap();
+    assert(first.feeDecay.eq(ECs.one()));
+
+    clock.advance(3600);
+    const second = swap();
+    assertAbout(second.feeDecay, "0.5");
+    assert(second.feeFactor.lt(first.feeFactor));
+
+    // and the decay can be turned off and on again, undecayed
+    pool.setFeeDecay();
+    clock.advance(3600);
+    assert(swap().feeDecay.eq(ECs.one()));
+
+    pool.setFeeDecay(PARAMS);
+    assert(pool.feeDecay.eq(ECs.one()));
+    assert(
+        pool.clone(true, clock, { feeDecay: null }).feeDecayParams === undefined
+    );
+});
+
+Deno.test("an exact-out swap is priced at a single moment", () => {
+    // every read of the clock moves it, so a swap that reads it twice sees two different decays
+    class TickingClock extends SimulatedClock {
+        public override now() {
+            const now = super.now();
+            this.advance(600);
+            return now;
+        }
+    }
+
+    const clock = new TickingClock();
+    const pool = makePool({ clock, feeDecay: PARAMS });
+    pool.swap({ qtyIn: ECs.fromString("0.01"), direction: "base -> quote" });
+
+    const at = clock.now() + 600;
+    const feeFactor = pool.getFeeFactor("quote -> base", at);
+    const res = pool.swapExactOut({
+        qtyOut: ECs.fromString("1"),
+        direction: "quote -> base",
+    });
+
+    assert(res.timestamp === at);
+    assert(res.feeFactor.eq(feeFactor));
+});
@@ -0,0 +1,122 @@
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { type Timestamp } from "./clock.ts";
+
+export type FeeDecayParams = {
+    /** Seconds of inactivity, after which the fees are halved. */
+    halfLife: number;
+    /** The fee factor never decays below this one (but a lower undecayed fee is kept as is). */
+    floor: ECs;
+    /** Quote volume, that brings fully decayed fees back to normal. */
+    recoveryVolume: ECs;
+};
+
+/**
+ * `FeeDecay` as plain data, see `Pool.toState`. The ECs are kept in raw units.
+ */
+export type FeeDecayState = {
+    halfLife: number;
+    floor: string;
+    recoveryVolume: string;
+    multiplier: string;
+    lastSwapAt?: Timestamp;
+};
+
+/**
+ * Lowers the fees while nobody trades (risk analysis, 2A), so the pool doesn't get stuck in
+ * "high fee -> no volume -> no recovery".
+ *
+ * The multiplier halves every `halfLife` seconds since the last swap, and every swap brings it back
+ * up in proportion to its volume, so the fees recover as the volume returns, not all at once.
+ */
+export class FeeDecay {
+    private _multiplier = ECs.one();
+    private _lastSwapAt: Timestamp | undefined = undefined;
+
+    constructor(private _params: FeeDecayParams) {
+        if (!(_params.halfLife > 0))
+            throw new InvalidArgumentError({
+                argument: "halfLife",
+                detail: `the half-life should be positive: ${_params.halfLife}`,
+            });
+
+        if (!_params.recoveryVolume.isPositive())
+            throw new InvalidArgumentError({
+                argument: "recoveryVolume",
+                detail: `the recovery volume should be positive: ${_params.recoveryVolume}`,
+            });
+    }
+
+    public clone(): FeeDecay {
+        const d = new FeeDecay(this._params);
+
+        d._multiplier = this._multiplier.clone();
+        d._lastSwapAt = this._lastSwapAt;
+
+        return d;
+    }
+
+    public static fromState(state: FeeDecayState): FeeDecay {
+        const d = new FeeDecay({
+            halfLife: state.halfLife,
+            floor: new ECs(BigInt(state.floor)),
+            recoveryVolume: new ECs(BigInt(state.recoveryVolume)),
+        });
+
+        d._multiplier = new ECs(BigInt(state.multiplier));
+        d._lastSwapAt = state.lastSwapAt;
+
+        return d;
+    }
+
+    public toState(): FeeDecayState {
+        return {
+            halfLife: this._params.halfLife,
+            floor: this._params.floor.raw.toString(),
+            recoveryVolume: this._params.recoveryVolume.raw.toString(),
+            multiplier: this._multiplier.raw.toString(),
+            lastSwapAt: this._lastSwapAt,
+        };
+    }
+
+    /**
+     * The share of the undecayed fee that is charged at `now`, from 0 to 1.
+     */
+    public multiplier(now: Timestamp): ECs {
+        if (this._lastSwapAt === undefined || now <= this._lastSwapAt)
+            return this._multiplier.clone();
+
+        const halvings = ECs.fromString(
+            ((now - this._lastSwapAt) / this._params.halfLife).toFixed(8)
+        );
+
+        // 0.5 ^ halvings
+        return this._multiplier.mul(
+            halvings.mul(ECs.half().ln()).exp(),
+            "floor"
+        );
+    }
+
+    public apply(feeFactor: ECs, now: Timestamp): ECs {
+        if (feeFactor.le(this._params.floor)) return feeFactor;
+
+        const decayed = feeFactor.mul(this.multiplier(now));
+
+        return decayed.lt(this._params.floor)
+            ? this._params.floor.clone()
+            : decayed;
+    }
+
+    public onSwap(now: Timestamp, quoteVolume: ECs) {
+        const m = this.multiplier(now).add(
+            quoteVolume.div(this._params.recoveryVolume)
+        );
+
+        this._multiplier = m.gt(ECs.one()) ? ECs.one() : m;
+        this._lastSwapAt = now;
+    }
+
+    public get params(): FeeDecayParams {
+        return this._params;
+    }
+}
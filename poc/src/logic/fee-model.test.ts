@@ -0,0 +1,133 @@
+import { assert, assertEquals } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { TickMath } from "./tick-math.ts";
+import {
+    DEFAULT_MAX_FEES,
+    DEFAULT_MIN_FEES,
+    DefaultFeeModel,
+    FEE_TIERS,
+    type FeeContext,
+    type FeeModel,
+    FlatTierFeeModel,
+    ILOnlyFeeModel,
+    type RecentSwap,
+    VolatilityFeeModel,
+} from "./fee-model.ts";
+import { makePool } from "./test-utils.ts";
+
+function ctx(args: {
+    il?: string;
+    width?: string;
+    ticks?: number[];
+}): FeeContext {
+    const il = ECs.fromString(args.il ?? "0");
+    const width = ECs.fromString(args.width ?? "0");
+    const recentSwaps: RecentSwap[] = (args.ticks ?? []).map((tick, i) => ({
+        direction: "base -> quote",
+        quoteVolume: ECs.fromString("1000"),
+        tick,
+        timestamp: i,
+    }));
+
+    return {
+        il: { base: il, quote: il.clone() },
+        reserveWidth: { base: width, quote: width.clone() },
+        recentSwaps,
+        curTick: recentSwaps[recentSwaps.length - 1]?.tick ?? 0,
+        tickMath: new TickMath(),
+        now: recentSwaps.length,
+    };
+}
+
+Deno.test("the default model averages the IL and the width fees", () => {
+    const m = new DefaultFeeModel();
+    const max = DEFAULT_MIN_FEES.add(DEFAULT_MAX_FEES);
+
+    assert(m.feeFactor(ctx({})).eq(DEFAULT_MIN_FEES));
+    // both parts are capped, at 50% IL and at 100% (of the 4 times summed up) width
+    assert(m.feeFactor(ctx({ il: "0.5", width: "2" })).eq(max));
+    assert(m.feeFactor(ctx({ il: "0.9", width: "10" })).eq(max));
+    assert(
+        m
+            .feeFactor(ctx({ il: "0.25", width: "0" }))
+            .eq(DEFAULT_MIN_FEES.add(DEFAULT_MAX_FEES.div(4)))
+    );
+});
+
+Deno.test("the IL-only model ignores the width", () => {
+    const m = new ILOnlyFeeModel({
+        minFees: ECs.fromString("0.001"),
+        maxFees: ECs.fromString("0.02"),
+    });
+
+    assert(m.feeFactor(ctx({ width: "1" })).eq(ECs.fromString("0.001")));
+    assert(m.feeFactor(ctx({ il: "0.25" })).eq(ECs.fromString("0.011")));
+    assert(m.feeFactor(ctx({ il: "0.75" })).eq(ECs.fromString("0.021")));
+});
+
+Deno.test("the flat tier model ignores everything", () => {
+    const m = new FlatTierFeeModel("medium");
+
+    assertEquals(m.tier, "medium");
+    assert(m.feeFactor(ctx({})).eq(FEE_TIERS.medium));
+    assert(m.feeFactor(ctx({ il: "0.5", width: "3" })).eq(FEE_TIERS.medium));
+});
+
+Deno.test(
+    "the volatility model grows with the spread of the price moves",
+    () => {
+        const m = new VolatilityFeeModel();
+        const tm = new TickMath();
+
+        assert(m.feeFactor(ctx({ ticks: [100] })).eq(DEFAULT_MIN_FEES));
+        // a steady trend is not volatile
+        assert(
+            m.feeFactor(ctx({ ticks: [0, 10, 20, 30] })).eq(DEFAULT_MIN_FEES)
+        );
+
+        // the moves are +-100 ticks
+        const volatile = m.feeFactor(ctx({ ticks: [0, 100, 0, 100, 0] }));
+        assert(
+            volatile.eq(
+                DEFAULT_MIN_FEES.add(
+                    tm.basePrice.pow(100).sub(ECs.one()).mul(ECs.half())
+                )
+            )
+        );
+
+        assert(
+            m.feeFactor(ctx({ ticks: [0, 5000, 0, 5000] })).eq(DEFAULT_MAX_FEES)
+        );
+    }
+);
+
+Deno.test("the pool asks its fee model with the pool's context", () => {
+    const contexts: FeeContext[] = [];
+    const model: FeeModel = {
+        feeFactor(ctx) {
+            contexts.push({ ...ctx, recentSwaps: [...ctx.recentSwaps] });
+            return FEE_TIERS.high.clone();
+        },
+    };
+    const pool = makePool({ feeModel: model });
+    const qtyIn = ECs.fromString("1");
+
+    const res = pool.swap({ qtyIn, direction: "base -> quote" });
+
+    assert(res.feeFactor.eq(FEE_TIERS.high));
+    assert(
+        res.feesIn
+            .sub(qtyIn.mul(FEE_TIERS.high))
+            .abs()
+            .lt(ECs.fromString("1e-30"))
+    );
+    assertEquals(contexts[0].direction, "base -> quote");
+    assertEquals(pool.feeModel, model);
+
+    pool.swap({ qtyIn, direction: "quote -> base" });
+    const last = contexts[contexts.length - 1];
+    assertEquals(last.direction, "quote -> base");
+    assertEquals(last.recentSwaps.length, 1);
+    assertEquals(last.recentSwaps[0].direction, "base -> quote");
+    assertEquals(last.curTick, pool.curAbsoluteTick);
+});
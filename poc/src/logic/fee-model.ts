@@ -0,0 +1,171 @@
+import { ECs } from "./ecs.ts";
+import { type TickMath } from "./tick-math.ts";
+import { type Timestamp } from "./clock.ts";
+import { type SwapDirection, type TwoSided } from "./utils.ts";
+
+export const DEFAULT_MIN_FEES = ECs.fromString("0.0001");
+export const DEFAULT_MAX_FEES = ECs.fromString("0.1");
+
+/**
+ * One of the latest swaps of the pool.
+ */
+export type RecentSwap = {
+    direction: SwapDirection;
+    /** The quote side of the swap (what was paid or received in the quote asset). */
+    quoteVolume: ECs;
+    /** The current tick right after the swap. */
+    tick: number;
+    timestamp: Timestamp;
+};
+
+/**
+ * Everything a fee model may base the fees on.
+ */
+export type FeeContext = {
+    /** The direction of the swap being priced, `undefined` when no particular swap is (e.g. for displaying). */
+    direction?: SwapDirection;
+    /** IL of both sides, from 0 to 1. */
+    il: TwoSided<ECs>;
+    /** How far the drifting reserves stretch, as `price ratio - 1` between their ends. */
+    reserveWidth: TwoSided<ECs>;
+    /** The latest swaps, the oldest first. */
+    recentSwaps: readonly RecentSwap[];
+    curTick: number;
+    tickMath: TickMath;
+    now: Timestamp;
+};
+
+/**
+ * Decides what share of the swap input is taken as fees.
+ */
+export interface FeeModel {
+    feeFactor(ctx: FeeContext): ECs;
+}
+
+export type FeeBoundsArgs = {
+    minFees?: ECs;
+    maxFees?: ECs;
+};
+
+/**
+ * The original formula: the average of an IL-driven and a reserve-width-driven fee.
+ * The IL part grows linearly up to `maxFees` at 50% IL, the width part - up to `maxFees` at 100% width.
+ */
+export class DefaultFeeModel implements FeeModel {
+    private _minFees: ECs;
+    private _maxFees: ECs;
+
+    constructor(args?: FeeBoundsArgs) {
+        this._minFees = args?.minFees?.clone() ?? DEFAULT_MIN_FEES.clone();
+        this._maxFees = args?.maxFees?.clone() ?? DEFAULT_MAX_FEES.clone();
+    }
+
+    public feeFactor(ctx: FeeContext): ECs {
+        const il = ctx.il.base.add(ctx.il.quote).div(2);
+        const width = ctx.reserveWidth.base.add(ctx.reserveWidth.quote).div(4);
+
+        const widthFees = this._minFees.add(
+            this._maxFees.mul(width.gt(ECs.one()) ? ECs.one() : width)
+        );
+
+        return ilFees(il, this._minFees, this._maxFees).add(widthFees).div(2);
+    }
+}
+
+/**
+ * Only the IL part of the default formula.
+ */
+export class ILOnlyFeeModel implements FeeModel {
+    private _minFees: ECs;
+    private _maxFees: ECs;
+
+    constructor(args?: FeeBoundsArgs) {
+        this._minFees = args?.minFees?.clone() ?? DEFAULT_MIN_FEES.clone();
+        this._maxFees = args?.maxFees?.clone() ?? DEFAULT_MAX_FEES.clone();
+    }
+
+    public feeFactor(ctx: FeeContext): ECs {
+        const il = ctx.il.base.add(ctx.il.quote).div(2);
+
+        return ilFees(il, this._minFees, this._maxFees);
+    }
+}
+
+/** The usual fee tiers of concentrated liquidity DEXes. */
+export const FEE_TIERS = {
+    lowest: ECs.fromString("0.0001"),
+    low: ECs.fromString("0.0005"),
+    medium: ECs.fromString("0.003"),
+    high: ECs.fromString("0.01"),
+};
+
+export type FeeTier = keyof typeof FEE_TIERS;
+
+/**
+ * The same fee no matter what, like in Uniswap V3 pools.
+ */
+export class FlatTierFeeModel implements FeeModel {
+    constructor(private _tier: FeeTier) {}
+
+    public feeFactor(_ctx: FeeContext): ECs {
+        return FEE_TIERS[this._tier].clone();
+    }
+
+    public get tier(): FeeTier {
+        return this._tier;
+    }
+}
+
+export type VolatilityFeeModelArgs = FeeBoundsArgs & {
+    /** How much of the realized volatility is added on top of `minFees`. */
+    multiplier?: ECs;
+};
+
+/**
+ * Grows with the realized volatility of the recent swaps - the standard deviation of the price moves between them.
+ * The more volatile the price is, the more the LPs lose to arbitrage, so the more they charge.
+ */
+export class VolatilityFeeModel implements FeeModel {
+    private _minFees: ECs;
+    private _maxFees: ECs;
+    private _multiplier: ECs;
+
+    constructor(args?: VolatilityFeeModelArgs) {
+        this._minFees = args?.minFees?.clone() ?? DEFAULT_MIN_FEES.clone();
+        this._maxFees = args?.maxFees?.clone() ?? DEFAULT_MAX_FEES.clone();
+        this._multiplier = args?.multiplier?.clone() ?? ECs.half();
+    }
+
+    public feeFactor(ctx: FeeContext): ECs {
+        const ticks = ctx.recentSwaps.map((it) => it.tick);
+        if (ticks.length < 2) return this._minFees.clone();
+
+        let sum = 0;
+        let sumSq = 0;
+
+        for (let i = 1; i < ticks.length; i++) {
+            const move = ticks[i] - ticks[i - 1];
+
+            sum += move;
+            sumSq += move * move;
+        }
+
+        const n = ticks.length - 1;
+        const stdDevTicks = Math.sqrt(Math.max(sumSq / n - (sum / n) ** 2, 0));
+
+        // ticks are logarithmic, so a move of `d` ticks is a `basePrice ^ d - 1` price change
+        const volatility = ctx.tickMath.basePrice
+            .pow(Math.round(stdDevTicks))
+            .sub(ECs.one());
+
+        const fees = this._minFees.add(volatility.mul(this._multiplier));
+
+        return fees.gt(this._maxFees) ? this._maxFees.clone() : fees;
+    }
+}
+
+function ilFees(il: ECs, minFees: ECs, maxFees: ECs): ECs {
+    return minFees.add(
+        il.le(ECs.half()) ? maxFees.mul(il).div(ECs.half()) : maxFees.clone()
+    );
+}
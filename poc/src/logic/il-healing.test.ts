@@ -0,0 +1,52 @@
+import { assert, assertEquals } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { SimulatedClock } from "./clock.ts";
+import {
+    ClosestFirstRecovery,
+    ProportionalRecovery,
+    WorstFirstRecovery,
+} from "./recovery-strategy.ts";
+import { simulateIlHealing } from "./il-healing.ts";
+import { makePool } from "./test-utils.ts";
+
+Deno.test("the strategies are compared on the same state", () => {
+    const pool = makePool({ clock: new SimulatedClock() });
+    const tick = pool.curAbsoluteTick;
+
+    const results = [
+        new WorstFirstRecovery(),
+        new ClosestFirstRecovery(),
+        new ProportionalRecovery(),
+        new WorstFirstRecovery({ holdLeftover: true }),
+    ].map((strategy) =>
+        simulateIlHealing({
+            pool,
+            strategy,
+            qtyIn: ECs.fromString("10"),
+            direction: "base -> quote",
+            roundTrips: 10,
+            tripQtyIn: ECs.fromString("0.5"),
+            tripSeconds: 60,
+        })
+    );
+
+    for (const it of results) {
+        assert(it.ilBefore.isPositive());
+        assert(it.ilBefore.eq(results[0].ilBefore));
+
+        // at the same price, the IL only goes down by what the recovery bins have sold
+        assert(it.recovered.isPositive());
+        assert(it.ilAfter.lt(it.ilBefore));
+        assert(it.healed.isPositive() && it.healed.lt(ECs.one()));
+    }
+
+    // the worst ticks are the most underwater ones, so repairing them first heals the most
+    const [worstFirst, closestFirst, proportional] = results;
+    assert(worstFirst.healed.gt(proportional.healed));
+    assert(proportional.healed.gt(closestFirst.healed));
+
+    // the copies have their own clocks and strategies
+    assertEquals(pool.curAbsoluteTick, tick);
+    assertEquals(pool.clock.now(), 0);
+    assert(pool.recoveryStrategy instanceof WorstFirstRecovery);
+});
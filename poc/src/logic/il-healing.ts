@@ -0,0 +1,94 @@
+import { ECs } from "./ecs.ts";
+import { type Pool } from "./pool.ts";
+import { SimulatedClock } from "./clock.ts";
+import { type RecoveryStrategy } from "./recovery-strategy.ts";
+import { type SwapDirection } from "./utils.ts";
+import { type FeeDecayParams } from "./fee-decay.ts";
+import { Beacon } from "./beacon.ts";
+
+export type IlHealingArgs = {
+    pool: Pool;
+    strategy: RecoveryStrategy;
+    /** What pushes the price away, the side it takes out of the pool is the one that gets the IL. */
+    qtyIn: ECs;
+    direction: SwapDirection;
+    /**
+     * How many times `tripQtyIn` is swapped in the same direction and back, after the push.
+     * Every way back returns the price to the tick the push has left it at.
+     */
+    roundTrips: number;
+    tripQtyIn: ECs;
+    /** How much time passes between the round trips. */
+    tripSeconds: number;
+    /** Turns the fee decay on with the params, or off with `null`, the one of the pool is kept when not set. */
+    feeDecay?: FeeDecayParams | null;
+};
+
+export type IlHealingResult = {
+    /** The IL of the side right after the push. */
+    ilBefore: ECs;
+    /** The IL of the side after all the round trips, at the same price as `ilBefore`. */
+    ilAfter: ECs;
+    /** The share of `ilBefore` that is gone after the round trips. */
+    healed: ECs;
+    /** What the recovery bins sold on the ways back, in the asset the push took out of the side. */
+    recovered: ECs;
+};
+
+/**
+ * How fast the recovery bins heal the IL with the `strategy`: push the price away, then trade back and forth
+ * around it, so the fees fill the recovery bins and every way back sells from them.
+ *
+ * The ways back go all the way to the tick the push has left the price at, however much that takes, so the IL
+ * is compared at the same price and only the repair shows in `healed`, not a price move.
+ *
+ * Runs on a copy of the pool with its own simulated clock, so the same state can be compared between the strategies
+ * (or with the fee decay on and off).
+ */
+export function simulateIlHealing(args: IlHealingArgs): IlHealingResult {
+    const clock = new SimulatedClock(args.pool.clock.now());
+    const pool = args.pool.clone(true, clock, {
+        recoveryStrategy: args.strategy,
+        feeDecay: args.feeDecay,
+    });
+    const side = args.direction === "base -> quote" ? "quote" : "base";
+    const back: SwapDirection =
+        args.direction === "base -> quote" ? "quote -> base" : "base -> quote";
+
+    pool.swap({ qtyIn: args.qtyIn, direction: args.direction });
+    const ilBefore = pool.il[side];
+    const tick = pool.curAbsoluteTick;
+    const recovered = ECs.zero();
+
+    for (let i = 0; i < args.roundTrips; i++) {
+        clock.advance(args.tripSeconds);
+
+        // the fees of this one go to the recovery bins of the side, the way back sells from them
+        pool.swap({ qtyIn: args.tripQtyIn, direction: args.direction });
+
+        const { recoveredQtyOut } = pool.swap({
+            qtyIn: wholeValue(pool, back),
+            direction: back,
+            limitTick: tick,
+        });
+        recovered.addAssign(recoveredQtyOut);
+    }
+
+    const ilAfter = pool.il[side];
+    const healed = ilBefore.isPositive()
+        ? ilBefore.sub(ilAfter).div(ilBefore)
+        : ECs.zero();
+
+    return { ilBefore, ilAfter, healed, recovered };
+}
+
+/**
+ * The value of the whole pool in the asset `direction` swaps in, more than any swap within the pool can take.
+ */
+function wholeValue(pool: Pool, direction: SwapDirection): ECs {
+    const tvl = pool.tvlQuote;
+
+    return direction === "quote -> base"
+        ? tvl
+        : tvl.div(Beacon.base(pool).price(pool.curAbsoluteTick));
+}
@@ -0,0 +1,180 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { Pool } from "./pool.ts";
+import { TickMath } from "./tick-math.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import {
+    BUCKET_COUNT,
+    bucketIdxByLambda,
+    bucketIndices,
+    LAMBDA_1,
+    LAMBDA_3,
+    lambdaByBucketIdx,
+    lambdaDecay,
+    lambdaTickSpan,
+} from "./lambda.ts";
+import { type SwapDirection } from "./utils.ts";
+import { makePool } from "./test-utils.ts";
+
+/** The lambdas of `backend/shared/lambda.mo`, by their bucket index. */
+const BACKEND_LAMBDAS = [
+    "0.04457",
+    "0.00683",
+    "0.00284",
+    "0.00104",
+    "0.0005",
+    "0.00025",
+    "0.0002",
+    "0.000167",
+    "0.000133",
+    "0.0001",
+];
+
+function swap(pool: Pool, qty: string, direction: SwapDirection) {
+    const before = pool.curAbsoluteTick;
+    const res = pool.swap({ qtyIn: ECs.fromString(qty), direction });
+
+    assert(res.qtyInUnfilled.isZero(), `${direction} of ${qty} is unfilled`);
+    assert(
+        direction === "base -> quote"
+            ? pool.curAbsoluteTick <= before
+            : pool.curAbsoluteTick >= before
+    );
+}
+
+Deno.test("a one-sided lambda deposit survives a price reversal", () => {
+    const pool = makePool();
+    pool.deposit("quote", ECs.fromString("900000"), "l", LAMBDA_3);
+
+    swap(pool, "0.5", "base -> quote");
+    swap(pool, "0.5", "base -> quote");
+    swap(pool, "100000", "quote -> base");
+    swap(pool, "1", "base -> quote");
+});
+
+Deno.test("lambda deposits survive repeated reversals", () => {
+    const pool = makePool();
+    const quoteId = pool.deposit(
+        "quote",
+        ECs.fromString("900000"),
+        "l",
+        LAMBDA_3
+    );
+    const baseId = pool.deposit("base", ECs.fromString("10"), "l", LAMBDA_1);
+
+    for (let i = 0; i < 12; i++) {
+        swap(pool, `${(i % 4) + 0.5}`, "base -> quote");
+        swap(pool, `${((i % 3) + 1) * 60000}`, "quote -> base");
+    }
+
+    const quoteReceipt = pool.withdraw(quoteId);
+    const baseReceipt = pool.withdraw(baseId);
+
+    assert(quoteReceipt.total.quote.add(quoteReceipt.total.base).isPositive());
+    assert(baseReceipt.total.base.add(baseReceipt.total.quote).isPositive());
+    assertEquals(pool.positions("l"), []);
+});
+
+Deno.test("the buckets are the ones of the backend", () => {
+    assertEquals(BUCKET_COUNT, BACKEND_LAMBDAS.length);
+    assertEquals(bucketIndices(), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+    for (const idx of bucketIndices()) {
+        const lambda = lambdaByBucketIdx(idx);
+
+        assert(lambda.eq(ECs.fromString(BACKEND_LAMBDAS[idx])), `${idx}`);
+        assertEquals(bucketIdxByLambda(lambda), idx);
+    }
+
+    // the backend traps on anything else
+    assertThrows(
+        () => bucketIdxByLambda(ECs.fromString("0.001")),
+        InvalidArgumentError
+    );
+    assertThrows(() => lambdaByBucketIdx(BUCKET_COUNT), InvalidArgumentError);
+    assertThrows(() => lambdaByBucketIdx(-1), InvalidArgumentError);
+});
+
+Deno.test("a deposit is accounted for in the bucket of its lambda", () => {
+    const pool = makePool();
+    pool.deposit("quote", ECs.fromString("900000"), "l", LAMBDA_3);
+    pool.deposit("base", ECs.fromString("10"), "l", LAMBDA_1);
+    pool.deposit("quote", ECs.fromString("100000"), "l", LAMBDA_3);
+
+    const buckets = pool.lambdaBuckets;
+    assertEquals(buckets.length, BUCKET_COUNT);
+
+    for (const idx of bucketIndices()) {
+        const { base, quote } = buckets[idx];
+
+        if (idx === 1) {
+            assert(base.almostEq(ECs.fromString("10")));
+            assert(quote.isZero());
+        } else if (idx === 3) {
+            assert(base.isZero());
+            assert(quote.almostEq(ECs.fromString("1_000_000")));
+        } else {
+            assert(base.isZero() && quote.isZero(), `${idx}`);
+        }
+    }
+
+    // a layer per bucket, named after its index
+    const lambdaLayers = pool
+        .toState()
+        .layers.filter((it) => it.lambda !== undefined);
+    assertEquals(lambdaLayers.map((it) => it.name), ["lambda-3", "lambda-1"]);
+    assertEquals(
+        lambdaLayers.map((it) => it.lambda),
+        [LAMBDA_3.raw.toString(), LAMBDA_1.raw.toString()]
+    );
+});
+
+for (const tickSpacing of [1, 8]) {
+    Deno.test(
+        `the reserve of a bucket decays by its lambda every tick (spacing ${tickSpacing})`,
+        () => {
+            const pool = makePool(undefined, new TickMath({ tickSpacing }));
+            pool.deposit("quote", ECs.fromString("900000"), "l", LAMBDA_3);
+
+            const reserve =
+                pool.liquidityDigest.layers["lambda-3"].quote.reserve!;
+            const decay = ECs.one().sub(LAMBDA_3).pow(tickSpacing);
+            assert(lambdaDecay(LAMBDA_3, tickSpacing).eq(decay));
+
+            // the range covers the bucket's tick span, right past the current tick
+            assertEquals(
+                reserve.getWidth(),
+                lambdaTickSpan(LAMBDA_3, tickSpacing) / tickSpacing + 1
+            );
+            assertEquals(reserve.getBest(), pool.curAbsoluteTick - tickSpacing);
+
+            for (const k of [0, 1, 10, 100, reserve.getWidth() - 2]) {
+                const next = reserve.getTickReserveQty(k + 1);
+                const expected = reserve.getTickReserveQty(k).mul(decay);
+                const tolerance = expected.mul(
+                    ECs.fromString("0.0000000000000000000001")
+                );
+
+                assert(next.sub(expected).abs().le(tolerance), `${k}`);
+            }
+        }
+    );
+}
+
+Deno.test("the tick spans are derived without floats", () => {
+    // 99% of the liquidity is within `ln(0.01) / ln(1 - lambda)` ticks, rounded up to the spacing
+    const spans: Record<number, number[]> = {
+        1: [102, 672, 1620, 4426, 9209, 18419, 23024, 27574, 34624, 46050],
+        8: [104, 672, 1624, 4432, 9216, 18424, 23024, 27576, 34624, 46056],
+        64: [128, 704, 1664, 4480, 9216, 18432, 23040, 27584, 34624, 46080],
+    };
+
+    for (const [tickSpacing, expected] of Object.entries(spans)) {
+        assertEquals(
+            bucketIndices().map((idx) =>
+                lambdaTickSpan(lambdaByBucketIdx(idx), Number(tickSpacing))
+            ),
+            expected
+        );
+    }
+});
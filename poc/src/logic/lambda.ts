@@ -0,0 +1,89 @@
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+
+/**
+ * The share of the remaining liquidity a bucket puts into every next tick (0.01% of the price) away from the current one,
+ * so its liquidity decays geometrically. Mirrors `backend/shared/lambda.mo`.
+ */
+export type Lambda = ECs;
+
+export const BUCKET_COUNT = 10;
+
+export const LAMBDA_0: Lambda = ECs.fromString("0.04457"); // ~99% per 1%
+export const LAMBDA_1: Lambda = ECs.fromString("0.00683"); // ~50% per 1%
+export const LAMBDA_2: Lambda = ECs.fromString("0.00284"); // ~25% per 1%
+export const LAMBDA_3: Lambda = ECs.fromString("0.00104"); // ~10% per 1%
+export const LAMBDA_4: Lambda = ECs.fromString("0.0005"); // ~5% per 1%
+export const LAMBDA_5: Lambda = ECs.fromString("0.00025"); // ~2.5% per 1%
+export const LAMBDA_6: Lambda = ECs.fromString("0.0002"); // ~2% per 1%
+export const LAMBDA_7: Lambda = ECs.fromString("0.000167"); // ~1.7% per 1%
+export const LAMBDA_8: Lambda = ECs.fromString("0.000133"); // ~1.3% per 1%
+export const LAMBDA_9: Lambda = ECs.fromString("0.0001"); // ~1% per 1%
+
+const LAMBDAS = [
+    LAMBDA_0,
+    LAMBDA_1,
+    LAMBDA_2,
+    LAMBDA_3,
+    LAMBDA_4,
+    LAMBDA_5,
+    LAMBDA_6,
+    LAMBDA_7,
+    LAMBDA_8,
+    LAMBDA_9,
+];
+
+/**
+ * The share of a bucket's liquidity its range covers, the geometric tail beyond it is cut off
+ * (and spread over the covered ticks).
+ */
+export const LAMBDA_COVERAGE = ECs.fromString("0.99");
+
+export function bucketIndices(): number[] {
+    return LAMBDAS.map((_, i) => i);
+}
+
+/**
+ * Throws an `InvalidArgumentError` for anything but one of `LAMBDA_0..9`, like the backend traps.
+ */
+export function bucketIdxByLambda(lambda: Lambda): number {
+    const idx = LAMBDAS.findIndex((it) => it.eq(lambda));
+
+    if (idx === -1)
+        throw new InvalidArgumentError({
+            argument: "lambda",
+            detail: `unsupported lambda value: ${lambda}`,
+        });
+
+    return idx;
+}
+
+export function lambdaByBucketIdx(bucketIdx: number): Lambda {
+    const lambda = LAMBDAS[bucketIdx];
+
+    if (lambda === undefined)
+        throw new InvalidArgumentError({
+            argument: "bucketIdx",
+            detail: `unsupported bucket idx value: ${bucketIdx}`,
+        });
+
+    return lambda.clone();
+}
+
+/**
+ * How much less reserve each next usable tick gets, `(1 - lambda) ^ tickSpacing`.
+ */
+export function lambdaDecay(lambda: Lambda, tickSpacing: number): ECs {
+    return ECs.one().sub(lambda).pow(tickSpacing);
+}
+
+/**
+ * How many ticks away from the current one it takes to cover `LAMBDA_COVERAGE` of the bucket's liquidity,
+ * rounded up to a multiple of `tickSpacing`.
+ */
+export function lambdaTickSpan(lambda: Lambda, tickSpacing: number): number {
+    const ticks = ECs.one().sub(LAMBDA_COVERAGE).log(ECs.one().sub(lambda));
+    const spacings = Number(ticks.div(tickSpacing).toNative(0, "ceil"));
+
+    return Math.max(1, spacings) * tickSpacing;
+}
@@ -0,0 +1,179 @@
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { bucketIdxByLambda, type Lambda } from "./lambda.ts";
+
+export const DEFAULT_STABLE_AMM_CUT = ECs.fromString("0.05");
+
+/** Unique within a pool, e.g. `stable` or `drifting`. */
+export type LayerName = string;
+
+/**
+ * How far from the current tick the reserve of a layer reaches.
+ * - `full-range` - up to the tick bounds, never moves.
+ * - `stretching` - `tickSpan` of the pool, then drifts after the inventory of the other side (see `DriftParams`).
+ * - `band` - its own `tickSpan`, never drifts, so it keeps the depth close to the current tick during trends
+ *   (risk analysis 1A).
+ * - `lambda` - a bucket the LPs choose at deposit time, its reserve decays geometrically by `lambda` per tick
+ *   and never drifts (see `lambdaLayer`).
+ */
+export type SpanPolicy =
+    | { kind: "full-range" }
+    | { kind: "stretching" }
+    | { kind: "band"; tickSpan: number }
+    | { kind: "lambda"; lambda: Lambda };
+
+/**
+ * One of the AMM pairs (a base and a quote one) the pool consists of.
+ */
+export type LayerParams = {
+    name: LayerName;
+    span: SpanPolicy;
+    /** The share of every deposit, the cuts of all layers sum up to 1. */
+    cut: ECs;
+    /** The share of every fee, the fee shares of all layers sum up to 1. */
+    feeShare: ECs;
+};
+
+/**
+ * The original composition: a full-range `stable` layer and a `stretching` one, `drifting`.
+ * Both get the same share of the fees as of the deposits.
+ */
+export function defaultLayers(
+    stableAmmCut: ECs = DEFAULT_STABLE_AMM_CUT
+): LayerParams[] {
+    const driftingCut = ECs.one().sub(stableAmmCut);
+
+    return [
+        {
+            name: "stable",
+            span: { kind: "full-range" },
+            cut: stableAmmCut.clone(),
+            feeShare: stableAmmCut.clone(),
+        },
+        {
+            name: "drifting",
+            span: { kind: "stretching" },
+            cut: driftingCut,
+            feeShare: driftingCut.clone(),
+        },
+    ];
+}
+
+/**
+ * The default layers with a near-price `band` layer, that takes `cut` of the deposits and `feeShare` of the fees
+ * from the drifting one.
+ */
+export function layersWithBand(args: {
+    tickSpan: number;
+    cut: ECs;
+    feeShare?: ECs;
+    stableAmmCut?: ECs;
+}): LayerParams[] {
+    const [stable, drifting] = defaultLayers(args.stableAmmCut);
+    const feeShare = args.feeShare ?? args.cut;
+
+    return [
+        stable,
+        {
+            name: "band",
+            span: { kind: "band", tickSpan: args.tickSpan },
+            cut: args.cut.clone(),
+            feeShare: feeShare.clone(),
+        },
+        {
+            ...drifting,
+            cut: drifting.cut.sub(args.cut),
+            feeShare: drifting.feeShare.sub(feeShare),
+        },
+    ];
+}
+
+/**
+ * The layer of a lambda bucket. It takes no cut of the ordinary deposits, only the ones made into the bucket,
+ * and earns the fees in proportion to its liquidity at the current tick, so `cut` and `feeShare` are both 0.
+ */
+export function lambdaLayer(lambda: Lambda): LayerParams {
+    return {
+        name: `lambda-${bucketIdxByLambda(lambda)}`,
+        span: { kind: "lambda", lambda: lambda.clone() },
+        cut: ECs.zero(),
+        feeShare: ECs.zero(),
+    };
+}
+
+export function isLambdaLayer(layer: LayerParams): boolean {
+    return layer.span.kind === "lambda";
+}
+
+/**
+ * Checks the configured layers, the lambda buckets are not among them - they are added by the deposits.
+ */
+export function validateLayers(layers: LayerParams[]) {
+    if (layers.length === 0)
+        throw new InvalidArgumentError({
+            argument: "layers",
+            detail: "there should be at least one layer",
+        });
+
+    const names = new Set(layers.map((it) => it.name));
+    if (names.size !== layers.length)
+        throw new InvalidArgumentError({
+            argument: "layers",
+            detail: `the names should be unique: ${layers.map(
+                (it) => it.name
+            )}`,
+        });
+
+    for (const key of ["cut", "feeShare"] as const) {
+        const total = ECs.zero();
+
+        for (const layer of layers) {
+            if (layer[key].isNegative() || layer[key].gt(ECs.one()))
+                throw new InvalidArgumentError({
+                    argument: key,
+                    detail: `should be in [0, 1], got ${layer[key]} for ${layer.name}`,
+                });
+
+            total.addAssign(layer[key]);
+        }
+
+        if (!total.eq(ECs.one()))
+            throw new InvalidArgumentError({
+                argument: key,
+                detail: `should sum up to 1 over all layers, got ${total}`,
+            });
+    }
+
+    for (const layer of layers) {
+        if (isLambdaLayer(layer))
+            throw new InvalidArgumentError({
+                argument: "layers",
+                detail: `the lambda buckets are added with the deposits, got ${layer.name}`,
+            });
+
+        if (
+            layer.span.kind === "band" &&
+            !(Number.isInteger(layer.span.tickSpan) && layer.span.tickSpan > 0)
+        )
+            throw new InvalidArgumentError({
+                argument: "tickSpan",
+                detail: `should be a positive integer, got ${layer.span.tickSpan} for ${layer.name}`,
+            });
+    }
+}
+
+/**
+ * Splits `qty` by `shares`, the last one gets whatever the rounding leaves.
+ */
+export function splitByShares(qty: ECs, shares: ECs[]): ECs[] {
+    const rest = qty.clone();
+
+    return shares.map((share, i) => {
+        if (i === shares.length - 1) return rest;
+
+        const part = qty.mul(share);
+        rest.subAssign(part);
+
+        return part;
+    });
+}
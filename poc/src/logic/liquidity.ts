@@ -1,14 +1,33 @@
 import { Beacon } from "./beacon.ts";
 import { ECs } from "./ecs.ts";
 import { Pool } from "./pool.ts";
-import { Range, type TakeResult } from "./range.ts";
-import {
-    type AMMSwapDirection,
-    MAX_TICK,
-    MIN_TICK,
-    panic,
-    type TwoAmmSided,
-} from "./utils.ts";
+import { Range, type RangeState, type TakeResult } from "./range.ts";
+import { type AMMSwapDirection, type TwoAmmSided } from "./utils.ts";
+import { InvariantViolationError } from "./errors.ts";
+import { cloneShape, type RangeShape } from "./range-shape.ts";
+
+/**
+ * - `uniform` - a new inventory range starts whenever the per-tick reserve changes.
+ * - `piecewise-linear` - a contiguous stretch of the inventory is kept in a single range (see `RangeShape`),
+ *   until the range gets `MAX_PROFILE_POINTS` points, then the next one starts.
+ */
+export type InventoryShape = "uniform" | "piecewise-linear";
+
+/**
+ * How the ranges of a `Liquidity` are shaped, uniform ones by default.
+ */
+export type LiquidityShapes = {
+    reserve?: RangeShape;
+    inventory?: InventoryShape;
+};
+
+/**
+ * `Liquidity` as plain data, see `Pool.toState`.
+ */
+export type LiquidityState = {
+    reserve?: RangeState;
+    inventory: RangeState[];
+};
 
 export class Liquidity {
     public takeNextTick(
@@ -20,7 +39,8 @@ export class Liquidity {
             if (this.reserve) {
                 this.reserve.putBestUniform(fromCurTick.reserveQty);
             } else {
-                this.deposit(fromCurTick.reserveQty, fromCurTick.tickIdx);
+                // the new range starts right past the new current tick, so at the one just left
+                this.deposit(fromCurTick.reserveQty, curTickIdx);
             }
 
             const best = this.takeBestInventoryTick(curTickIdx);
@@ -43,16 +63,30 @@ export class Liquidity {
         };
     }
 
+    /**
+     * Lends the inventory ticks to `fn` one by one, starting `from` the worst or the best one,
+     * until it returns `undefined` or leaves something of a tick.
+     */
     public borrowInventoryForRecovery(
         fn: (tick: TakeResult) =>
             | {
                   leftoverReserveQty: ECs;
                   curTickIdx: number;
               }
-            | undefined
+            | undefined,
+        from: "worst" | "best" = "worst"
     ) {
+        const take = () =>
+            from === "worst"
+                ? this.takeWorstInventoryTick()
+                : this.takeClosestInventoryTick();
+        const put = (tick: TakeResult) =>
+            from === "worst"
+                ? this.putWorstInventoryTick(tick)
+                : this.putBestInventoryTick(tick);
+
         while (true) {
-            const tickBefore = this.takeWorstInventoryTick();
+            const tickBefore = take();
             if (!tickBefore) {
                 break;
             }
@@ -65,7 +99,7 @@ export class Liquidity {
             });
 
             if (!res) {
-                this.putWorstInventoryTick(tickBefore);
+                put(tickBefore);
 
                 break;
             }
@@ -88,7 +122,7 @@ export class Liquidity {
                     tickIdx: tickBefore.tickIdx,
                 };
 
-                this.putWorstInventoryTick(tickAfter);
+                put(tickAfter);
 
                 break;
             }
@@ -96,47 +130,138 @@ export class Liquidity {
     }
 
     public driftReserveWorst(newWorst: number) {
-        if (!this.reserve) return;
+        const drifted = this.driftedReserve(newWorst);
+        if (drifted) this._reserve = drifted;
+    }
+
+    /**
+     * `newWorst`, if `driftReserveWorst` would move the reserve edge there, otherwise the current one.
+     * Whether it would only depends on the best edge, so the edge can be moved there in any number of steps.
+     */
+    public reachableReserveWorst(newWorst: number): number | undefined {
+        return this.driftedReserve(newWorst)
+            ? newWorst
+            : this.reserve?.getWorst();
+    }
+
+    private driftedReserve(newWorst: number): Range | undefined {
+        if (!this.reserve) return undefined;
 
         const tickSpan = this._getTickSpan ? this._getTickSpan() : undefined;
-        if (!tickSpan) return;
+        if (!tickSpan) return undefined;
 
         try {
             const cp = this.reserve.clone(this.$.pool, !this.$.isLogging);
             cp.driftReserveWorst(newWorst);
 
-            if (cp.getWidth() < tickSpan) return;
-            this._reserve = cp;
+            if (cp.getWidth() * this.$.tickMath.tickSpacing < tickSpan)
+                return undefined;
+
+            return cp;
         } catch {
-            /* noop */
+            return undefined;
         }
     }
 
+    /**
+     * The closest to `worst` reserve edge, that keeps the reserve at least the tick span wide
+     * (`driftReserveWorst` refuses to narrow it more than that).
+     */
+    public clampReserveWorst(worst: number): number {
+        const tickSpan = this._getTickSpan ? this._getTickSpan() : undefined;
+        if (!this.reserve || !tickSpan) return worst;
+
+        const s = this.$.tickMath.tickSpacing;
+        const best = this.reserve.getBest();
+        const minDistance = (Math.ceil(tickSpan / s) - 1) * s;
+
+        return this.$.isBase
+            ? Math.max(worst, best + minDistance)
+            : Math.min(worst, best - minDistance);
+    }
+
     public deposit(reserveQty: ECs, curTickIdx: number) {
         if (this._reserve) {
             this._reserve.putUniform(reserveQty);
         } else {
+            const tm = this.$.tickMath;
+            const s = tm.tickSpacing;
+            const tickSpan = this._getTickSpan
+                ? tm.align(this._getTickSpan())
+                : undefined;
+
             const left = this.$.isBase
-                ? curTickIdx + 1
-                : this._getTickSpan
-                ? curTickIdx - 1 - this._getTickSpan()
-                : MIN_TICK;
+                ? curTickIdx + s
+                : tickSpan !== undefined
+                ? curTickIdx - s - tickSpan
+                : tm.minTick;
 
             const right = this.$.isBase
-                ? this._getTickSpan
-                    ? curTickIdx + this._getTickSpan() + 1
-                    : MAX_TICK
-                : curTickIdx - 1;
+                ? tickSpan !== undefined
+                    ? curTickIdx + tickSpan + s
+                    : tm.maxTick
+                : curTickIdx - s;
 
             this._reserve = new Range(
                 reserveQty.clone(),
                 left,
                 right,
-                this.$.clone({ ammSide: "reserve" })
+                this.$.clone({ ammSide: "reserve" }),
+                this._shapes.reserve && cloneShape(this._shapes.reserve)
             );
         }
     }
 
+    /**
+     * Takes the `share` of every inventory range, returns the taken reserve and its respective inventory.
+     */
+    public takeInventoryShare(share: ECs): TwoAmmSided<ECs> {
+        const reserve = ECs.zero();
+        const inventory = ECs.zero();
+
+        for (const inv of this._inventory) {
+            const taken = inv.splitUniform(share);
+
+            reserve.addAssign(taken.getReserveQty());
+            inventory.addAssign(taken.getRespectiveInventoryQty());
+        }
+
+        this._inventory = this._inventory.filter(
+            (it) => !it.isEmptyNonChecking()
+        );
+
+        return { reserve, inventory };
+    }
+
+    /**
+     * What `takeInventoryShare` would take, the ranges stay as they are.
+     */
+    public peekInventoryShare(share: ECs): TwoAmmSided<ECs> {
+        const reserve = ECs.zero();
+        const inventory = ECs.zero();
+
+        for (const inv of this._inventory) {
+            const part = inv.peekSplitUniform(share);
+
+            reserve.addAssign(part.getReserveQty());
+            inventory.addAssign(part.getRespectiveInventoryQty());
+        }
+
+        return { reserve, inventory };
+    }
+
+    public getInventoryQty(): TwoAmmSided<ECs> {
+        const reserve = ECs.zero();
+        const inventory = ECs.zero();
+
+        for (const inv of this._inventory) {
+            reserve.addAssign(inv.getReserveQty());
+            inventory.addAssign(inv.getRespectiveInventoryQty());
+        }
+
+        return { reserve, inventory };
+    }
+
     public withdraw(cut: ECs): TwoAmmSided<ECs> {
         const reserve = ECs.zero();
         const inventory = ECs.zero();
@@ -160,14 +285,18 @@ export class Liquidity {
         const left = this._inventory[0].getLeft();
         const right = this._inventory[this._inventory.length - 1].getRight();
 
-        return right - left + 1;
+        return this.$.tickMath.countTicks(left, right);
     }
 
+    /**
+     * @param _shapes The shapes of the ranges to create, see `LiquidityShapes`.
+     */
     constructor(
         private _reserve: Range | undefined,
         private _inventory: Range[],
         private _getTickSpan: (() => number) | undefined,
-        private $: Beacon
+        private $: Beacon,
+        private _shapes: LiquidityShapes = {}
     ) {}
 
     public clone(
@@ -179,10 +308,36 @@ export class Liquidity {
             this._reserve?.clone(pool, noLogs),
             this._inventory.map((it) => it.clone(pool, noLogs)),
             _getTickSpan,
-            this.$.clone({ noLogs, pool })
+            this.$.clone({ noLogs, pool }),
+            this._shapes
         );
     }
 
+    public static fromState(
+        state: LiquidityState,
+        _getTickSpan: (() => number) | undefined,
+        $: Beacon,
+        _shapes: LiquidityShapes = {}
+    ) {
+        return new Liquidity(
+            state.reserve &&
+                Range.fromState(state.reserve, $.clone({ ammSide: "reserve" })),
+            state.inventory.map((it) =>
+                Range.fromState(it, $.clone({ ammSide: "inventory" }))
+            ),
+            _getTickSpan,
+            $,
+            _shapes
+        );
+    }
+
+    public toState(): LiquidityState {
+        return {
+            reserve: this._reserve?.toState(),
+            inventory: this._inventory.map((it) => it.toState()),
+        };
+    }
+
     public get reserve() {
         return this._reserve;
     }
@@ -208,32 +363,34 @@ export class Liquidity {
         return tick;
     }
 
+    private takeClosestInventoryTick(): TakeResult | undefined {
+        const range = this.takeBestInventoryRange();
+        if (!range) return undefined;
+
+        const tick = range.takeBest();
+        if (!range.isEmptyNonChecking()) this.putBestInventoryRange(range);
+
+        return tick;
+    }
+
     private putBestInventoryTick(tick: TakeResult) {
         if (tick.reserveQty.isZero()) return;
 
         let range: Range;
 
         if (this._inventory.length === 0) {
-            range = new Range(
-                tick.reserveQty,
-                tick.tickIdx,
-                tick.tickIdx,
-                this.$.clone({ ammSide: "inventory" })
-            );
+            range = this.newInventoryRange(tick);
         } else {
-            range = this.takeBestInventoryRange() ?? panic();
+            range =
+                this.takeBestInventoryRange() ??
+                this.fail("There should be a best inventory range");
 
-            if (range.getPerTickReserveQty().eq(tick.reserveQty)) {
+            if (range.fitsBest(tick.reserveQty)) {
                 range.putBest(tick.reserveQty);
             } else {
                 this.putBestInventoryRange(range);
 
-                range = new Range(
-                    tick.reserveQty,
-                    tick.tickIdx,
-                    tick.tickIdx,
-                    this.$.clone({ ammSide: "inventory" })
-                );
+                range = this.newInventoryRange(tick);
             }
         }
 
@@ -258,31 +415,41 @@ export class Liquidity {
         let range: Range;
 
         if (this._inventory.length === 0) {
-            range = new Range(
-                tick.reserveQty,
-                tick.tickIdx,
-                tick.tickIdx,
-                this.$.clone({ ammSide: "inventory" })
-            );
+            range = this.newInventoryRange(tick);
         } else {
-            range = this.takeWorstInventoryRange() ?? panic();
+            range =
+                this.takeWorstInventoryRange() ??
+                this.fail("There should be a worst inventory range");
 
-            if (range.getPerTickReserveQty().eq(tick.reserveQty)) {
+            if (range.fitsWorst(tick.reserveQty)) {
                 range.putWorst(tick.reserveQty);
             } else {
                 this.putWorstInventoryRange(range);
-                range = new Range(
-                    tick.reserveQty,
-                    tick.tickIdx,
-                    tick.tickIdx,
-                    this.$.clone({ ammSide: "inventory" })
-                );
+                range = this.newInventoryRange(tick);
             }
         }
 
         this.putWorstInventoryRange(range);
     }
 
+    private newInventoryRange(tick: TakeResult): Range {
+        const shape: RangeShape | undefined =
+            this._shapes.inventory === "piecewise-linear"
+                ? {
+                      kind: "piecewise-linear",
+                      points: [{ offset: 0, weight: ECs.one() }],
+                  }
+                : undefined;
+
+        return new Range(
+            tick.reserveQty,
+            tick.tickIdx,
+            tick.tickIdx,
+            this.$.clone({ ammSide: "inventory" }),
+            shape
+        );
+    }
+
     private takeBestInventoryRange(): Range | undefined {
         if (this._inventory.length === 0) return undefined;
 
@@ -291,8 +458,7 @@ export class Liquidity {
     }
 
     private putBestInventoryRange(range: Range) {
-        if (range.isEmpty())
-            panic(`[Liquidity ${this.$}] Unable to put empty range`);
+        if (range.isEmpty()) this.fail("Unable to put empty range");
 
         if (this.$.isBase) this._inventory.push(range);
         else this._inventory.unshift(range);
@@ -306,13 +472,20 @@ export class Liquidity {
     }
 
     private putWorstInventoryRange(range: Range) {
-        if (range.isEmpty())
-            panic(`[Liquidity ${this.$}] Unable to put empty range`);
+        if (range.isEmpty()) this.fail("Unable to put empty range");
 
         if (this.$.isBase) this._inventory.unshift(range);
         else this._inventory.push(range);
     }
 
+    private fail(detail: string): never {
+        throw new InvariantViolationError({
+            component: "Liquidity",
+            beacon: `${this.$}`,
+            detail,
+        });
+    }
+
     public getBestInventory() {
         if (this._inventory.length === 0) return undefined;
 
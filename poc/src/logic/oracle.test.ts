@@ -0,0 +1,176 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { Oracle } from "./oracle.ts";
+import { SimulatedClock } from "./clock.ts";
+import { Pool } from "./pool.ts";
+import { TickMath } from "./tick-math.ts";
+import { makePool } from "./test-utils.ts";
+
+/** tick 100 with liquidity 2 for 10 seconds, then tick 200 with liquidity 4 for 10 more */
+function twoWrites(cardinality: number) {
+    const o = new Oracle(cardinality, 0);
+    o.write(10, 100, ECs.fromString("2"));
+    o.write(20, 200, ECs.fromString("4"));
+
+    return o;
+}
+
+Deno.test(
+    "observe interpolates between the observations and extrapolates past the latest one",
+    () => {
+        const o = twoWrites(10);
+
+        const res = o.observe(25, [0, 5, 15, 20, 25], 300, ECs.fromString("5"));
+
+        assertEquals(res.tickCumulatives, [4500, 3000, 1000, 500, 0]);
+        assertEquals(
+            res.secondsPerLiquidityCumulatives.map((it) => it.toString()),
+            ["8.5", "7.5", "5", "2.5", "0"].map((it) =>
+                ECs.fromString(it).toString()
+            )
+        );
+
+        assertThrows(
+            () => o.observe(25, [-1], 300, ECs.fromString("5")),
+            InvalidArgumentError
+        );
+    }
+);
+
+Deno.test(
+    "the time without liquidity is skipped, and a second write at the same time is ignored",
+    () => {
+        const o = new Oracle(10, 0);
+        o.write(10, 100, ECs.zero());
+        o.write(10, 999, ECs.fromString("1"));
+
+        assertEquals(o.latest.tickCumulative, 1000);
+        assert(o.latest.secondsPerLiquidityCumulative.isZero());
+    }
+);
+
+Deno.test("interpolated tick cumulatives stay integers", () => {
+    for (const tick of [7, 113, -114445]) {
+        const o = new Oracle(10, 0);
+        o.write(11, tick, ECs.fromString("1"));
+        o.write(12, 0, ECs.fromString("1"));
+
+        // scaling the difference by 9/11 would be off by a float rounding error
+        const [at9] = o.observe(
+            12,
+            [3],
+            0,
+            ECs.fromString("1")
+        ).tickCumulatives;
+        assertEquals(at9, tick * 9);
+    }
+});
+
+Deno.test("the ring buffer overwrites the oldest observations", () => {
+    const o = new Oracle(3, 0);
+    for (const t of [10, 20, 30, 40]) o.write(t, 1, ECs.fromString("1"));
+
+    const state = o.toState();
+    assertEquals(state.observations.length, 3);
+    assertEquals(state.index, 1);
+    assertEquals(o.latest.timestamp, 40);
+
+    // t = 20 is the oldest one left
+    assertEquals(
+        o.observe(40, [20], 1, ECs.fromString("1")).tickCumulatives,
+        [20]
+    );
+    assertThrows(
+        () => o.observe(40, [30], 1, ECs.fromString("1")),
+        InvalidArgumentError
+    );
+});
+
+Deno.test("growing the cardinality keeps the history, it never shrinks", () => {
+    const o = new Oracle(2, 0);
+    o.write(10, 1, ECs.fromString("1"));
+    o.write(20, 1, ECs.fromString("1"));
+    assertThrows(
+        () => o.observe(20, [20], 1, ECs.fromString("1")),
+        InvalidArgumentError
+    );
+
+    o.grow(4);
+    o.grow(1);
+    assertEquals(o.cardinality, 4);
+
+    o.write(30, 1, ECs.fromString("1"));
+    o.write(40, 1, ECs.fromString("1"));
+    assertEquals(
+        o.observe(40, [30], 1, ECs.fromString("1")).tickCumulatives,
+        [10]
+    );
+
+    assertThrows(() => o.grow(0), InvalidArgumentError);
+    assertThrows(() => new Oracle(1.5, 0), InvalidArgumentError);
+});
+
+Deno.test("an oracle survives a JSON round-trip", () => {
+    const o = new Oracle(3, 0);
+    for (const t of [10, 20, 30, 40]) o.write(t, t, ECs.fromString("3"));
+
+    const restored = Oracle.fromState(JSON.parse(JSON.stringify(o.toState())));
+
+    assertEquals(restored.toState(), o.toState());
+    assertEquals(
+        restored.observe(50, [0, 15, 30], 7, ECs.fromString("2")),
+        o.observe(50, [0, 15, 30], 7, ECs.fromString("2"))
+    );
+
+    assertThrows(
+        () => Oracle.fromState({ ...o.toState(), index: 3 }),
+        InvalidArgumentError
+    );
+    assertThrows(
+        () => Oracle.fromState({ ...o.toState(), cardinality: 2 }),
+        InvalidArgumentError
+    );
+});
+
+Deno.test("the pool writes an observation before every swap", () => {
+    const clock = new SimulatedClock();
+    const pool = makePool({ clock, oracleCardinality: 5 });
+    const before = pool.curAbsoluteTick;
+
+    clock.advance(100);
+    pool.swap({ qtyIn: ECs.fromString("1"), direction: "base -> quote" });
+    const after = pool.curAbsoluteTick;
+    assert(after < before);
+
+    clock.advance(100);
+
+    assertEquals(pool.observe([200, 100, 0]).tickCumulatives, [
+        0,
+        before * 100,
+        before * 100 + after * 100,
+    ]);
+    assertEquals(pool.twapTick(200), (before + after) / 2);
+    assertEquals(pool.oracleCardinality, 5);
+});
+
+Deno.test("the oracle is stored with the rest of the pool state", () => {
+    const clock = new SimulatedClock();
+    const tickMath = new TickMath();
+    const pool = makePool({ clock }, tickMath);
+
+    for (let i = 0; i < 5; i++) {
+        clock.advance(60);
+        pool.swap({ qtyIn: ECs.fromString("0.5"), direction: "base -> quote" });
+    }
+    clock.advance(60);
+
+    const restored = Pool.fromState(
+        JSON.parse(JSON.stringify(pool.toState())),
+        tickMath,
+        { clock }
+    );
+
+    assertEquals(restored.observe([300, 0]), pool.observe([300, 0]));
+    assertEquals(restored.twapTick(300), pool.twapTick(300));
+});
@@ -0,0 +1,291 @@
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { type Timestamp } from "./clock.ts";
+
+export const DEFAULT_ORACLE_CARDINALITY = 100;
+
+/**
+ * The accumulators of the pool at some moment, like in Uniswap V3.
+ * The difference of two observations divided by the time between them is the time-weighted average.
+ */
+export type Observation = {
+    timestamp: Timestamp;
+    /** `sum(tick * seconds)` since the pool was created, an integer as long as the timestamps are whole seconds. */
+    tickCumulative: number;
+    /** `sum(seconds / liquidity)` since the pool was created, the liquidity is the quote value of the current tick. */
+    secondsPerLiquidityCumulative: ECs;
+};
+
+export type ObserveResult = {
+    tickCumulatives: number[];
+    secondsPerLiquidityCumulatives: ECs[];
+};
+
+/**
+ * `Oracle` as plain data, so it can be stored (e.g. as JSON) and restored with `Oracle.fromState`.
+ */
+export type OracleState = {
+    cardinality: number;
+    /** The latest observation. */
+    index: number;
+    observations: {
+        timestamp: Timestamp;
+        tickCumulative: number;
+        /** Raw ECs units. */
+        secondsPerLiquidityCumulative: string;
+    }[];
+};
+
+/**
+ * A ring buffer of the latest `cardinality` observations, one per timestamp.
+ * The pool writes a new observation before every swap, with the tick and the liquidity that were in effect
+ * since the previous one.
+ */
+export class Oracle {
+    private _observations: Observation[];
+    private _index = 0;
+
+    constructor(private _cardinality: number, createdAt: Timestamp) {
+        validateCardinality(_cardinality);
+
+        this._observations = [
+            {
+                timestamp: createdAt,
+                tickCumulative: 0,
+                secondsPerLiquidityCumulative: ECs.zero(),
+            },
+        ];
+    }
+
+    public static fromState(state: OracleState): Oracle {
+        const n = state.observations.length;
+
+        if (
+            n === 0 ||
+            n > state.cardinality ||
+            !(state.index >= 0 && state.index < n)
+        )
+            throw new InvalidArgumentError({
+                argument: "state",
+                detail: `expecting from 1 to ${state.cardinality} observations and a valid index, got ${n} and ${state.index}`,
+            });
+
+        const o = new Oracle(
+            state.cardinality,
+            state.observations[state.index].timestamp
+        );
+
+        o._observations = state.observations.map((it) => ({
+            timestamp: it.timestamp,
+            tickCumulative: it.tickCumulative,
+            secondsPerLiquidityCumulative: new ECs(
+                BigInt(it.secondsPerLiquidityCumulative)
+            ),
+        }));
+        o._index = state.index;
+
+        return o;
+    }
+
+    public toState(): OracleState {
+        return {
+            cardinality: this._cardinality,
+            index: this._index,
+            observations: this._observations.map((it) => ({
+                timestamp: it.timestamp,
+                tickCumulative: it.tickCumulative,
+                secondsPerLiquidityCumulative:
+                    it.secondsPerLiquidityCumulative.raw.toString(),
+            })),
+        };
+    }
+
+    public clone(): Oracle {
+        const o = new Oracle(this._cardinality, 0);
+
+        o._observations = this._observations.map((it) => ({
+            ...it,
+            secondsPerLiquidityCumulative:
+                it.secondsPerLiquidityCumulative.clone(),
+        }));
+        o._index = this._index;
+
+        return o;
+    }
+
+    /**
+     * Records that `tick` and `liquidity` were in effect from the latest observation until `now`.
+     * Does nothing, if there already is an observation at `now`.
+     */
+    public write(now: Timestamp, tick: number, liquidity: ECs) {
+        const last = this._observations[this._index];
+        if (now <= last.timestamp) return;
+
+        const next = transform(last, now, tick, liquidity);
+
+        if (this._observations.length < this._cardinality) {
+            this._observations.push(next);
+            this._index = this._observations.length - 1;
+        } else {
+            this._index = (this._index + 1) % this._cardinality;
+            this._observations[this._index] = next;
+        }
+    }
+
+    /**
+     * The accumulators `secondsAgo` before `now`, interpolated between the observations.
+     * The time since the latest observation is counted with the current `tick` and `liquidity`.
+     */
+    public observe(
+        now: Timestamp,
+        secondsAgos: number[],
+        tick: number,
+        liquidity: ECs
+    ): ObserveResult {
+        const tickCumulatives: number[] = [];
+        const secondsPerLiquidityCumulatives: ECs[] = [];
+
+        for (const secondsAgo of secondsAgos) {
+            if (!(secondsAgo >= 0))
+                throw new InvalidArgumentError({
+                    argument: "secondsAgo",
+                    detail: `should be non-negative: ${secondsAgo}`,
+                });
+
+            const it = this.observeSingle(now - secondsAgo, tick, liquidity);
+
+            tickCumulatives.push(it.tickCumulative);
+            secondsPerLiquidityCumulatives.push(
+                it.secondsPerLiquidityCumulative
+            );
+        }
+
+        return { tickCumulatives, secondsPerLiquidityCumulatives };
+    }
+
+    /**
+     * Makes room for more observations, the cardinality never shrinks.
+     */
+    public grow(cardinality: number) {
+        validateCardinality(cardinality);
+        if (cardinality <= this._cardinality) return;
+
+        // the oldest first, so the new slots come right after the latest observation
+        this._observations = this.chronological();
+        this._index = this._observations.length - 1;
+        this._cardinality = cardinality;
+    }
+
+    public get cardinality(): number {
+        return this._cardinality;
+    }
+
+    public get latest(): Observation {
+        const it = this._observations[this._index];
+
+        return {
+            ...it,
+            secondsPerLiquidityCumulative:
+                it.secondsPerLiquidityCumulative.clone(),
+        };
+    }
+
+    private observeSingle(
+        target: Timestamp,
+        tick: number,
+        liquidity: ECs
+    ): Observation {
+        const last = this._observations[this._index];
+        if (target >= last.timestamp)
+            return transform(last, target, tick, liquidity);
+
+        const observations = this.chronological();
+        const oldest = observations[0];
+
+        if (target < oldest.timestamp)
+            throw new InvalidArgumentError({
+                argument: "secondsAgo",
+                detail: `older than the oldest observation (${oldest.timestamp}), grow the cardinality`,
+            });
+
+        // the last observation at or before the target
+        let lo = 0;
+        let hi = observations.length - 1;
+        while (lo < hi) {
+            const mid = Math.ceil((lo + hi) / 2);
+
+            if (observations[mid].timestamp <= target) lo = mid;
+            else hi = mid - 1;
+        }
+
+        const before = observations[lo];
+        if (before.timestamp === target)
+            return {
+                ...before,
+                secondsPerLiquidityCumulative:
+                    before.secondsPerLiquidityCumulative.clone(),
+            };
+
+        const after = observations[lo + 1];
+        const elapsed = after.timestamp - before.timestamp;
+        const share = (target - before.timestamp) / elapsed;
+
+        // one tick was in effect between the two observations, like in Uniswap the accumulator is advanced by
+        // that tick instead of being scaled, so whole seconds keep the tick cumulative an integer
+        const tickInEffect = Math.round(
+            (after.tickCumulative - before.tickCumulative) / elapsed
+        );
+
+        return {
+            timestamp: target,
+            tickCumulative:
+                before.tickCumulative +
+                tickInEffect * (target - before.timestamp),
+            secondsPerLiquidityCumulative:
+                before.secondsPerLiquidityCumulative.add(
+                    after.secondsPerLiquidityCumulative
+                        .sub(before.secondsPerLiquidityCumulative)
+                        .mul(toECs(share))
+                ),
+        };
+    }
+
+    private chronological(): Observation[] {
+        return [
+            ...this._observations.slice(this._index + 1),
+            ...this._observations.slice(0, this._index + 1),
+        ];
+    }
+}
+
+function transform(
+    last: Observation,
+    now: Timestamp,
+    tick: number,
+    liquidity: ECs
+): Observation {
+    const elapsed = now - last.timestamp;
+
+    return {
+        timestamp: now,
+        tickCumulative: last.tickCumulative + tick * elapsed,
+        // unlike Uniswap, which counts an empty tick as 1 unit of liquidity, the time without liquidity is skipped
+        secondsPerLiquidityCumulative: liquidity.isPositive()
+            ? last.secondsPerLiquidityCumulative.add(
+                  toECs(elapsed).div(liquidity)
+              )
+            : last.secondsPerLiquidityCumulative.clone(),
+    };
+}
+
+function toECs(n: number): ECs {
+    return ECs.fromString(n.toString());
+}
+
+function validateCardinality(cardinality: number) {
+    if (!Number.isInteger(cardinality) || cardinality < 1)
+        throw new InvalidArgumentError({
+            argument: "cardinality",
+            detail: `should be a positive integer: ${cardinality}`,
+        });
+}
@@ -0,0 +1,166 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { OrderBook } from "./orderbook.ts";
+import { TickMath } from "./tick-math.ts";
+import { type TwoSided } from "./utils.ts";
+import { InvalidArgumentError } from "./errors.ts";
+
+// the price is exactly 1 at tick 0, so the quantities of both assets are the same
+const TICK = 0;
+
+function assertQty(actual: ECs, expected: string) {
+    assert(
+        actual.eq(ECs.fromString(expected)),
+        `expected ${expected}, got ${actual}`
+    );
+}
+
+function assertTwoSided(actual: TwoSided<ECs>, base: string, quote: string) {
+    assertQty(actual.base, base);
+    assertQty(actual.quote, quote);
+}
+
+function bookWithBaseOrders(...qtys: string[]) {
+    const book = new OrderBook(new TickMath());
+    const ids = qtys.map((qty, i) =>
+        book.place({
+            side: "base",
+            tick: TICK,
+            qty: ECs.fromString(qty),
+            owner: `maker-${i}`,
+            placedAt: 0,
+        })
+    );
+
+    return { book, ids };
+}
+
+Deno.test("a batch is filled pro rata", () => {
+    const {
+        book,
+        ids: [a, b],
+    } = bookWithBaseOrders("30", "10");
+
+    const res = book.swap(TICK, ECs.fromString("20"), "quote -> base");
+    assertQty(res.qtyOut, "20");
+    assertQty(res.reminderIn, "0");
+
+    assertQty(book.stats(a).filledQty, "15");
+    assertQty(book.stats(b).filledQty, "5");
+    assertTwoSided(book.stats(a).claimable, "15", "15");
+    assert(!book.stats(a).isFilled);
+});
+
+Deno.test(
+    "an order placed after a partial fill waits for the next batch",
+    () => {
+        const {
+            book,
+            ids: [a, b],
+        } = bookWithBaseOrders("30", "10");
+        book.swap(TICK, ECs.fromString("20"), "quote -> base");
+
+        const c = book.place({
+            side: "base",
+            tick: TICK,
+            qty: ECs.fromString("40"),
+            owner: "late",
+            placedAt: 1,
+        });
+        assertEquals(book.stats(c).batchId, book.stats(a).batchId + 1);
+        assertQty(book.stats(c).filledQty, "0");
+
+        // fills the rest of the first batch and then moves on to the next one
+        const res = book.swap(TICK, ECs.fromString("30"), "quote -> base");
+        assertQty(res.qtyOut, "30");
+        assertQty(res.reminderIn, "0");
+
+        assert(book.stats(a).isFilled);
+        assert(book.stats(b).isFilled);
+        assertQty(book.stats(c).filledQty, "10");
+        assertQty(book.getRestingQty(TICK, "base"), "30");
+    }
+);
+
+Deno.test("the input beyond the resting orders is returned", () => {
+    const { book } = bookWithBaseOrders("5");
+
+    const res = book.swap(TICK, ECs.fromString("8"), "quote -> base");
+    assertQty(res.qtyOut, "5");
+    assertQty(res.reminderIn, "3");
+
+    const empty = book.swap(TICK + 1, ECs.fromString("8"), "quote -> base");
+    assertQty(empty.qtyOut, "0");
+    assertQty(empty.reminderIn, "8");
+});
+
+Deno.test(
+    "the orders are only filled by the swaps that take their side",
+    () => {
+        const {
+            book,
+            ids: [a],
+        } = bookWithBaseOrders("5");
+
+        const res = book.swap(TICK, ECs.fromString("5"), "base -> quote");
+        assertQty(res.qtyOut, "0");
+        assertQty(res.reminderIn, "5");
+        assertQty(book.stats(a).filledQty, "0");
+    }
+);
+
+Deno.test("cancel returns the unfilled part and the proceeds", () => {
+    const {
+        book,
+        ids: [a, b],
+    } = bookWithBaseOrders("30", "10");
+    book.swap(TICK, ECs.fromString("20"), "quote -> base");
+    const c = book.place({
+        side: "base",
+        tick: TICK,
+        qty: ECs.fromString("40"),
+        owner: "late",
+        placedAt: 1,
+    });
+
+    assertTwoSided(book.cancel(c), "40", "0");
+    assertTwoSided(book.cancel(a), "15", "15");
+
+    // the only order left takes the rest of the proceeds
+    assertTwoSided(book.cancel(b), "5", "5");
+    assertEquals(book.orders(), []);
+    assertQty(book.getTotalRestingQty("base"), "0");
+
+    assertThrows(() => book.cancel(a), InvalidArgumentError);
+});
+
+Deno.test("the resting input is what fills every tick's orders", () => {
+    const { book } = bookWithBaseOrders("30", "10");
+    book.swap(TICK, ECs.fromString("20"), "quote -> base");
+
+    const depth = book.getRestingQtyIn("quote -> base");
+    assertEquals([...depth.keys()], [TICK]);
+    assertQty(depth.get(TICK)!, "20");
+
+    // the base orders don't take the base of the sellers
+    assertEquals(book.getRestingQtyIn("base -> quote").size, 0);
+
+    // and a fill of exactly that leaves nothing
+    const res = book.swap(TICK, depth.get(TICK)!, "quote -> base");
+    assertQty(res.reminderIn, "0");
+    assertQty(book.getTotalRestingQty("base"), "0");
+    assertEquals(book.getRestingQtyIn("quote -> base").size, 0);
+});
+
+Deno.test("clones don't share the orders", () => {
+    const {
+        book,
+        ids: [a],
+    } = bookWithBaseOrders("10");
+    const copy = book.clone();
+
+    copy.swap(TICK, ECs.fromString("10"), "quote -> base");
+
+    assert(copy.stats(a).isFilled);
+    assertQty(book.stats(a).filledQty, "0");
+});
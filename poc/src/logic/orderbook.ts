@@ -0,0 +1,479 @@
+import { ECs } from "./ecs.ts";
+import { type TickMath } from "./tick-math.ts";
+import { type Timestamp } from "./clock.ts";
+import { type Side, type SwapDirection, type TwoSided } from "./utils.ts";
+import { InvalidArgumentError, InvariantViolationError } from "./errors.ts";
+
+export type OrderId = number;
+
+/**
+ * Grows by one every time a tick moves on to its next batch.
+ */
+export type OrderBatchId = number;
+
+/**
+ * A resting limit order, that sells `qty` of `side` at the price of `tick`.
+ */
+export type Order = {
+    id: OrderId;
+    owner: string;
+    side: Side;
+    tick: number;
+    qty: ECs;
+    /** The batch of the tick the order was added to. */
+    batchId: OrderBatchId;
+    placedAt: Timestamp;
+};
+
+/**
+ * How much of an order is filled right now, see `Pool.orderStats`.
+ */
+export type OrderStats = Order & {
+    /** In the asset of `side`. */
+    filledQty: ECs;
+    /** What the order would get on cancellation: the unfilled part in `side` and the proceeds in the other asset. */
+    claimable: TwoSided<ECs>;
+    isFilled: boolean;
+};
+
+export type OrderFillResult = {
+    qtyOut: ECs;
+    reminderIn: ECs;
+};
+
+/**
+ * The orders of a single tick on a single side, in the asset of the side.
+ */
+type TickData = {
+    batchId: OrderBatchId;
+    nextBatchQty: ECs;
+    currentBatchTotalQty: ECs;
+    currentBatchFilledQty: ECs;
+    /** The input of the trades, that the makers of the tick haven't claimed yet, in the other asset. */
+    proceeds: ECs;
+    openOrders: number;
+};
+
+/**
+ * `OrderBook` as plain data, see `Pool.toState`. The ECs are kept in raw units.
+ */
+export type OrderBookState = {
+    ticks: Record<
+        Side,
+        {
+            tick: number;
+            batchId: OrderBatchId;
+            nextBatchQty: string;
+            currentBatchTotalQty: string;
+            currentBatchFilledQty: string;
+            proceeds: string;
+            openOrders: number;
+        }[]
+    >;
+    orders: (Omit<Order, "qty"> & { qty: string })[];
+    nextOrderId: OrderId;
+};
+
+/**
+ * Per-tick batched limit orders, mirrors `backend/can_pool/orderbook.mo`.
+ *
+ * The orders of a tick are filled in batches: an order joins the current batch of the tick while nothing of it
+ * is filled yet, and the next one otherwise. A batch is filled pro rata, so an order of the current batch
+ * gets its share of the filled quantity, and an order of any earlier batch is filled completely.
+ *
+ * Unlike the backend, the two sides are kept apart: the base orders are filled by `quote -> base` swaps
+ * and the quote orders - by `base -> quote` ones.
+ */
+export class OrderBook {
+    private _ticks: TwoSided<Map<number, TickData>> = {
+        base: new Map(),
+        quote: new Map(),
+    };
+    private _orders = new Map<OrderId, Order>();
+    private _nextOrderId: OrderId = 1;
+
+    constructor(private _tickMath: TickMath) {}
+
+    public clone(): OrderBook {
+        const b = new OrderBook(this._tickMath);
+
+        for (const side of ["base", "quote"] as const) {
+            for (const [tick, data] of this._ticks[side]) {
+                b._ticks[side].set(tick, {
+                    batchId: data.batchId,
+                    nextBatchQty: data.nextBatchQty.clone(),
+                    currentBatchTotalQty: data.currentBatchTotalQty.clone(),
+                    currentBatchFilledQty: data.currentBatchFilledQty.clone(),
+                    proceeds: data.proceeds.clone(),
+                    openOrders: data.openOrders,
+                });
+            }
+        }
+
+        for (const [id, order] of this._orders) {
+            b._orders.set(id, { ...order, qty: order.qty.clone() });
+        }
+        b._nextOrderId = this._nextOrderId;
+
+        return b;
+    }
+
+    public static fromState(
+        state: OrderBookState,
+        tickMath: TickMath
+    ): OrderBook {
+        const b = new OrderBook(tickMath);
+
+        for (const side of ["base", "quote"] as const) {
+            for (const it of state.ticks[side]) {
+                b._ticks[side].set(it.tick, {
+                    batchId: it.batchId,
+                    nextBatchQty: new ECs(BigInt(it.nextBatchQty)),
+                    currentBatchTotalQty: new ECs(
+                        BigInt(it.currentBatchTotalQty)
+                    ),
+                    currentBatchFilledQty: new ECs(
+                        BigInt(it.currentBatchFilledQty)
+                    ),
+                    proceeds: new ECs(BigInt(it.proceeds)),
+                    openOrders: it.openOrders,
+                });
+            }
+        }
+
+        for (const order of state.orders) {
+            b._orders.set(order.id, {
+                ...order,
+                qty: new ECs(BigInt(order.qty)),
+            });
+        }
+        b._nextOrderId = state.nextOrderId;
+
+        return b;
+    }
+
+    public toState(): OrderBookState {
+        const ticks = (side: Side) =>
+            [...this._ticks[side]].map(([tick, data]) => ({
+                tick,
+                batchId: data.batchId,
+                nextBatchQty: data.nextBatchQty.raw.toString(),
+                currentBatchTotalQty: data.currentBatchTotalQty.raw.toString(),
+                currentBatchFilledQty:
+                    data.currentBatchFilledQty.raw.toString(),
+                proceeds: data.proceeds.raw.toString(),
+                openOrders: data.openOrders,
+            }));
+
+        return {
+            ticks: { base: ticks("base"), quote: ticks("quote") },
+            orders: [...this._orders.values()].map((it) => ({
+                ...it,
+                qty: it.qty.raw.toString(),
+            })),
+            nextOrderId: this._nextOrderId,
+        };
+    }
+
+    /**
+     * `add_liquidity`
+     */
+    public place(args: {
+        side: Side;
+        tick: number;
+        qty: ECs;
+        owner: string;
+        placedAt: Timestamp;
+    }): OrderId {
+        let data = this._ticks[args.side].get(args.tick);
+        if (data === undefined) {
+            data = {
+                batchId: 0,
+                nextBatchQty: ECs.zero(),
+                currentBatchTotalQty: ECs.zero(),
+                currentBatchFilledQty: ECs.zero(),
+                proceeds: ECs.zero(),
+                openOrders: 0,
+            };
+            this._ticks[args.side].set(args.tick, data);
+        }
+
+        let batchId: OrderBatchId;
+        if (data.currentBatchFilledQty.isZero()) {
+            data.currentBatchTotalQty.addAssign(args.qty);
+            batchId = data.batchId;
+        } else {
+            data.nextBatchQty.addAssign(args.qty);
+            batchId = data.batchId + 1;
+        }
+        data.openOrders += 1;
+
+        const id = this._nextOrderId++;
+        this._orders.set(id, {
+            id,
+            owner: args.owner,
+            side: args.side,
+            tick: args.tick,
+            qty: args.qty.clone(),
+            batchId,
+            placedAt: args.placedAt,
+        });
+
+        return id;
+    }
+
+    public stats(orderId: OrderId): OrderStats {
+        const order = this.getOrder(orderId);
+        const { filledQty, proceeds } = this.settle(order);
+        const unfilledQty = order.qty.sub(filledQty);
+
+        return {
+            ...order,
+            qty: order.qty.clone(),
+            filledQty,
+            claimable: this.toTwoSided(order.side, unfilledQty, proceeds),
+            isFilled: unfilledQty.isZero(),
+        };
+    }
+
+    /**
+     * `remove_liquidity`, returns the unfilled part of the order and the proceeds of the filled one.
+     */
+    public cancel(orderId: OrderId): TwoSided<ECs> {
+        const order = this.getOrder(orderId);
+        const data = this.getTickData(order);
+        const { filledQty, proceeds } = this.settle(order);
+
+        if (order.batchId === data.batchId + 1) {
+            data.nextBatchQty.subAssign(order.qty);
+        } else if (order.batchId === data.batchId) {
+            data.currentBatchTotalQty.subAssign(order.qty);
+            data.currentBatchFilledQty.subAssign(filledQty);
+
+            // the pro rata shares are rounded down, so the last order of the batch leaves the dust behind
+            if (data.currentBatchTotalQty.isZero())
+                data.currentBatchFilledQty = ECs.zero();
+        }
+
+        data.proceeds.subAssign(proceeds);
+        data.openOrders -= 1;
+        if (data.openOrders === 0) this._ticks[order.side].delete(order.tick);
+
+        this._orders.delete(orderId);
+
+        return this.toTwoSided(order.side, order.qty.sub(filledQty), proceeds);
+    }
+
+    /**
+     * All open orders, or only the ones of the `owner`.
+     */
+    public orders(owner?: string): OrderId[] {
+        return [...this._orders.values()]
+            .filter((it) => owner === undefined || it.owner === owner)
+            .map((it) => it.id);
+    }
+
+    /**
+     * `swap_till_exhausted`, fills the orders of the tick the swap takes from, until either the input or the orders
+     * run out. The output is rounded down and the used input is rounded up, so the makers never lose on rounding.
+     */
+    public swap(
+        tick: number,
+        qtyIn: ECs,
+        direction: SwapDirection
+    ): OrderFillResult {
+        const side = makerSide(direction);
+        const data = this._ticks[side].get(tick);
+        const price = this.price(tick, otherSide(side));
+        const needOut = qtyIn.mul(price, "floor");
+
+        if (data === undefined || needOut.isZero())
+            return { qtyOut: ECs.zero(), reminderIn: qtyIn.clone() };
+
+        const qtyOut = ECs.zero();
+
+        // at most two batches are ever there, the current and the next one
+        do {
+            const remainderOut = data.currentBatchTotalQty.sub(
+                data.currentBatchFilledQty
+            );
+
+            if (remainderOut.ge(needOut)) {
+                data.currentBatchFilledQty.addAssign(needOut);
+                data.proceeds.addAssign(qtyIn);
+                qtyOut.addAssign(needOut);
+
+                return { qtyOut, reminderIn: ECs.zero() };
+            }
+
+            data.currentBatchFilledQty.addAssign(remainderOut);
+            qtyOut.addAssign(remainderOut);
+            needOut.subAssign(remainderOut);
+        } while (this.nextBatch(data));
+
+        let usedIn = qtyOut.div(price, "ceil");
+        if (usedIn.gt(qtyIn)) usedIn = qtyIn.clone();
+
+        data.proceeds.addAssign(usedIn);
+
+        return { qtyOut, reminderIn: qtyIn.sub(usedIn) };
+    }
+
+    /**
+     * The input `swap` needs to fill `qtyOut` (or as much of it as the orders of the tick have).
+     */
+    public getQtyInForQtyOut(
+        tick: number,
+        qtyOut: ECs,
+        direction: SwapDirection
+    ): ECs {
+        const side = makerSide(direction);
+        let out = this.getRestingQty(tick, side);
+        if (out.gt(qtyOut)) out = qtyOut.clone();
+
+        return out.div(this.price(tick, otherSide(side)), "ceil");
+    }
+
+    /**
+     * The unfilled quantity of the orders of the side at the tick.
+     */
+    public getRestingQty(tick: number, side: Side): ECs {
+        const data = this._ticks[side].get(tick);
+        if (data === undefined) return ECs.zero();
+
+        return data.currentBatchTotalQty
+            .sub(data.currentBatchFilledQty)
+            .add(data.nextBatchQty);
+    }
+
+    /**
+     * The input, that fills all the resting orders of a tick, for every tick the swaps in the direction take from.
+     */
+    public getRestingQtyIn(direction: SwapDirection): Map<number, ECs> {
+        const side = makerSide(direction);
+        const res = new Map<number, ECs>();
+
+        for (const tick of this._ticks[side].keys()) {
+            const qty = this.getRestingQty(tick, side);
+            if (qty.isZero()) continue;
+
+            res.set(tick, this.getQtyInForQtyOut(tick, qty, direction));
+        }
+
+        return res;
+    }
+
+    /**
+     * The unfilled quantity of all the orders of the side.
+     */
+    public getTotalRestingQty(side: Side): ECs {
+        const total = ECs.zero();
+
+        for (const tick of this._ticks[side].keys()) {
+            total.addAssign(this.getRestingQty(tick, side));
+        }
+
+        return total;
+    }
+
+    /**
+     * How much of the order is filled and what the filled part brought in.
+     */
+    private settle(order: Order): { filledQty: ECs; proceeds: ECs } {
+        const data = this.getTickData(order);
+
+        let filledQty: ECs;
+        if (order.batchId === data.batchId + 1) {
+            filledQty = ECs.zero();
+        } else if (order.batchId === data.batchId) {
+            filledQty = data.currentBatchTotalQty.isZero()
+                ? ECs.zero()
+                : data.currentBatchFilledQty
+                      .mul(order.qty)
+                      .div(data.currentBatchTotalQty, "floor");
+            if (filledQty.gt(order.qty)) filledQty = order.qty.clone();
+        } else if (order.batchId < data.batchId) {
+            filledQty = order.qty.clone();
+        } else {
+            throw this.violation(
+                `The order #${order.id} is in batch ${order.batchId}, but the tick is only at ${data.batchId}`
+            );
+        }
+
+        // the last order of the tick takes the rounding dust as well
+        let proceeds =
+            data.openOrders === 1
+                ? data.proceeds.clone()
+                : filledQty.mul(this.price(order.tick, order.side), "floor");
+        if (proceeds.gt(data.proceeds)) proceeds = data.proceeds.clone();
+
+        return { filledQty, proceeds };
+    }
+
+    /**
+     * Moves the tick on to its next batch, if there is one.
+     */
+    private nextBatch(data: TickData): boolean {
+        if (data.nextBatchQty.isZero()) return false;
+
+        data.currentBatchTotalQty = data.nextBatchQty;
+        data.currentBatchFilledQty = ECs.zero();
+        data.nextBatchQty = ECs.zero();
+        data.batchId += 1;
+
+        return true;
+    }
+
+    /**
+     * The price of `side` in the other asset.
+     */
+    private price(tick: number, side: Side): ECs {
+        return this._tickMath.price(tick, side, "reserve");
+    }
+
+    private toTwoSided(side: Side, qty: ECs, proceeds: ECs): TwoSided<ECs> {
+        return side === "base"
+            ? { base: qty, quote: proceeds }
+            : { base: proceeds, quote: qty };
+    }
+
+    private getOrder(orderId: OrderId): Order {
+        const order = this._orders.get(orderId);
+
+        if (order === undefined)
+            throw new InvalidArgumentError({
+                argument: "orderId",
+                detail: `there is no order #${orderId}`,
+            });
+
+        return order;
+    }
+
+    private getTickData(order: Order): TickData {
+        const data = this._ticks[order.side].get(order.tick);
+        if (data === undefined)
+            throw this.violation(
+                `There is no tick ${order.tick} of the order #${order.id}`
+            );
+
+        return data;
+    }
+
+    private violation(detail: string) {
+        return new InvariantViolationError({
+            component: "OrderBook",
+            detail,
+        });
+    }
+}
+
+/**
+ * The side of the orders the swap fills, the one it takes out of the pool.
+ */
+export function makerSide(direction: SwapDirection): Side {
+    return direction === "base -> quote" ? "quote" : "base";
+}
+
+function otherSide(side: Side): Side {
+    return side === "base" ? "quote" : "base";
+}
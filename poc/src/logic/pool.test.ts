@@ -0,0 +1,675 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { Pool, type StretchAnchor } from "./pool.ts";
+import { TickMath } from "./tick-math.ts";
+import {
+    ClosestFirstRecovery,
+    ProportionalRecovery,
+    WorstFirstRecovery,
+} from "./recovery-strategy.ts";
+import {
+    InsufficientLiquidityError,
+    InvalidArgumentError,
+    SlippageExceededError,
+} from "./errors.ts";
+import {
+    DEFAULT_STABLE_AMM_CUT,
+    defaultLayers,
+    layersWithBand,
+} from "./layer.ts";
+import { type SwapDirection } from "./utils.ts";
+import { SimulatedClock } from "./clock.ts";
+import { LAMBDA_3 } from "./lambda.ts";
+import { BTC, USDT } from "./asset.ts";
+import { makePool } from "./test-utils.ts";
+
+function assertExactOut(pool: Pool, qty: string, direction: SwapDirection) {
+    const qtyOut = ECs.fromString(qty);
+    const res = pool.swapExactOut({ qtyOut, direction });
+
+    assert(res.qtyOut.ge(qtyOut), `${direction} got ${res.qtyOut} < ${qty}`);
+    assert(res.qtyInUnfilled.isZero());
+}
+
+Deno.test("exact-out swaps get at least what is asked for", () => {
+    const pool = makePool();
+
+    assertExactOut(pool, "50000", "base -> quote");
+    assertExactOut(pool, "1.5", "quote -> base");
+    assertExactOut(pool, "3", "quote -> base");
+    assertExactOut(pool, "120000", "base -> quote");
+});
+
+Deno.test("exact-out swaps of dust don't leave a tick early", () => {
+    const pool = makePool({ recoveryStrategy: new ProportionalRecovery() });
+    const dust = "0.00000000000000000000000000001234";
+
+    // fills the recovery bins of both sides
+    for (let i = 0; i < 6; i++) {
+        pool.swap({
+            qtyIn: ECs.fromString("2"),
+            direction: "base -> quote",
+        });
+        pool.swap({
+            qtyIn: ECs.fromString("150000"),
+            direction: "quote -> base",
+        });
+
+        assertExactOut(pool, dust, "base -> quote");
+        assertExactOut(pool, dust, "quote -> base");
+    }
+});
+
+Deno.test(
+    "an exact-out swap beyond the liquidity leaves the pool untouched",
+    () => {
+        const pool = makePool(undefined, new TickMath({ maxTick: 120000 }));
+        const before = pool.curAbsoluteTick;
+
+        assertThrows(
+            () =>
+                pool.swapExactOut({
+                    qtyOut: ECs.fromString("1000"),
+                    direction: "quote -> base",
+                }),
+            InsufficientLiquidityError
+        );
+        assert(pool.curAbsoluteTick === before);
+    }
+);
+
+Deno.test("the stable AMM cut can't be set together with the layers", () => {
+    assertThrows(
+        () =>
+            makePool({
+                stableAmmCut: ECs.fromString("0.3"),
+                layers: defaultLayers(),
+            }),
+        InvalidArgumentError
+    );
+});
+
+for (const Strategy of [
+    WorstFirstRecovery,
+    ClosestFirstRecovery,
+    ProportionalRecovery,
+]) {
+    for (const holdLeftover of [false, true]) {
+        Deno.test(
+            `rounding in swaps never makes the overall reserve go down (${Strategy.name}, holdLeftover: ${holdLeftover})`,
+            () => {
+                const pool = makePool({
+                    recoveryStrategy: new Strategy({ holdLeftover }),
+                });
+                let seed = 7;
+                const random = () => {
+                    seed = (seed * 1103515245 + 12345) % 2147483648;
+                    return seed / 2147483648;
+                };
+
+                let before = pool.overallReserve;
+
+                for (let i = 0; i < 500; i++) {
+                    const direction: SwapDirection =
+                        random() < 0.5 ? "base -> quote" : "quote -> base";
+                    const qty =
+                        direction === "base -> quote"
+                            ? (random() * 2).toFixed(8)
+                            : (random() * 150000).toFixed(6);
+
+                    pool.swap({ qtyIn: ECs.fromString(qty), direction });
+
+                    const after = pool.overallReserve;
+                    const when = `${i}: ${direction} of ${qty}`;
+                    assert(after.base.ge(before.base), when);
+                    assert(after.quote.ge(before.quote), when);
+
+                    before = after;
+                }
+            }
+        );
+    }
+}
+
+Deno.test(
+    "the deposited reserves are the ones of the stretching layers",
+    () => {
+        const pool = makePool();
+        const { base, quote } = pool.stats;
+        const stretchingCut = ECs.one().sub(DEFAULT_STABLE_AMM_CUT);
+
+        assert(
+            pool.depositedReserves.base.eq(
+                base.depositedReserve.mul(stretchingCut)
+            )
+        );
+        assert(
+            pool.depositedReserves.quote.eq(
+                quote.depositedReserve.mul(stretchingCut)
+            )
+        );
+    }
+);
+
+Deno.test("a pool restored from its state trades like the original one", () => {
+    const clock = new SimulatedClock();
+    const tickMath = new TickMath();
+    const params = { clock, inventoryShape: "piecewise-linear" as const };
+    const pool = makePool(
+        {
+            ...params,
+            protocolFee: ECs.fromString("0.1"),
+            feeDecay: {
+                halfLife: 3600,
+                floor: ECs.fromString("0.001"),
+                recoveryVolume: ECs.fromString("100000"),
+            },
+        },
+        tickMath
+    );
+
+    pool.deposit("quote", ECs.fromString("50000"), "lp", LAMBDA_3);
+    pool.placeOrder("base", pool.curAbsoluteTick + 600, ECs.fromString("1"));
+    for (let i = 0; i < 4; i++) {
+        clock.advance(600);
+        pool.swap({ qtyIn: ECs.fromString("2"), direction: "base -> quote" });
+        pool.swap({
+            qtyIn: ECs.fromString("50000"),
+            direction: "quote -> base",
+        });
+    }
+
+    const state = pool.toState();
+    const restored = Pool.fromState(
+        JSON.parse(JSON.stringify(state)),
+        tickMath,
+        params
+    );
+    assertEquals(restored.toState(), state);
+
+    clock.advance(600);
+    for (const direction of ["base -> quote", "quote -> base"] as const) {
+        const qtyIn = ECs.fromString(
+            direction === "base -> quote" ? "3" : "250000"
+        );
+
+        assertEquals(
+            restored.swap({ qtyIn, direction }),
+            pool.swap({ qtyIn, direction })
+        );
+    }
+    assertEquals(restored.toState(), pool.toState());
+
+    assertThrows(
+        () => Pool.fromState(state, tickMath, { clock, layers: [] }),
+        InvalidArgumentError
+    );
+});
+
+Deno.test("a swap stops at the limit tick and returns the rest", () => {
+    const pool = makePool();
+    const qtyIn = ECs.fromString("50");
+    const direction = "base -> quote";
+    const limitTick = pool.curAbsoluteTick - 50;
+
+    const expected = pool.quote({ qtyIn, direction, limitTick });
+    const res = pool.swap({ qtyIn, direction, limitTick });
+    assert(res.qtyOut.eq(expected.qtyOut));
+    assert(res.qtyInUnfilled.eq(expected.qtyInUnfilled));
+    assertEquals(pool.curAbsoluteTick, expected.postTradeTick);
+
+    assert(pool.curAbsoluteTick >= limitTick);
+    assert(res.qtyOut.isPositive());
+    assert(res.qtyInUnfilled.isPositive());
+    // the fees are only taken from the filled part
+    assert(
+        res.feesIn.le(
+            qtyIn
+                .sub(res.qtyInUnfilled)
+                .mul(res.feeFactor, "ceil")
+                .add(new ECs(1n))
+        )
+    );
+
+    // past the limit already, nothing is swapped
+    const tick = pool.curAbsoluteTick;
+    const again = pool.swap({ qtyIn, direction, limitTick: tick + 10 });
+    assert(again.qtyOut.isZero());
+    assert(again.qtyInUnfilled.eq(qtyIn));
+    assertEquals(pool.curAbsoluteTick, tick);
+});
+
+Deno.test("a swap that runs out of liquidity returns the rest", () => {
+    const pool = makePool(undefined, new TickMath({ maxTick: 120000 }));
+    const qtyIn = ECs.fromString("1e9");
+
+    const res = pool.swap({ qtyIn, direction: "quote -> base" });
+
+    assert(res.qtyOut.isPositive());
+    assert(res.qtyOut.le(ECs.fromString("100")));
+    assert(res.qtyInUnfilled.isPositive());
+});
+
+Deno.test("minQtyOut is checked against the partial fill", () => {
+    const pool = makePool();
+    const qtyIn = ECs.fromString("50");
+    const direction = "base -> quote";
+    const limitTick = pool.curAbsoluteTick - 50;
+    const tick = pool.curAbsoluteTick;
+
+    const { qtyOut } = pool.quote({ qtyIn, direction, limitTick });
+
+    assertThrows(
+        () =>
+            pool.swap({
+                qtyIn,
+                direction,
+                limitTick,
+                minQtyOut: qtyOut.add(new ECs(1n)),
+            }),
+        SlippageExceededError
+    );
+    assertEquals(pool.curAbsoluteTick, tick);
+
+    const res = pool.swap({ qtyIn, direction, limitTick, minQtyOut: qtyOut });
+    assert(res.qtyOut.eq(qtyOut));
+    assert(res.qtyInUnfilled.isPositive());
+});
+
+/**
+ * A crash through all of the drifting bids, then a bounce, so there is a gap between the current tick
+ * and the inventory of the quote AMMs.
+ */
+function afterCrash(stretchAnchor: StretchAnchor) {
+    const pool = new Pool(
+        114445,
+        100,
+        { base: BTC, quote: USDT },
+        new TickMath(),
+        true,
+        {
+            baseQty: ECs.fromString("100"),
+            quoteQty: ECs.fromString("9_000_000"),
+        },
+        { stretchAnchor }
+    );
+
+    for (let i = 0; i < 12; i++) {
+        pool.swap({ qtyIn: ECs.fromString("10"), direction: "base -> quote" });
+    }
+    pool.swap({ qtyIn: ECs.fromString("100000"), direction: "quote -> base" });
+
+    return pool;
+}
+
+Deno.test(
+    "the stretching reserves anchor to the best or the worst inventory tick",
+    () => {
+        const worst = afterCrash("worst");
+        const best = afterCrash("best");
+
+        const w = worst.liquidityDigest;
+        const b = best.liquidityDigest;
+        assertEquals(w.stretch.anchor, "worst");
+        assertEquals(b.stretch.anchor, "best");
+
+        // the asks stretch up to the inventory of the bids (the highest tick is the worst one),
+        // the best anchor - past the gap to it
+        const wInventory = w.layers.drifting.quote.inventory;
+        const bInventory = b.layers.drifting.quote.inventory;
+        const wTarget = w.stretch.target.base!;
+        const bTarget = b.stretch.target.base!;
+
+        assertEquals(wTarget, wInventory[wInventory.length - 1].getWorst());
+        assertEquals(bTarget, bInventory[0].getBest());
+        assert(bTarget > best.curAbsoluteTick + 100);
+        assert(bTarget < wTarget);
+        assertEquals(w.layers.drifting.base.reserve?.getWorst(), wTarget);
+        assertEquals(b.layers.drifting.base.reserve?.getWorst(), bTarget);
+
+        // so the best anchor keeps more depth next to the price
+        const qtyIn = ECs.fromString("200000");
+        const direction = "quote -> base";
+        assert(
+            best
+                .swap({ qtyIn, direction })
+                .qtyOut.gt(worst.swap({ qtyIn, direction }).qtyOut)
+        );
+    }
+);
+
+Deno.test("the protocol takes its share of the fees to the treasury", () => {
+    const pool = makePool({ protocolFee: ECs.fromString("0.2") });
+    const qtyIn = ECs.fromString("1");
+
+    const sell = pool.swap({ qtyIn, direction: "base -> quote" });
+    const buy = pool.swap({ qtyIn, direction: "quote -> base" });
+
+    for (const res of [sell, buy]) {
+        const layers = Object.values(res.feesInByLayer).reduce(
+            (acc, it) => acc.add(it),
+            ECs.zero()
+        );
+
+        assert(res.protocolFeesIn.isPositive());
+        assert(
+            res.protocolFeesIn.eq(
+                res.feesIn.mul(ECs.fromString("0.2"), "floor")
+            )
+        );
+        assert(layers.eq(res.feesIn.sub(res.protocolFeesIn)));
+    }
+
+    // the treasury keeps the fees in the asset they were paid in
+    assert(pool.stats.base.protocolFees.eq(sell.protocolFeesIn));
+    assert(pool.stats.quote.protocolFees.eq(buy.protocolFeesIn));
+
+    const collected = pool.collectProtocolFees();
+    assert(collected.base.eq(sell.protocolFeesIn));
+    assert(collected.quote.eq(buy.protocolFeesIn));
+    assert(pool.stats.base.protocolFees.isZero());
+    assert(pool.stats.quote.protocolFees.isZero());
+});
+
+Deno.test("without a protocol fee the layers get all of it", () => {
+    const pool = makePool();
+    const res = pool.swap({
+        qtyIn: ECs.fromString("1"),
+        direction: "base -> quote",
+    });
+
+    assert(pool.protocolFee.isZero());
+    assert(res.protocolFeesIn.isZero());
+    assert(
+        Object.values(res.feesInByLayer)
+            .reduce((acc, it) => acc.add(it), ECs.zero())
+            .eq(res.feesIn)
+    );
+    assert(pool.collectProtocolFees().base.isZero());
+});
+
+Deno.test("the protocol fee is a share", () => {
+    const pool = makePool();
+
+    pool.setProtocolFee(ECs.one());
+    assert(pool.protocolFee.eq(ECs.one()));
+
+    assertThrows(
+        () => pool.setProtocolFee(ECs.fromString("1.01")),
+        InvalidArgumentError
+    );
+    assertThrows(
+        () => pool.setProtocolFee(ECs.fromString("-0.1")),
+        InvalidArgumentError
+    );
+    assertThrows(
+        () => makePool({ protocolFee: ECs.fromString("2") }),
+        InvalidArgumentError
+    );
+    assert(pool.protocolFee.eq(ECs.one()));
+});
+
+/** Every tick the pool keeps liquidity at or trades from has to be a usable one. */
+function assertAligned(pool: Pool, when: string) {
+    const spacing = pool.tickMath.tickSpacing;
+    const ticks = [pool.curAbsoluteTick];
+
+    for (const { amm } of pool.toState().layers) {
+        for (const { currentTick, liquidity } of [amm.base, amm.quote]) {
+            ticks.push(currentTick.index);
+            if (liquidity.reserve)
+                ticks.push(liquidity.reserve.left, liquidity.reserve.right);
+            for (const it of liquidity.inventory) ticks.push(it.left, it.right);
+        }
+    }
+
+    for (const tick of ticks)
+        assert(tick % spacing === 0, `${when}: tick ${tick} is not aligned`);
+}
+
+for (const tickSpacing of [8, 64]) {
+    Deno.test(
+        `a pool with tick spacing ${tickSpacing} only crosses usable ticks`,
+        () => {
+            const pool = makePool(undefined, new TickMath({ tickSpacing }));
+            assertEquals(pool.curAbsoluteTick, pool.tickMath.align(114445));
+            assertAligned(pool, "created");
+
+            const start = pool.curAbsoluteTick;
+            const sell = pool.swap({
+                qtyIn: ECs.fromString("20"),
+                direction: "base -> quote",
+            });
+            const low = pool.curAbsoluteTick;
+            assert(low < start);
+            assertAligned(pool, "sold");
+
+            // the reversal buys from the inventory the sell has left behind
+            pool.swap({ qtyIn: sell.qtyOut, direction: "quote -> base" });
+            assert(pool.curAbsoluteTick > low);
+            assert(pool.curAbsoluteTick <= start);
+            assertAligned(pool, "bought back");
+
+            const id = pool.deposit("quote", ECs.fromString("100_000"));
+            pool.swap({
+                qtyIn: ECs.fromString("3"),
+                direction: "base -> quote",
+            });
+            assertAligned(pool, "sold after the deposit");
+
+            const receipt = pool.withdraw(id, ECs.one());
+            assert(receipt.total.base.isPositive());
+            assert(receipt.total.quote.isPositive());
+            assertAligned(pool, "withdrawn");
+        }
+    );
+}
+
+Deno.test("the delayed drift ends up where the instant one does", () => {
+    // within the tick span the reserve can't follow the price, past it the drifting layer has to stretch
+    for (const push of ["5_000_000", "10_000_000"]) {
+        const instantClock = new SimulatedClock();
+        const delayedClock = new SimulatedClock();
+        const instant = makePool({ clock: instantClock });
+        const delayed = makePool({
+            clock: delayedClock,
+            drift: {
+                mode: "delayed",
+                interval: 600,
+                fraction: ECs.fromString("0.1"),
+            },
+        });
+
+        const reserves = (pool: Pool) =>
+            pool
+                .toState()
+                .layers.map(({ amm }) => [
+                    amm.base.liquidity.reserve,
+                    amm.quote.liquidity.reserve,
+                ]);
+
+        for (const pool of [instant, delayed]) {
+            pool.swap({
+                qtyIn: ECs.fromString(push),
+                direction: "quote -> base",
+            });
+        }
+
+        // a day later, the next swap lets the delayed drift catch up
+        instantClock.advance(86_400);
+        delayedClock.advance(86_400);
+        for (const pool of [instant, delayed]) {
+            pool.swap({
+                qtyIn: ECs.fromString("0.0001"),
+                direction: "base -> quote",
+            });
+        }
+
+        assertEquals(reserves(delayed), reserves(instant), `push ${push}`);
+    }
+});
+
+Deno.test("the band reserve never stretches after the price", () => {
+    const pool = makePool({
+        stretchAnchor: "best",
+        layers: layersWithBand({ tickSpan: 200, cut: ECs.fromString("0.2") }),
+    });
+    const worstEdges = (name: string) => {
+        const { base, quote } = pool.liquidityDigest.layers[name];
+        return [base.reserve?.getWorst(), quote.reserve?.getWorst()];
+    };
+
+    const band = worstEdges("band");
+    const drifting = worstEdges("drifting");
+    assertEquals(band, [114445 + 201, 114445 - 201]);
+
+    let drifted = false;
+    for (const [qtyIn, direction] of [
+        ["3_000_000", "quote -> base"],
+        ["40", "base -> quote"],
+        ["2_000_000", "quote -> base"],
+    ] as const) {
+        pool.swap({ qtyIn: ECs.fromString(qtyIn), direction });
+
+        assertEquals(worstEdges("band"), band);
+        drifted ||= worstEdges("drifting").some((it, i) => it !== drifting[i]);
+    }
+
+    // the same swaps did move the stretching reserve
+    assert(drifted);
+});
+
+Deno.test("the pool adds up all three layers of a band pool", () => {
+    // as long as nothing drifts, a band as wide as the tick span is a part of the drifting layer split off,
+    // so the three layers have to add up to the default pool, up to the rounding
+    const banded = makePool({
+        layers: layersWithBand({ tickSpan: 1000, cut: ECs.fromString("0.3") }),
+    });
+    const plain = makePool();
+    const bound = ECs.fromString("1e-18");
+    const assertSame = (a: ECs, b: ECs, what: string) =>
+        assert(a.sub(b).abs().le(bound), `${what}: ${a} != ${b}`);
+
+    for (const [qtyIn, direction] of [
+        ["3_000_000", "quote -> base"],
+        ["40", "base -> quote"],
+    ] as const) {
+        const args = { qtyIn: ECs.fromString(qtyIn), direction };
+        const a = banded.swap(args);
+        const b = plain.swap(args);
+
+        assertSame(a.qtyOut, b.qtyOut, "qtyOut");
+        assertSame(a.feesIn, b.feesIn, "feesIn");
+        assertEquals(Object.keys(a.feesInByLayer), [
+            "stable",
+            "band",
+            "drifting",
+        ]);
+        assertSame(
+            a.feesInByLayer.band.add(a.feesInByLayer.drifting),
+            b.feesInByLayer.drifting,
+            "drifting fees"
+        );
+        assertEquals(banded.curAbsoluteTick, plain.curAbsoluteTick);
+    }
+
+    for (const side of ["base", "quote"] as const) {
+        const a = banded.stats[side];
+        const b = plain.stats[side];
+
+        for (const key of [
+            "depositedReserve",
+            "actualReserve",
+            "actualInventory",
+            "respectiveReserve",
+            "collateral",
+        ] as const) {
+            assertSame(a[key], b[key], `${side} ${key}`);
+        }
+
+        assertSame(banded.il[side], plain.il[side], `${side} il`);
+
+        const digestA = banded.liquidityDigest;
+        const digestB = plain.liquidityDigest;
+        assertSame(
+            digestA.currentTick[side],
+            digestB.currentTick[side],
+            `${side} current tick`
+        );
+        assertSame(
+            digestA.recoveryBinCollateral[side],
+            digestB.recoveryBinCollateral[side],
+            `${side} recovery bin collateral`
+        );
+    }
+});
+
+Deno.test("a drained reserve range comes back past the current tick", () => {
+    // with the recovery bins held back, only the reversal itself puts the reserve back
+    const pool = makePool({
+        recoveryLimiter: {
+            alternate: true,
+            perTick: {
+                maxIn: { base: ECs.zero(), quote: ECs.zero() },
+                window: 3600,
+            },
+        },
+        layers: layersWithBand({ tickSpan: 50, cut: ECs.fromString("0.2") }),
+    });
+    const bandReserve = () => pool.liquidityDigest.layers.band.base.reserve;
+    const swap = (qtyIn: string, direction: SwapDirection) => {
+        const res = pool.swap({ qtyIn: ECs.fromString(qtyIn), direction });
+        assert(res.qtyInUnfilled.isZero(), `${direction} of ${qtyIn}`);
+    };
+
+    swap("4_000_000", "quote -> base");
+    assertEquals(bandReserve(), undefined);
+
+    swap("10", "base -> quote");
+    assertEquals(bandReserve()?.getBest(), pool.curAbsoluteTick + 1);
+
+    // the way back up crosses the re-created range tick by tick
+    const before = pool.curAbsoluteTick;
+    swap("4_000_000", "quote -> base");
+    assert(pool.curAbsoluteTick > before);
+});
+
+Deno.test("the resting orders of a tick fill before the AMMs", () => {
+    const pool = makePool();
+    const cur = pool.curAbsoluteTick;
+    const id = pool.placeOrder("base", cur, ECs.fromString("1"), "maker");
+    const amms = () => pool.stats.base.actualReserve;
+    const before = amms();
+
+    // the order alone covers the swap, so the AMMs are left untouched
+    const small = pool.swap({
+        qtyIn: ECs.fromString("10000"),
+        direction: "quote -> base",
+    });
+    assert(small.orderBookQtyOut.isPositive());
+    assert(small.orderBookQtyOut.eq(small.qtyOut));
+    assert(amms().eq(before));
+    assertEquals(pool.curAbsoluteTick, cur);
+
+    // the rest of the order goes first, the AMMs get what is left of the input
+    const big = pool.swap({
+        qtyIn: ECs.fromString("200000"),
+        direction: "quote -> base",
+    });
+    const filled = small.orderBookQtyOut.add(big.orderBookQtyOut);
+    assert(filled.almostEq(ECs.fromString("1")), `${filled}`);
+    assert(big.qtyOut.gt(big.orderBookQtyOut));
+    assert(amms().lt(before));
+
+    // the maker claims the proceeds of both fills
+    const stats = pool.orderStats(id);
+    assert(stats.filledQty.eq(filled));
+    assert(stats.claimable.base.eq(ECs.one().sub(filled)));
+
+    const price = pool.tickMath.price(cur, "base", "reserve");
+    const proceeds = pool.cancelOrder(id);
+    assert(proceeds.base.eq(stats.claimable.base));
+    assert(proceeds.quote.eq(stats.claimable.quote));
+    assert(proceeds.quote.ge(filled.mul(price, "floor")));
+    assertEquals(pool.orders("maker"), []);
+});
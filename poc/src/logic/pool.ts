@@ -1,21 +1,152 @@
-import { AMM } from "./amm.ts";
+import { AMM, type AMMState, type WithdrawResult } from "./amm.ts";
 import { Beacon } from "./beacon.ts";
-import { absoluteTickToPrice, BASE_PRICE, ECs } from "./ecs.ts";
+import { ECs } from "./ecs.ts";
 import {
-    panic,
     type TwoSided,
     type SwapDirection,
     type AMMSwapDirection,
+    type Side,
 } from "./utils.ts";
 import { Range } from "./range.ts";
-
-const STABLE_AMM_CUT = ECs.fromString("0.05");
-const MIN_FEES = ECs.fromString("0.0001");
-const MAX_FEES = ECs.fromString("0.1");
+import { type RangeShape } from "./range-shape.ts";
+import { type Asset } from "./asset.ts";
+import { TickMath } from "./tick-math.ts";
+import {
+    DefaultFeeModel,
+    type FeeModel,
+    type RecentSwap,
+} from "./fee-model.ts";
+import {
+    FeeDecay,
+    type FeeDecayParams,
+    type FeeDecayState,
+} from "./fee-decay.ts";
+import { type RecoveryLimiterParams } from "./recovery-bin.ts";
+import {
+    type RecoveryStrategy,
+    WorstFirstRecovery,
+} from "./recovery-strategy.ts";
+import { type Clock, SystemClock, type Timestamp } from "./clock.ts";
+import {
+    DEFAULT_ORACLE_CARDINALITY,
+    Oracle,
+    type ObserveResult,
+    type OracleState,
+} from "./oracle.ts";
+import {
+    estimatePriceImpact,
+    type PriceImpactEstimate,
+} from "./price-impact.ts";
+import {
+    InsufficientLiquidityError,
+    InvalidArgumentError,
+    InvariantViolationError,
+    PriceImpactExceededError,
+    SlippageExceededError,
+} from "./errors.ts";
+import {
+    DEFAULT_OWNER,
+    Position,
+    type PositionId,
+    type PositionState,
+    type PositionStats,
+} from "./position.ts";
+import {
+    defaultLayers,
+    isLambdaLayer,
+    lambdaLayer,
+    splitByShares,
+    validateLayers,
+    type LayerName,
+    type LayerParams,
+} from "./layer.ts";
+import {
+    BUCKET_COUNT,
+    bucketIdxByLambda,
+    lambdaDecay,
+    lambdaTickSpan,
+    type Lambda,
+} from "./lambda.ts";
+import {
+    Liquidity,
+    type InventoryShape,
+    type LiquidityShapes,
+} from "./liquidity.ts";
+import {
+    makerSide,
+    OrderBook,
+    type OrderBookState,
+    type OrderId,
+    type OrderStats,
+} from "./orderbook.ts";
+
+/** How many of the latest swaps are kept for the fee model. */
+const RECENT_SWAPS = 100;
+
+/**
+ * How the reserves of the stretching layers follow the worst inventory tick of the other side.
+ * - `instant` - right after every swap, the reserve edge jumps to the target, unless that leaves the reserve
+ *   narrower than the tick span, then it stays where it is.
+ * - `delayed` - every `interval` seconds, the reserve edge moves the `fraction` of the remaining distance
+ *   to where the instant drift would put it (but at least one tick), so it converges exponentially to the same
+ *   state and can't be yanked back and forth within a single block (risk analysis, 3A).
+ */
+export type DriftParams =
+    | { mode: "instant" }
+    | { mode: "delayed"; interval: number; fraction: ECs };
+
+/**
+ * Which inventory tick of the other side the drifting reserves stretch to.
+ * - `worst` - the most underwater one, so the reserve covers all of the inventory, but gets thinner per tick.
+ * - `best` - the closest to break-even one (past the gap between the current tick and the inventory, if any),
+ *   so the reserve stays deep, but doesn't cover the rest of the inventory (risk analysis 1A, mitigation 1).
+ */
+export type StretchAnchor = "worst" | "best";
+
+/**
+ * Pool-level parameters, the defaults are used for the missing ones.
+ */
+export type PoolParams = {
+    /** The share of every deposit and of every fee that goes to the stable layer, can't be set together with `layers`. */
+    stableAmmCut?: ECs;
+    /** The layers in the order they are swapped with, see `defaultLayers`. */
+    layers?: LayerParams[];
+    feeModel?: FeeModel;
+    /** Lowers the fees while nobody trades, the fees never decay when not set. */
+    feeDecay?: FeeDecayParams;
+    /** The wall-clock time by default. */
+    clock?: Clock;
+    /** How many observations the price oracle keeps. */
+    oracleCardinality?: number;
+    /** `instant` by default. */
+    drift?: DriftParams;
+    /** `worst` by default. */
+    stretchAnchor?: StretchAnchor;
+    /** How the inventory of every layer is kept, `uniform` by default. */
+    inventoryShape?: InventoryShape;
+    /** The share of every fee that goes to the protocol treasury, before the rest is split between the layers, 0 by default. */
+    protocolFee?: ECs;
+    /** `WorstFirstRecovery` by default. */
+    recoveryStrategy?: RecoveryStrategy;
+    /** The recovery bins sell as much as they can at once, when not set. */
+    recoveryLimiter?: RecoveryLimiterParams;
+};
 
 export type SwapArgs = {
     qtyIn: ECs;
     direction: SwapDirection;
+    /** The least the trader is willing to receive, otherwise the swap is reverted. */
+    minQtyOut?: ECs;
+    /**
+     * The last tick the swap is allowed to trade at (the lowest one for `base -> quote`, the highest one for `quote -> base`).
+     * Whatever can't be swapped before it is returned to the trader.
+     */
+    limitTick?: number;
+    /**
+     * The most (absolute) ticks the swap may move the price, otherwise it is reverted.
+     * Unlike `limitTick`, nothing is swapped then.
+     */
+    maxImpactTicks?: number;
 };
 
 export type SwapResult = {
@@ -23,212 +154,1353 @@ export type SwapResult = {
     feeFactor: ECs;
     feesIn: ECs;
     slippage: ECs;
+    /**
+     * The part of `qtyIn` that was not swapped because of `limitTick`, or because the pool ran out of liquidity,
+     * fees are not taken from it.
+     */
+    qtyInUnfilled: ECs;
+    /** The part of `feesIn` that went to the protocol treasury. */
+    protocolFeesIn: ECs;
+    /** How the rest of `feesIn` is split between the layers. */
+    feesInByLayer: Record<LayerName, ECs>;
+    /** The part of `qtyOut` sold from the recovery bins, subsidized by the collected fees. */
+    recoveredQtyOut: ECs;
+    /** The part of the input filled at the normal price, because the recovery limiter held the recovery bins back. */
+    recoveryDeferredIn: ECs;
+    /** The part of `qtyOut` that came from the resting limit orders. */
+    orderBookQtyOut: ECs;
+    /** The decay multiplier of the fee factor (the floor aside), 1 when the fees don't decay. */
+    feeDecay: ECs;
+    timestamp: Timestamp;
+};
+
+/**
+ * Where the withdrawn liquidity comes from.
+ */
+export type WithdrawSource =
+    | "reserveRange"
+    | "inventoryRanges"
+    | "currentTick"
+    | "collateral";
+
+/**
+ * What an LP receives on a withdrawal, in both assets.
+ */
+export type WithdrawReceipt = {
+    positionId: PositionId;
+    /** The side of the position, its reserve asset. */
+    side: Side;
+    timestamp: Timestamp;
+    total: TwoSided<ECs>;
+    layers: Record<LayerName, Record<WithdrawSource, TwoSided<ECs>>>;
+};
+
+export type QuoteResult = SwapResult & {
+    /** How many usable ticks the price moves. */
+    ticksCrossed: number;
+    /** The average price of the swap (fees included), in quote per base. */
+    executionPrice: ECs;
+    /** The current tick after the swap. */
+    postTradeTick: number;
+};
+
+export type SwapExactOutArgs = {
+    /** How much the trader wants to receive. */
+    qtyOut: ECs;
+    direction: SwapDirection;
+    /** The most the trader is willing to pay, fees included. */
+    maxQtyIn?: ECs;
+};
+
+export type SwapExactOutResult = SwapResult & {
+    /** How much the trader has paid, fees included. */
+    qtyIn: ECs;
+};
+
+/**
+ * Everything a pool has accumulated with the deposits, swaps and orders as plain data (e.g. to be stored as JSON),
+ * see `Pool.toState`. The ECs are kept in raw units.
+ */
+export type PoolState = {
+    curTick: number;
+    tickSpan: number;
+    assets: TwoSided<Asset>;
+    /** In the order of the pool's layers, the lambda buckets have their `lambda`. */
+    layers: { name: LayerName; lambda?: string; amm: TwoSided<AMMState> }[];
+    positions: PositionState[];
+    nextPositionId: PositionId;
+    recentSwaps: (Omit<RecentSwap, "quoteVolume"> & { quoteVolume: string })[];
+    feeDecay?: FeeDecayState;
+    oracle: OracleState;
+    lastDriftAt: Timestamp;
+    protocolFee: string;
+    treasury: TwoSided<string>;
+    orderBook: OrderBookState;
+};
+
+/**
+ * The base and the quote AMMs of a layer.
+ */
+type Layer = {
+    params: LayerParams;
+    amm: TwoSided<AMM>;
+};
+
+/**
+ * What a walk over the ticks has swapped, before the fees.
+ */
+type WalkResult = {
+    qtyOut: ECs;
+    reminderIn: ECs;
+    recoveredOut: ECs;
+    deferredIn: ECs;
+    orderOut: ECs;
 };
 
 export class Pool {
-    private stableAMM: TwoSided<AMM>;
-    private driftingAMM: TwoSided<AMM>;
+    private _layers: Layer[];
+    private _positions = new Map<PositionId, Position>();
+    private _nextPositionId: PositionId = 1;
+    private _feeModel: FeeModel;
+    private _recentSwaps: RecentSwap[] = [];
+    private _feeDecay: FeeDecay | undefined;
+    private _clock: Clock;
+    private _oracle: Oracle;
+    private _drift: DriftParams;
+    private _lastDriftAt: Timestamp;
+    private _stretchAnchor: StretchAnchor;
+    private _inventoryShape: InventoryShape;
+    private _recoveryStrategy: RecoveryStrategy;
+    private _protocolFee = ECs.zero();
+    /** The protocol fees collected so far, not yet taken out with `collectProtocolFees`. */
+    private _treasury: TwoSided<ECs> = { base: ECs.zero(), quote: ECs.zero() };
+    private _recoveryLimiter: RecoveryLimiterParams | undefined;
+    private _orderBook: OrderBook;
+    /** Clones share the tick math of the original pool, so only the original moves the price cache window. */
+    private _movesPriceWindow = true;
 
     /**
      * Creates a new `Pool`.
      * @param curTickIdx The initial tick index for the pool.
+     * @param assets The traded assets, quantities are expressed in their whole units (e.g. BTC, not e8s).
+     * @param tickMath The tick configuration, the initial tick is rounded down to the closest usable one.
+     * @param params The layers, the fees and the clock.
      */
     constructor(
         curTickIdx: number,
         private tickSpan: number,
+        private _assets: TwoSided<Asset>,
+        private _tickMath: TickMath,
         private noLogs: boolean,
         args?: {
             baseQty: ECs;
             quoteQty: ECs;
-        }
+            owner?: string;
+        },
+        params?: PoolParams
     ) {
+        const stableAmmCut = params?.stableAmmCut;
+        if (stableAmmCut && params?.layers)
+            throw new InvalidArgumentError({
+                argument: "stableAmmCut",
+                detail: "the cut is only used for the default layers, set the cuts of the layers instead",
+            });
+        if (
+            stableAmmCut &&
+            (stableAmmCut.isNegative() || stableAmmCut.ge(ECs.one()))
+        )
+            throw new InvalidArgumentError({
+                argument: "stableAmmCut",
+                detail: `the cut should be in [0, 1): ${stableAmmCut}`,
+            });
+
+        const layers = params?.layers ?? defaultLayers(stableAmmCut);
+        validateLayers(layers);
+
+        this._feeModel = params?.feeModel ?? new DefaultFeeModel();
+        this._feeDecay = params?.feeDecay && new FeeDecay(params.feeDecay);
+        this._clock = params?.clock ?? new SystemClock();
+        this._drift = params?.drift ?? { mode: "instant" };
+        if (
+            this._drift.mode === "delayed" &&
+            (!(this._drift.interval > 0) ||
+                !this._drift.fraction.isPositive() ||
+                this._drift.fraction.gt(ECs.one()))
+        )
+            throw new InvalidArgumentError({
+                argument: "drift",
+                detail: `the interval should be positive and the fraction should be in (0, 1]: ${this._drift.interval}, ${this._drift.fraction}`,
+            });
+        this._lastDriftAt = this._clock.now();
+        this._stretchAnchor = params?.stretchAnchor ?? "worst";
+        this._inventoryShape = params?.inventoryShape ?? "uniform";
+
+        const perTick = params?.recoveryLimiter?.perTick;
+        if (
+            perTick &&
+            (!(perTick.window > 0) ||
+                perTick.maxIn.base.isNegative() ||
+                perTick.maxIn.quote.isNegative())
+        )
+            throw new InvalidArgumentError({
+                argument: "recoveryLimiter",
+                detail: `the window should be positive and the limits should be non-negative: ${perTick.window}, ${perTick.maxIn.base}, ${perTick.maxIn.quote}`,
+            });
+        this._recoveryLimiter = params?.recoveryLimiter;
+        this._recoveryStrategy =
+            params?.recoveryStrategy ?? new WorstFirstRecovery();
+        if (params?.protocolFee) this.setProtocolFee(params.protocolFee);
+
+        this._oracle = new Oracle(
+            params?.oracleCardinality ?? DEFAULT_ORACLE_CARDINALITY,
+            this._clock.now()
+        );
+
+        this._orderBook = new OrderBook(this._tickMath);
+
+        curTickIdx = this._tickMath.align(curTickIdx);
+        this._tickMath.prices.setActiveTick(curTickIdx);
+
+        this._layers = layers.map((params) =>
+            this.createLayer(params, curTickIdx)
+        );
+
         if (args) {
-            const stableBaseShare = args.baseQty.mul(STABLE_AMM_CUT);
-            const stableQuoteShare = args.quoteQty.mul(STABLE_AMM_CUT);
+            this.deposit("base", args.baseQty, args.owner);
+            this.deposit("quote", args.quoteQty, args.owner);
+        }
+    }
 
-            this.stableAMM = {
-                base: new AMM(
-                    Beacon.base(this, "stable"),
-                    undefined,
-                    curTickIdx
+    /**
+     * @param clock The clock of the copy, the same one by default.
+     * @param overrides What the copy does differently, to compare the mechanisms on the same state.
+     */
+    public clone(
+        noLogs?: boolean,
+        clock?: Clock,
+        overrides?: Pick<PoolParams, "drift" | "recoveryStrategy"> & {
+            /** Turns the fee decay of the clone on with the params, or off with `null`. */
+            feeDecay?: FeeDecayParams | null;
+        }
+    ) {
+        noLogs = noLogs ?? this.noLogs;
+        const activeTick = this._tickMath.prices.activeTick;
+
+        const p = new Pool(
+            this.curAbsoluteTick,
+            this.tickSpan,
+            this._assets,
+            this._tickMath,
+            noLogs,
+            undefined,
+            {
+                layers: this.configuredLayers.map((it) => it.params),
+                feeModel: this._feeModel,
+                clock: clock ?? this._clock,
+                drift: overrides?.drift ?? this._drift,
+                stretchAnchor: this._stretchAnchor,
+                inventoryShape: this._inventoryShape,
+                recoveryStrategy:
+                    overrides?.recoveryStrategy ?? this._recoveryStrategy,
+                recoveryLimiter: this._recoveryLimiter,
+                protocolFee: this._protocolFee,
+            }
+        );
+
+        // the constructor has moved the price cache window to the clone's tick
+        this._tickMath.prices.setActiveTick(activeTick);
+
+        p._layers = this._layers.map(({ params, amm }) => {
+            const getTickSpan = p.tickSpanGetter(params);
+
+            return {
+                params,
+                amm: {
+                    base: amm.base.clone(p, noLogs, getTickSpan),
+                    quote: amm.quote.clone(p, noLogs, getTickSpan),
+                },
+            };
+        });
+
+        for (const [id, position] of this._positions) {
+            p._positions.set(id, position.clone());
+        }
+        p._nextPositionId = this._nextPositionId;
+        p._recentSwaps = [...this._recentSwaps];
+        if (overrides?.feeDecay !== undefined)
+            p.setFeeDecay(overrides.feeDecay ?? undefined);
+        else p._feeDecay = this._feeDecay?.clone();
+        p._oracle = this._oracle.clone();
+        p._lastDriftAt = this._lastDriftAt;
+        p._treasury = {
+            base: this._treasury.base.clone(),
+            quote: this._treasury.quote.clone(),
+        };
+        p._orderBook = this._orderBook.clone();
+        p._movesPriceWindow = false;
+
+        return p;
+    }
+
+    /**
+     * Restores a pool from `Pool.toState`. The `params` should be the ones the pool was created with,
+     * except for the fee decay, the protocol fee and the oracle, which come from the state.
+     */
+    public static fromState(
+        state: PoolState,
+        tickMath: TickMath,
+        params?: Omit<PoolParams, "feeDecay" | "protocolFee">,
+        noLogs: boolean = false
+    ): Pool {
+        const p = new Pool(
+            state.curTick,
+            state.tickSpan,
+            state.assets,
+            tickMath,
+            noLogs,
+            undefined,
+            params
+        );
+
+        for (const it of state.layers) {
+            const layer =
+                it.lambda === undefined
+                    ? p._layers.find((l) => l.params.name === it.name)
+                    : p.lambdaBucket(new ECs(BigInt(it.lambda)));
+
+            if (!layer || layer.params.name !== it.name)
+                throw new InvalidArgumentError({
+                    argument: "state",
+                    detail: `the layer ${it.name} is not among the layers of the params`,
+                });
+
+            const getTickSpan = p.tickSpanGetter(layer.params);
+            const shapes = p.liquidityShapes(layer.params);
+
+            layer.amm = {
+                base: AMM.fromState(
+                    it.amm.base,
+                    Beacon.base(p, it.name),
+                    getTickSpan,
+                    shapes
                 ),
-                quote: new AMM(
-                    Beacon.quote(this, "stable"),
-                    undefined,
-                    curTickIdx
+                quote: AMM.fromState(
+                    it.amm.quote,
+                    Beacon.quote(p, it.name),
+                    getTickSpan,
+                    shapes
                 ),
             };
+        }
 
-            this.stableAMM.base.deposit({
-                reserve: stableBaseShare,
-            });
-            this.stableAMM.quote.deposit({
-                reserve: stableQuoteShare,
+        if (state.layers.length !== p._layers.length)
+            throw new InvalidArgumentError({
+                argument: "state",
+                detail: `expecting ${p._layers.length} layers, got ${state.layers.length}`,
             });
 
-            const driftingBaseShare = args.baseQty.sub(stableBaseShare);
-            const driftingQuoteShare = args.quoteQty.sub(stableQuoteShare);
+        for (const it of state.positions) {
+            p._positions.set(it.id, Position.fromState(it));
+        }
+        p._nextPositionId = state.nextPositionId;
+        p._recentSwaps = state.recentSwaps.map((it) => ({
+            ...it,
+            quoteVolume: new ECs(BigInt(it.quoteVolume)),
+        }));
+        p._feeDecay = state.feeDecay && FeeDecay.fromState(state.feeDecay);
+        p._oracle = Oracle.fromState(state.oracle);
+        p._lastDriftAt = state.lastDriftAt;
+        p._protocolFee = new ECs(BigInt(state.protocolFee));
+        p._treasury = {
+            base: new ECs(BigInt(state.treasury.base)),
+            quote: new ECs(BigInt(state.treasury.quote)),
+        };
+        p._orderBook = OrderBook.fromState(state.orderBook, tickMath);
 
-            const getTickSpan = () => this.tickSpan;
+        return p;
+    }
 
-            this.driftingAMM = {
-                base: new AMM(
-                    Beacon.base(this, "drifting"),
-                    getTickSpan,
-                    curTickIdx
-                ),
-                quote: new AMM(
-                    Beacon.quote(this, "drifting"),
+    /**
+     * The pool as plain data, to be restored with `Pool.fromState`. The fee model, the clock, the recovery strategy
+     * and the rest of `PoolParams` are not a part of it.
+     */
+    public toState(): PoolState {
+        return {
+            curTick: this.curAbsoluteTick,
+            tickSpan: this.tickSpan,
+            assets: this._assets,
+            layers: this._layers.map(({ params, amm }) => ({
+                name: params.name,
+                lambda:
+                    params.span.kind === "lambda"
+                        ? params.span.lambda.raw.toString()
+                        : undefined,
+                amm: { base: amm.base.toState(), quote: amm.quote.toState() },
+            })),
+            positions: [...this._positions.values()].map((it) => it.toState()),
+            nextPositionId: this._nextPositionId,
+            recentSwaps: this._recentSwaps.map((it) => ({
+                ...it,
+                quoteVolume: it.quoteVolume.raw.toString(),
+            })),
+            feeDecay: this._feeDecay?.toState(),
+            oracle: this._oracle.toState(),
+            lastDriftAt: this._lastDriftAt,
+            protocolFee: this._protocolFee.raw.toString(),
+            treasury: {
+                base: this._treasury.base.raw.toString(),
+                quote: this._treasury.quote.raw.toString(),
+            },
+            orderBook: this._orderBook.toState(),
+        };
+    }
+
+    private createLayer(params: LayerParams, curTickIdx: number): Layer {
+        const getTickSpan = this.tickSpanGetter(params);
+        const shapes = this.liquidityShapes(params);
+
+        const amm = (beacon: Beacon) =>
+            new AMM(
+                beacon,
+                getTickSpan,
+                curTickIdx,
+                new Liquidity(
+                    undefined,
+                    [],
                     getTickSpan,
-                    curTickIdx
+                    beacon.clone(),
+                    shapes
+                )
+            );
+
+        return {
+            params,
+            amm: {
+                base: amm(Beacon.base(this, params.name)),
+                quote: amm(Beacon.quote(this, params.name)),
+            },
+        };
+    }
+
+    /**
+     * The layer of the lambda bucket, created with the first deposit into it.
+     */
+    private lambdaBucket(lambda: Lambda): Layer {
+        const params = lambdaLayer(lambda);
+        const existing = this._layers.find(
+            (it) => it.params.name === params.name
+        );
+        if (existing) return existing;
+
+        const layer = this.createLayer(params, this.curAbsoluteTick);
+        this._layers.push(layer);
+
+        return layer;
+    }
+
+    private liquidityShapes(params: LayerParams): LiquidityShapes {
+        const reserve: RangeShape | undefined =
+            params.span.kind === "lambda"
+                ? {
+                      kind: "geometric",
+                      ratio: lambdaDecay(
+                          params.span.lambda,
+                          this._tickMath.tickSpacing
+                      ),
+                  }
+                : undefined;
+
+        return { reserve, inventory: this._inventoryShape };
+    }
+
+    private tickSpanGetter(params: LayerParams): (() => number) | undefined {
+        switch (params.span.kind) {
+            case "full-range":
+                return undefined;
+            case "stretching":
+                return () => this.tickSpan;
+            case "band": {
+                const tickSpan = params.span.tickSpan;
+                return () => tickSpan;
+            }
+            case "lambda": {
+                const tickSpan = lambdaTickSpan(
+                    params.span.lambda,
+                    this._tickMath.tickSpacing
+                );
+                return () => tickSpan;
+            }
+        }
+    }
+
+    /**
+     * Moves the worst edges of the stretching reserves towards the inventory ticks of the other side,
+     * see `DriftParams`.
+     */
+    private drift(now: Timestamp) {
+        if (this._drift.mode === "instant") {
+            this.driftStep(ECs.one());
+            return;
+        }
+
+        const { interval, fraction } = this._drift;
+        const steps = Math.floor((now - this._lastDriftAt) / interval);
+        if (steps <= 0) return;
+
+        this._lastDriftAt += steps * interval;
+
+        // the targets only change with swaps, so once the edges stop moving, the rest of the steps are no-ops
+        for (let i = 0; i < steps; i++) {
+            if (!this.driftStep(fraction)) break;
+        }
+    }
+
+    /**
+     * The inventory tick of `inventorySide`, the reserve of `reserveSide` stretches to, see `StretchAnchor`.
+     * Both are the AMMs of the same stretching layer.
+     */
+    private stretchTarget(
+        layer: Layer,
+        reserveSide: Side,
+        inventorySide: Side
+    ): number | undefined {
+        const inventory = layer.amm[inventorySide].liquidity;
+        if (this._stretchAnchor === "worst")
+            return inventory.getWorstInventory();
+
+        const best = inventory.getBestInventory();
+
+        return best === undefined
+            ? undefined
+            : layer.amm[reserveSide].liquidity.clampReserveWorst(best);
+    }
+
+    /**
+     * Returns whether any of the edges has moved.
+     */
+    private driftStep(fraction: ECs): boolean {
+        let moved = false;
+
+        for (const layer of this.stretchingLayers) {
+            for (const [reserveSide, inventorySide] of [
+                ["quote", "base"],
+                ["base", "quote"],
+            ] as const) {
+                const liquidity = layer.amm[reserveSide].liquidity;
+                const edge = liquidity.reserve?.getWorst();
+
+                // not the anchor itself, a delayed drift that narrowed the reserve step by step would stop short of it
+                const anchor = this.stretchTarget(
+                    layer,
+                    reserveSide,
+                    inventorySide
+                );
+                const target =
+                    anchor === undefined
+                        ? undefined
+                        : liquidity.reachableReserveWorst(anchor);
+
+                if (
+                    target === undefined ||
+                    edge === undefined ||
+                    target === edge
+                )
+                    continue;
+
+                const s = this._tickMath.tickSpacing;
+                const distance = (target - edge) / s;
+                const step = fraction.eq(ECs.one())
+                    ? distance
+                    : Math.sign(distance) *
+                      Math.max(
+                          Math.floor(Math.abs(distance) * fraction.toNumber()),
+                          1
+                      );
+
+                liquidity.driftReserveWorst(edge + step * s);
+
+                moved ||= liquidity.reserve?.getWorst() !== edge;
+            }
+        }
+
+        return moved;
+    }
+
+    /**
+     * Swaps `qtyIn`, or only a part of it, if `limitTick` is reached first or the pool runs out of liquidity.
+     * For a partial fill, the fees are only taken from the part that gets swapped, the rest is returned in `qtyInUnfilled`.
+     *
+     * When `minQtyOut` or `maxImpactTicks` is set, the swap is dry-run on a copy of the pool first, so if it is not met
+     * a `SlippageExceededError` (or a `PriceImpactExceededError`) is thrown and the pool is left untouched.
+     */
+    public swap(args: SwapArgs): SwapResult {
+        // the dry run and the swap are priced at the same moment
+        const now = this._clock.now();
+
+        if (
+            args.minQtyOut !== undefined ||
+            args.maxImpactTicks !== undefined
+        ) {
+            const pool = this.clone(true);
+            const dryRun = pool.swapWithFees(
+                args.qtyIn,
+                args.direction,
+                args.limitTick,
+                undefined,
+                now
+            );
+
+            // the dry run sees everything the swap does: the resting orders, the shapes and the recovery limiter
+            const ticks = Math.abs(
+                pool.curAbsoluteTick - this.curAbsoluteTick
+            );
+            if (
+                args.maxImpactTicks !== undefined &&
+                ticks > args.maxImpactTicks
+            )
+                throw new PriceImpactExceededError({
+                    direction: args.direction,
+                    maxTicks: args.maxImpactTicks,
+                    ticks,
+                });
+
+            if (
+                args.minQtyOut !== undefined &&
+                dryRun.qtyOut.lt(args.minQtyOut)
+            )
+                throw new SlippageExceededError({
+                    limit: "minQtyOut",
+                    expected: args.minQtyOut.clone(),
+                    actual: dryRun.qtyOut,
+                });
+        }
+
+        return this.swapWithFees(
+            args.qtyIn,
+            args.direction,
+            args.limitTick,
+            undefined,
+            now
+        );
+    }
+
+    /**
+     * @param exactQtyOut Walks the ticks for exactly this output instead, see `swapExactOut`.
+     * @param timestamp The moment the swap is priced at.
+     */
+    private swapWithFees(
+        qtyIn: ECs,
+        direction: SwapDirection,
+        limitTick?: number,
+        exactQtyOut?: ECs,
+        timestamp: Timestamp = this._clock.now()
+    ): SwapResult {
+        const feeFactor = this.getFeeFactor(direction, timestamp);
+        const feeDecay = this._feeDecay?.multiplier(timestamp) ?? ECs.one();
+
+        if (
+            !qtyIn.isPositive() ||
+            !this.canTradeAt(this.curAbsoluteTick, direction, limitTick)
+        )
+            return {
+                qtyOut: ECs.zero(),
+                feeFactor,
+                feesIn: ECs.zero(),
+                slippage: ECs.zero(),
+                qtyInUnfilled: qtyIn.clone(),
+                protocolFeesIn: ECs.zero(),
+                feesInByLayer: Object.fromEntries(
+                    this._layers.map((it) => [it.params.name, ECs.zero()])
                 ),
+                recoveredQtyOut: ECs.zero(),
+                recoveryDeferredIn: ECs.zero(),
+                orderBookQtyOut: ECs.zero(),
+                feeDecay,
+                timestamp,
             };
 
-            this.driftingAMM.base.deposit({ reserve: driftingBaseShare });
-            this.driftingAMM.quote.deposit({ reserve: driftingQuoteShare });
-        } else {
-            this.stableAMM = {
-                base: new AMM(
-                    Beacon.base(this, "stable"),
-                    undefined,
-                    curTickIdx
-                ),
-                quote: new AMM(
-                    Beacon.quote(this, "stable"),
-                    undefined,
-                    curTickIdx
-                ),
-            };
+        this._oracle.write(
+            timestamp,
+            this.curAbsoluteTick,
+            this.curTickLiquidity
+        );
+
+        // the delayed drift catches up with the time since the previous swap, before this one is priced
+        if (this._drift.mode === "delayed") this.drift(timestamp);
+
+        let fees = qtyIn.mul(feeFactor, "ceil");
+        const netQtyIn = qtyIn.sub(fees);
+
+        // the rounding dust stays with the layers
+        let protocolFees = fees.mul(this._protocolFee, "floor");
+        const inSide = direction === "base -> quote" ? "base" : "quote";
+        const outSide = direction === "base -> quote" ? "quote" : "base";
+
+        // the fees go to the recovery bins of the output side, which only recover in the opposite direction,
+        // so they are split by the liquidity before the swap, but only paid once the filled part is known
+        let layerFees = this.splitFees(fees.sub(protocolFees), outSide);
+
+        const price = this._tickMath.price(
+            this.curAbsoluteTick,
+            direction === "base -> quote" ? "base" : "quote",
+            "reserve"
+        );
+
+        const { qtyOut, reminderIn, recoveredOut, deferredIn, orderOut } =
+            exactQtyOut === undefined
+                ? this._swap(netQtyIn, direction, limitTick)
+                : this.swapForExactOut(netQtyIn, exactQtyOut, direction);
+
+        let qtyInUnfilled = ECs.zero();
+        if (reminderIn.isPositive()) {
+            const filledNetQtyIn = netQtyIn.sub(reminderIn);
+            let filledQtyIn = this.grossQtyIn(filledNetQtyIn, feeFactor);
+            if (filledQtyIn.gt(qtyIn)) filledQtyIn = qtyIn.clone();
+
+            const layerTotal = fees.sub(protocolFees);
+            const layerShares = layerFees.map((it) =>
+                layerTotal.isZero() ? ECs.zero() : it.div(layerTotal)
+            );
+
+            qtyInUnfilled = qtyIn.sub(filledQtyIn);
+            fees = filledQtyIn.sub(filledNetQtyIn);
+            protocolFees = fees.mul(this._protocolFee, "floor");
+            layerFees = splitByShares(fees.sub(protocolFees), layerShares);
+        }
+
+        this._treasury[inSide].addAssign(protocolFees);
+
+        const feesInByLayer: Record<LayerName, ECs> = {};
+        this._layers.forEach((layer, i) => {
+            layer.amm[outSide].currentTick.addInventoryFees(layerFees[i]);
+            feesInByLayer[layer.params.name] = layerFees[i];
+        });
+
+        if (this._drift.mode === "instant") this.drift(timestamp);
+
+        const quoteVolume =
+            direction === "base -> quote"
+                ? qtyOut.clone()
+                : qtyIn.sub(qtyInUnfilled);
+
+        this._recentSwaps.push({
+            direction,
+            quoteVolume,
+            tick: this.curAbsoluteTick,
+            timestamp,
+        });
+        if (this._recentSwaps.length > RECENT_SWAPS) this._recentSwaps.shift();
+
+        this._feeDecay?.onSwap(timestamp, quoteVolume);
+
+        const expectedOut = netQtyIn.sub(reminderIn).mul(price);
+        const slippage = expectedOut.isZero()
+            ? ECs.zero()
+            : ECs.one().sub(qtyOut.div(expectedOut));
+
+        return {
+            qtyOut,
+            feeFactor,
+            feesIn: fees,
+            slippage,
+            qtyInUnfilled,
+            protocolFeesIn: protocolFees,
+            feesInByLayer,
+            recoveredQtyOut: recoveredOut,
+            recoveryDeferredIn: deferredIn,
+            orderBookQtyOut: orderOut,
+            feeDecay,
+            timestamp,
+        };
+    }
+
+    /**
+     * Returns exactly what `swap` would, without changing the pool, by swapping on a copy of it.
+     * Throws the same errors `swap` would.
+     */
+    public quote(args: SwapArgs): QuoteResult {
+        const preTradeTick = this.curAbsoluteTick;
+        const p = this.clone(true);
+        const result = p.swap(args);
+        const postTradeTick = p.curAbsoluteTick;
+
+        const filledQtyIn = args.qtyIn.sub(result.qtyInUnfilled);
+        let executionPrice = ECs.zero();
+
+        if (filledQtyIn.isPositive() && result.qtyOut.isPositive()) {
+            executionPrice =
+                args.direction === "base -> quote"
+                    ? result.qtyOut.div(filledQtyIn)
+                    : filledQtyIn.div(result.qtyOut);
+        }
+
+        return {
+            ...result,
+            ticksCrossed:
+                Math.abs(postTradeTick - preTradeTick) /
+                this._tickMath.tickSpacing,
+            executionPrice,
+            postTradeTick,
+        };
+    }
+
+    /**
+     * Swaps whatever is required to receive `qtyOut`.
+     *
+     * Swap fees are paid to the recovery bins of the output side, which only recover in the opposite direction,
+     * so they don't change how this swap walks the ticks. This lets the net input be found by walking a copy of the pool once,
+     * and then the swap is executed with the fees taken from the input, the same way an exact-in one is.
+     *
+     * Rounding always favors the pool, so the trader may receive slightly more than `qtyOut`, but never less.
+     */
+    public swapExactOut(args: SwapExactOutArgs): SwapExactOutResult {
+        // the fee factor, the copy and the swap all see the same moment
+        const now = this._clock.now();
+        const feeFactor = this.getFeeFactor(args.direction, now);
+
+        // the delayed drift catches up before the swap is priced, so the copy has to catch up as well
+        const p = this.clone(true);
+        if (p._drift.mode === "delayed") p.drift(now);
+
+        const { qtyIn: netQtyIn, reminderOut } = p._swapExactOut(
+            args.qtyOut,
+            args.direction
+        );
+
+        if (reminderOut.isPositive())
+            throw new InsufficientLiquidityError({
+                requested: args.qtyOut.clone(),
+                available: args.qtyOut.sub(reminderOut),
+            });
+
+        const qtyIn = this.grossQtyIn(netQtyIn, feeFactor);
+
+        if (args.maxQtyIn && qtyIn.gt(args.maxQtyIn))
+            throw new SlippageExceededError({
+                limit: "maxQtyIn",
+                expected: args.maxQtyIn.clone(),
+                actual: qtyIn,
+            });
+
+        const result = this.swapWithFees(
+            qtyIn,
+            args.direction,
+            undefined,
+            args.qtyOut,
+            now
+        );
+
+        return { ...result, qtyIn };
+    }
+
+    /**
+     * Deposits the reserve into the AMMs of every layer on the side and mints a new position for it.
+     * @param lambda Deposits into the lambda bucket instead, one of `LAMBDA_0..9`.
+     */
+    public deposit(
+        side: keyof TwoSided<AMM>,
+        qty: ECs,
+        owner: string = DEFAULT_OWNER,
+        lambda?: Lambda
+    ): PositionId {
+        if (!qty.isPositive())
+            throw new InvalidArgumentError({
+                argument: "qty",
+                detail: `the deposit should be positive: ${qty}`,
+            });
+
+        const layers =
+            lambda === undefined
+                ? this.configuredLayers
+                : [this.lambdaBucket(lambda)];
+        const cuts =
+            lambda === undefined
+                ? splitByShares(
+                      qty,
+                      layers.map((it) => it.params.cut)
+                  )
+                : [qty.clone()];
+        const shares: Record<LayerName, ECs> = {};
+        const depositedReserve: Record<LayerName, ECs> = {};
+
+        layers.forEach((layer, i) => {
+            shares[layer.params.name] = layer.amm[side].deposit({
+                reserve: cuts[i],
+            });
+            depositedReserve[layer.params.name] = cuts[i];
+        });
+
+        const id = this._nextPositionId++;
+        this._positions.set(
+            id,
+            new Position(
+                id,
+                owner,
+                side,
+                shares,
+                depositedReserve,
+                this._clock.now()
+            )
+        );
+
+        return id;
+    }
+
+    /**
+     * Withdraws the `fraction` of the position, the position is closed once nothing is left in it.
+     */
+    public withdraw(
+        positionId: PositionId,
+        fraction: ECs = ECs.one()
+    ): WithdrawReceipt {
+        const position = this.getPosition(positionId);
+
+        if (!fraction.isPositive() || fraction.gt(ECs.one()))
+            throw new InvalidArgumentError({
+                argument: "fraction",
+                detail: `the fraction should be in (0, 1]: ${fraction}`,
+            });
+
+        const { shares, depositedReserve } = position.burn(fraction);
+        const side = position.side;
+
+        const receipt: WithdrawReceipt = {
+            positionId,
+            side,
+            timestamp: this._clock.now(),
+            total: { base: ECs.zero(), quote: ECs.zero() },
+            layers: {},
+        };
+
+        for (const { params, amm } of this._layers) {
+            if (!(params.name in shares)) continue;
+
+            const res = amm[side].withdraw({
+                shares: shares[params.name],
+                depositedReserve: depositedReserve[params.name],
+            });
+
+            receipt.layers[params.name] = toWithdrawReceipt(side, res);
+        }
+
+        if (position.isEmpty()) this._positions.delete(positionId);
+
+        for (const layer of Object.values(receipt.layers)) {
+            for (const it of Object.values(layer)) {
+                receipt.total.base.addAssign(it.base);
+                receipt.total.quote.addAssign(it.quote);
+            }
+        }
+
+        return receipt;
+    }
+
+    /**
+     * All open positions, or only the ones of the `owner`.
+     */
+    public positions(owner?: string): PositionId[] {
+        return [...this._positions.values()]
+            .filter((it) => owner === undefined || it.owner === owner)
+            .map((it) => it.id);
+    }
+
+    public positionStats(positionId: PositionId): PositionStats {
+        const position = this.getPosition(positionId);
+        const side = position.side;
+        const shares = position.shares;
+        const deposited = position.depositedReserve;
+
+        const share: Record<LayerName, ECs> = {};
+        const depositedReserve = ECs.zero();
+        const actualReserve = ECs.zero();
+        const actualInventory = ECs.zero();
+        const respectiveReserve = ECs.zero();
+        const collateral = ECs.zero();
+
+        for (const { params, amm: amms } of this._layers) {
+            const name = params.name;
+            const amm = amms[side];
+
+            share[name] = ECs.zero();
+            if (!(name in shares)) continue;
+
+            depositedReserve.addAssign(deposited[name]);
+
+            const totalShares = amm.getTotalShares();
+            if (totalShares.isZero()) continue;
+
+            share[name] = shares[name].div(totalShares);
+
+            actualReserve.addAssign(amm.getActualReserve().mul(share[name]));
+            actualInventory.addAssign(
+                amm.getActualInventory().mul(share[name])
+            );
+            respectiveReserve.addAssign(
+                amm.getRespectiveReserve().mul(share[name])
+            );
+            collateral.addAssign(amm.getCollateral().mul(share[name]));
+        }
+
+        const inventoryPrice = this._tickMath.price(
+            this.curAbsoluteTick,
+            side,
+            "inventory"
+        );
+        const expectedReserve = actualInventory.mul(inventoryPrice);
+        const value = actualReserve
+            .add(expectedReserve)
+            .add(collateral.mul(inventoryPrice));
+
+        // the same formula as `AMM.il`, but over the share of all AMMs
+        const il = respectiveReserve.isZero()
+            ? ECs.zero()
+            : ECs.one().sub(
+                  expectedReserve
+                      .add(actualReserve)
+                      .div(respectiveReserve.add(actualReserve))
+              );
+
+        return {
+            id: position.id,
+            owner: position.owner,
+            side,
+            asset: this._assets[side],
+            openedAt: position.openedAt,
+            share,
+            depositedReserve,
+            actualReserve,
+            actualInventory,
+            collateral,
+            value,
+            il,
+            pnl: value.sub(depositedReserve),
+        };
+    }
+
+    /**
+     * Places a limit order, that sells `qty` of `side` at the price of `tick` (a bid below the current price for quote,
+     * an ask above it for base). At every tick a swap passes, the resting orders are filled before the AMMs,
+     * in the order of their batches and pro rata within a batch (see `OrderBook`). The swap fees go to the layers as usual.
+     */
+    public placeOrder(
+        side: Side,
+        tick: number,
+        qty: ECs,
+        owner: string = DEFAULT_OWNER
+    ): OrderId {
+        if (!qty.isPositive())
+            throw new InvalidArgumentError({
+                argument: "qty",
+                detail: `the order should be positive: ${qty}`,
+            });
+
+        if (
+            !this._tickMath.isAligned(tick) ||
+            tick < this._tickMath.minTick ||
+            tick > this._tickMath.maxTick
+        )
+            throw new InvalidArgumentError({
+                argument: "tick",
+                detail: `should be a usable tick, got ${tick}`,
+            });
+
+        const cur = this.curAbsoluteTick;
+        if (side === "base" ? tick < cur : tick > cur)
+            throw new InvalidArgumentError({
+                argument: "tick",
+                detail: `a ${side} order can't rest on the other side of the current tick ${cur}, got ${tick}`,
+            });
+
+        return this._orderBook.place({
+            side,
+            tick,
+            qty,
+            owner,
+            placedAt: this._clock.now(),
+        });
+    }
+
+    /**
+     * How much of the order is filled and what it would get on cancellation.
+     */
+    public orderStats(orderId: OrderId): OrderStats {
+        return this._orderBook.stats(orderId);
+    }
+
+    /**
+     * Closes the order, returns its unfilled part and the proceeds of the filled one.
+     */
+    public cancelOrder(orderId: OrderId): TwoSided<ECs> {
+        return this._orderBook.cancel(orderId);
+    }
 
-            const getTickSpan = () => this.tickSpan;
+    /**
+     * All open orders, or only the ones of the `owner`.
+     */
+    public orders(owner?: string): OrderId[] {
+        return this._orderBook.orders(owner);
+    }
 
-            this.driftingAMM = {
-                base: new AMM(
-                    Beacon.base(this, "drifting"),
-                    getTickSpan,
-                    curTickIdx
-                ),
-                quote: new AMM(
-                    Beacon.quote(this, "drifting"),
-                    getTickSpan,
-                    curTickIdx
-                ),
-            };
-        }
+    /**
+     * The unfilled quantity of all the orders the swaps in the direction would fill.
+     */
+    public getOrderBookDepth(direction: SwapDirection): ECs {
+        return this._orderBook.getTotalRestingQty(makerSide(direction));
     }
 
-    public clone(noLogs?: boolean) {
-        noLogs = noLogs ?? this.noLogs;
+    private getPosition(positionId: PositionId): Position {
+        const position = this._positions.get(positionId);
 
-        const p = new Pool(
-            this.driftingAMM.quote.currentTick.getIndex(),
-            this.tickSpan,
-            noLogs
-        );
+        if (position === undefined)
+            throw new InvalidArgumentError({
+                argument: "positionId",
+                detail: `there is no position #${positionId}`,
+            });
 
-        const getTickSpan = () => p.tickSpan;
+        return position;
+    }
 
-        p.stableAMM.base = this.stableAMM.base.clone(p, noLogs, undefined);
-        p.stableAMM.quote = this.stableAMM.quote.clone(p, noLogs, undefined);
+    /**
+     * The smallest input, that still leaves `netQtyIn` after the fees are taken.
+     */
+    private grossQtyIn(netQtyIn: ECs, feeFactor: ECs): ECs {
+        const qtyIn = netQtyIn.div(ECs.one().sub(feeFactor), "ceil");
+        const rawUnit = new ECs(1n);
 
-        p.driftingAMM.base = this.driftingAMM.base.clone(
-            p,
-            noLogs,
-            getTickSpan
-        );
-        p.driftingAMM.quote = this.driftingAMM.quote.clone(
-            p,
-            noLogs,
-            getTickSpan
-        );
+        while (qtyIn.sub(qtyIn.mul(feeFactor, "ceil")).lt(netQtyIn))
+            qtyIn.addAssign(rawUnit);
 
-        return p;
+        return qtyIn;
     }
 
-    private drift() {
-        const baseInventoryWorst =
-            this.driftingAMM.base.liquidity.getWorstInventory();
+    private _swap(
+        qtyIn: ECs,
+        direction: SwapDirection,
+        limitTick?: number
+    ): WalkResult {
+        const qtyOut = ECs.zero();
+        const recoveredOut = ECs.zero();
+        const deferredIn = ECs.zero();
+        const orderOut = ECs.zero();
+        const amms = this.swapLegs(direction);
+        const step =
+            direction === "base -> quote"
+                ? -this._tickMath.tickSpacing
+                : this._tickMath.tickSpacing;
 
-        if (baseInventoryWorst !== undefined) {
-            this.driftingAMM.quote.liquidity.driftReserveWorst(
-                baseInventoryWorst
+        while (true) {
+            // The resting orders of the tick are filled before the AMMs, they ask for exactly the tick price
+            const fill = this._orderBook.swap(
+                this.curAbsoluteTick,
+                qtyIn,
+                direction
             );
-        }
+            qtyIn = fill.reminderIn;
+            qtyOut.addAssign(fill.qtyOut);
+            orderOut.addAssign(fill.qtyOut);
+
+            if (qtyIn.isZero())
+                return {
+                    qtyOut,
+                    reminderIn: qtyIn,
+                    recoveredOut,
+                    deferredIn,
+                    orderOut,
+                };
 
-        const quoteInventoryWorst =
-            this.driftingAMM.quote.liquidity.getWorstInventory();
+            // Keep swapping with each AMM until it's fully exhausted
+            for (const [amm, direction] of amms) {
+                const {
+                    qtyOut: q,
+                    reminderIn,
+                    recoveredOut: r,
+                    deferredIn: d,
+                } = amm.currentTick.swap({
+                    direction,
+                    qtyIn,
+                });
 
-        if (quoteInventoryWorst !== undefined) {
-            this.driftingAMM.base.liquidity.driftReserveWorst(
-                quoteInventoryWorst
-            );
+                if (reminderIn.lt(qtyIn)) {
+                    qtyIn = reminderIn;
+                    qtyOut.addAssign(q);
+                    recoveredOut.addAssign(r);
+                    deferredIn.addAssign(d);
+                }
+
+                if (qtyIn.isZero())
+                    return {
+                        qtyOut,
+                        reminderIn: qtyIn,
+                        recoveredOut,
+                        deferredIn,
+                        orderOut,
+                    };
+            }
+
+            // no reserve reaches past the tick bounds, so the pool has run out of liquidity there
+            const next = this.curAbsoluteTick + step;
+            if (
+                !this.canTradeAt(next, direction, limitTick) ||
+                !this.isWithinBounds(next)
+            )
+                return {
+                    qtyOut,
+                    reminderIn: qtyIn,
+                    recoveredOut,
+                    deferredIn,
+                    orderOut,
+                };
+
+            if (!this.crossTick(amms))
+                throw new InvariantViolationError({
+                    component: "Pool",
+                    detail: `Unable to cross to the tick ${next} within the bounds`,
+                });
         }
     }
 
-    public swap(args: SwapArgs): SwapResult {
-        const feeFactor = this.feeFactor;
-        const fees = args.qtyIn.mul(feeFactor);
-        const qtyIn = args.qtyIn.sub(fees);
+    /**
+     * Walks the ticks for `qtyOut` and then swaps whatever is left of `netQtyIn` (the rounding dust of the fees)
+     * at the tick the walk ends at.
+     */
+    private swapForExactOut(
+        netQtyIn: ECs,
+        qtyOut: ECs,
+        direction: SwapDirection
+    ): WalkResult {
+        const exact = this._swapExactOut(qtyOut, direction);
+
+        // `swapExactOut` has found the input by walking a copy of the pool, so it's always enough
+        if (exact.qtyIn.gt(netQtyIn))
+            throw new InvariantViolationError({
+                component: "Pool",
+                detail: `The exact-out walk took ${exact.qtyIn}, more than the net input ${netQtyIn}`,
+            });
 
-        const stableFees = fees.mul(STABLE_AMM_CUT);
-        const driftingFees = fees.sub(stableFees);
+        const rest = this._swap(netQtyIn.sub(exact.qtyIn), direction);
 
-        let expectedOut = ECs.zero();
-        let qtyOut = ECs.zero();
+        return {
+            qtyOut: exact.qtyOut.add(rest.qtyOut),
+            reminderIn: rest.reminderIn,
+            recoveredOut: exact.recoveredOut.add(rest.recoveredOut),
+            deferredIn: exact.deferredIn.add(rest.deferredIn),
+            orderOut: exact.orderOut.add(rest.orderOut),
+        };
+    }
 
-        if (args.direction === "base -> quote") {
-            this.stableAMM["quote"].currentTick.addInventoryFees(stableFees);
-            this.driftingAMM["quote"].currentTick.addInventoryFees(
-                driftingFees
-            );
+    /**
+     * Same as `_swap`, but each AMM is only asked for the input it needs to cover the rest of `qtyOut`.
+     * Returns the consumed input, and what is left of `qtyOut` if the pool runs out of liquidity.
+     *
+     * A tick is only left once every AMM has nothing left at it. When none of them pays anything out for the
+     * remaining dust (the recovery bins and the rounding can take a few raw units of input for nothing),
+     * they are asked for twice as much on the next pass, so the walk never gets stuck.
+     */
+    private _swapExactOut(
+        qtyOut: ECs,
+        direction: SwapDirection
+    ): Omit<WalkResult, "reminderIn"> & { qtyIn: ECs; reminderOut: ECs } {
+        const requestedQtyOut = qtyOut.clone();
+        const qtyIn = ECs.zero();
+        const recoveredOut = ECs.zero();
+        const deferredIn = ECs.zero();
+        const orderOut = ECs.zero();
+        const amms = this.swapLegs(direction);
+        const step =
+            direction === "base -> quote"
+                ? -this._tickMath.tickSpacing
+                : this._tickMath.tickSpacing;
+        let boost = 1;
+
+        const result = () => ({
+            qtyIn,
+            qtyOut: requestedQtyOut.sub(qtyOut),
+            reminderOut: qtyOut.isPositive() ? qtyOut : ECs.zero(),
+            recoveredOut,
+            deferredIn,
+            orderOut,
+        });
 
-            expectedOut = qtyIn.mul(
-                absoluteTickToPrice(this.curAbsoluteTick, "base", "reserve")
+        while (true) {
+            const wantOrderIn = this._orderBook.getQtyInForQtyOut(
+                this.curAbsoluteTick,
+                qtyOut,
+                direction
+            );
+            const fill = this._orderBook.swap(
+                this.curAbsoluteTick,
+                wantOrderIn,
+                direction
             );
 
-            qtyOut = this._swap(qtyIn, args.direction);
-        } else {
-            this.stableAMM["base"].currentTick.addInventoryFees(stableFees);
-            this.driftingAMM["base"].currentTick.addInventoryFees(driftingFees);
+            qtyIn.addAssign(wantOrderIn.sub(fill.reminderIn));
+            qtyOut = qtyOut.sub(fill.qtyOut);
+            orderOut.addAssign(fill.qtyOut);
 
-            expectedOut = qtyIn.mul(
-                absoluteTickToPrice(this.curAbsoluteTick, "quote", "reserve")
-            );
+            if (!qtyOut.isPositive()) return result();
 
-            qtyOut = this._swap(qtyIn, args.direction);
-        }
+            const qtyOutBefore = qtyOut.clone();
 
-        this.drift();
+            for (const [amm, direction] of amms) {
+                const wantIn = amm.currentTick.getQtyInForQtyOut(
+                    qtyOut.mul(boost),
+                    direction
+                );
+
+                const {
+                    qtyOut: q,
+                    reminderIn,
+                    recoveredOut: r,
+                    deferredIn: d,
+                } = amm.currentTick.swap({
+                    direction,
+                    qtyIn: wantIn.clone(),
+                });
 
-        const slippage = ECs.one().sub(qtyOut.div(expectedOut));
+                qtyIn.addAssign(wantIn.sub(reminderIn));
+                qtyOut = qtyOut.sub(q);
+                recoveredOut.addAssign(r);
+                deferredIn.addAssign(d);
 
-        return { qtyOut, feeFactor, feesIn: fees, slippage };
-    }
+                if (!qtyOut.isPositive()) return result();
+            }
 
-    public deposit(side: keyof TwoSided<AMM>, qty: ECs) {
-        const stableCut = qty.mul(STABLE_AMM_CUT);
-        const driftingCut = qty.sub(stableCut);
+            if (!amms.every(([amm, d]) => amm.currentTick.isConsumed(d))) {
+                boost = qtyOut.eq(qtyOutBefore) ? boost * 2 : 1;
+                continue;
+            }
 
-        this.stableAMM[side].deposit({
-            reserve: stableCut,
-        });
+            boost = 1;
 
-        this.driftingAMM[side].deposit({
-            reserve: driftingCut,
-        });
+            // no reserve reaches past the tick bounds, so the pool has run out of liquidity there
+            const next = this.curAbsoluteTick + step;
+            if (!this.isWithinBounds(next)) return result();
+
+            if (!this.crossTick(amms))
+                throw new InvariantViolationError({
+                    component: "Pool",
+                    detail: `Unable to cross to the tick ${next} within the bounds`,
+                });
+        }
     }
 
-    public withdraw(side: keyof TwoSided<AMM>, qty: ECs) {
-        const stableCut = qty.mul(STABLE_AMM_CUT);
-        const driftingCut = qty.sub(stableCut);
+    private canTradeAt(
+        tick: number,
+        direction: SwapDirection,
+        limitTick?: number
+    ): boolean {
+        if (limitTick === undefined) return true;
 
-        this.stableAMM[side].withdraw({ depositedReserve: stableCut });
-        this.driftingAMM[side].withdraw({ depositedReserve: driftingCut });
+        return direction === "base -> quote"
+            ? tick >= limitTick
+            : tick <= limitTick;
     }
 
-    private _swap(qtyIn: ECs, direction: SwapDirection): ECs {
-        const qtyOut = ECs.zero();
+    private isWithinBounds(tick: number): boolean {
+        return tick >= this._tickMath.minTick && tick <= this._tickMath.maxTick;
+    }
 
+    private swapLegs(direction: SwapDirection): [AMM, AMMSwapDirection][] {
         let baseDirection: AMMSwapDirection;
         let quoteDirection: AMMSwapDirection;
 
@@ -240,295 +1512,441 @@ export class Pool {
             quoteDirection = "reserve -> inventory";
         }
 
-        const amms: [AMM, AMMSwapDirection][] = [
-            [this.stableAMM.base, baseDirection],
-            [this.driftingAMM.base, baseDirection],
-            [this.stableAMM.quote, quoteDirection],
-            [this.driftingAMM.quote, quoteDirection],
+        return [
+            ...this._layers.map((it): [AMM, AMMSwapDirection] => [
+                it.amm.base,
+                baseDirection,
+            ]),
+            ...this._layers.map((it): [AMM, AMMSwapDirection] => [
+                it.amm.quote,
+                quoteDirection,
+            ]),
         ];
+    }
 
-        while (true) {
-            // Keep swapping with each AMM until it's fully exhausted
-            for (const [amm, direction] of amms) {
-                const { qtyOut: q, reminderIn } = amm.currentTick.swap({
-                    direction,
-                    qtyIn,
-                });
+    /**
+     * Moves every AMM to the next tick, returns `false` if there is no liquidity left.
+     */
+    private crossTick(amms: [AMM, AMMSwapDirection][]): boolean {
+        for (const [amm, direction] of amms) {
+            amm.currentTick.prepareSwap(direction);
+        }
 
-                if (reminderIn.lt(qtyIn)) {
-                    qtyIn = reminderIn;
-                    qtyOut.addAssign(q);
-                }
+        // no reserve reaches past the tick bounds, so crossing one means there is nothing left
+        const tick = this.curAbsoluteTick;
+        if (!this.isWithinBounds(tick)) return false;
 
-                if (qtyIn.isZero()) return qtyOut;
-            }
+        if (this._movesPriceWindow) this._tickMath.prices.setActiveTick(tick);
 
-            for (const [amm, direction] of amms) {
-                amm.currentTick.prepareSwap(direction);
-            }
-        }
+        return true;
+    }
+
+    public get tickMath(): TickMath {
+        return this._tickMath;
+    }
+
+    public get assets(): TwoSided<Asset> {
+        return this._assets;
     }
 
     public get curAbsoluteTick(): number {
-        return this.driftingAMM.base.currentTick.getIndex();
+        return this._layers[0].amm.base.currentTick.getIndex();
     }
 
+    /**
+     * The reserves deposited into the stretching layers, like the drifting AMMs of the original composition.
+     * `stats` has the ones of all layers.
+     */
     public get depositedReserves(): TwoSided<ECs> {
-        return {
-            base: this.driftingAMM.base.getDepositedReserve(),
-            quote: this.driftingAMM.quote.getDepositedReserve(),
-        };
+        const res = { base: ECs.zero(), quote: ECs.zero() };
+
+        for (const { amm } of this.stretchingLayers) {
+            res.base.addAssign(amm.base.getDepositedReserve());
+            res.quote.addAssign(amm.quote.getDepositedReserve());
+        }
+
+        return res;
     }
 
+    /**
+     * IL of every layer, weighted by its cut (so the lambda buckets are left out).
+     */
     public get il(): TwoSided<ECs> {
-        return {
-            base: this.stableAMM.base.il
-                .mul(STABLE_AMM_CUT)
-                .add(
-                    this.driftingAMM.base.il.mul(ECs.one().sub(STABLE_AMM_CUT))
-                ),
-            quote: this.stableAMM.quote.il
-                .mul(STABLE_AMM_CUT)
-                .add(
-                    this.driftingAMM.quote.il.mul(ECs.one().sub(STABLE_AMM_CUT))
-                ),
-        };
+        return this.sumOverLayers((amm, params) => amm.il.mul(params.cut));
     }
 
+    /**
+     * How far the widest of the stretching reserves reaches, as `price ratio - 1` between its ends.
+     */
     public get driftingReserveWidth(): TwoSided<ECs> {
-        const baseWidth =
-            this.driftingAMM.base.liquidity.reserve?.getWidth() ?? 0;
-        const quoteWidth =
-            this.driftingAMM.quote.liquidity.reserve?.getWidth() ?? 0;
+        const width = (side: Side) =>
+            Math.max(
+                0,
+                ...this.stretchingLayers.map(
+                    (it) => it.amm[side].liquidity.reserve?.getWidth() ?? 0
+                )
+            );
+        const baseWidth = width("base");
+        const quoteWidth = width("quote");
+
+        const s = this._tickMath.tickSpacing;
+        const spacingPrice = this._tickMath.spacingPrice;
+        const prices = this._tickMath.prices;
 
         return {
             base:
                 baseWidth > 0
-                    ? BASE_PRICE.pow(baseWidth).div(BASE_PRICE).sub(ECs.one())
+                    ? prices
+                          .price(baseWidth * s)
+                          .div(spacingPrice)
+                          .sub(ECs.one())
                     : ECs.zero(),
             quote:
                 quoteWidth > 0
-                    ? BASE_PRICE.pow(quoteWidth).div(BASE_PRICE).sub(ECs.one())
+                    ? prices
+                          .price(quoteWidth * s)
+                          .div(spacingPrice)
+                          .sub(ECs.one())
                     : ECs.zero(),
         };
     }
 
+    /**
+     * The fee factor for displaying, when there is no particular swap, see `getFeeFactor`.
+     */
     public get feeFactor(): ECs {
-        const { base: bf, quote: qf } = this.il;
-        const { base: bw, quote: qw } = this.driftingReserveWidth;
+        return this.getFeeFactor();
+    }
+
+    public getFeeFactor(
+        direction?: SwapDirection,
+        now: Timestamp = this._clock.now()
+    ): ECs {
+        const feeFactor = this._feeModel.feeFactor({
+            direction,
+            il: this.il,
+            reserveWidth: this.driftingReserveWidth,
+            recentSwaps: this._recentSwaps,
+            curTick: this.curAbsoluteTick,
+            tickMath: this._tickMath,
+            now,
+        });
+
+        return this._feeDecay
+            ? this._feeDecay.apply(feeFactor, now)
+            : feeFactor;
+    }
 
-        return this.calculateFees(bf.add(qf).div(2), bw.add(qw).div(4));
+    /**
+     * The current decay multiplier of the fee factor (the floor aside), 1 when the fees don't decay.
+     */
+    public get feeDecay(): ECs {
+        return this._feeDecay?.multiplier(this._clock.now()) ?? ECs.one();
+    }
+
+    /**
+     * Turns the fee decay on (the fees start undecayed) or off, without `params`.
+     */
+    public setFeeDecay(params?: FeeDecayParams) {
+        this._feeDecay = params && new FeeDecay(params);
+    }
+
+    public get feeDecayParams(): FeeDecayParams | undefined {
+        return this._feeDecay?.params;
     }
 
-    public estimatePriceImpactTicks(args: SwapArgs): number {
-        let expectedOut: ECs;
-        let drifting: { width: number; qty: ECs };
-        let stable: { width: number; qty: ECs };
+    public get feeModel(): FeeModel {
+        return this._feeModel;
+    }
+
+    public get layers(): LayerParams[] {
+        return this._layers.map((it) => it.params);
+    }
+
+    /**
+     * The deposited reserves of every lambda bucket, by its index (see `bucketIdxByLambda`).
+     */
+    public get lambdaBuckets(): TwoSided<ECs>[] {
+        const res = Array.from({ length: BUCKET_COUNT }, () => ({
+            base: ECs.zero(),
+            quote: ECs.zero(),
+        }));
+
+        for (const { params, amm } of this._layers) {
+            if (params.span.kind !== "lambda") continue;
+
+            const idx = bucketIdxByLambda(params.span.lambda);
+            res[idx].base = amm.base.getDepositedReserve();
+            res[idx].quote = amm.quote.getDepositedReserve();
+        }
+
+        return res;
+    }
 
-        if (args.direction === "base -> quote") {
-            expectedOut = args.qtyIn.mul(
-                Beacon.base(this).price(this.curAbsoluteTick)
+    /**
+     * The lambda buckets get the fees in proportion to their liquidity at (and next to) the current tick on `outSide`,
+     * the rest is split between the configured layers by their `feeShare`. In the order of the layers.
+     */
+    private splitFees(fees: ECs, outSide: Side): ECs[] {
+        const configured = this.configuredLayers;
+        if (configured.length === this._layers.length)
+            return splitByShares(
+                fees,
+                configured.map((it) => it.params.feeShare)
             );
 
-            drifting = {
-                width: Math.max(
-                    this.driftingAMM.quote.liquidity.reserve?.getWidth() ?? 0,
-                    this.driftingAMM.base.liquidity.getInventoryWidth()
-                ),
-                qty: (
-                    this.driftingAMM.quote.liquidity.reserve?.getReserveQty() ??
-                    ECs.zero()
-                )
-                    .add(
-                        this.driftingAMM.base.liquidity.inventory.reduce(
-                            (prev, cur) =>
-                                prev.add(cur.getRespectiveInventoryQty()),
-                            ECs.zero()
-                        )
-                    )
-                    .add(
-                        this.driftingAMM.quote.currentTick.getCurrentReserve()
-                    ),
-            };
+        // a fresh bucket has nothing at the current tick yet, so the next one counts too
+        const liquidity = (amm: AMM) => {
+            const next = amm.liquidity.reserve;
 
-            stable = {
-                width: this.stableAMM.quote.liquidity.reserve!.getWidth(),
-                qty: (
-                    this.stableAMM.quote.liquidity.reserve?.getReserveQty() ??
-                    ECs.zero()
-                )
-                    .add(
-                        this.stableAMM.base.liquidity.inventory.reduce(
-                            (prev, cur) =>
-                                prev.add(cur.getRespectiveInventoryQty()),
-                            ECs.zero()
-                        )
-                    )
-                    .add(this.stableAMM.quote.currentTick.getCurrentReserve()),
-            };
-        } else {
-            expectedOut = args.qtyIn.mul(
-                Beacon.quote(this).price(this.curAbsoluteTick)
+            return amm.currentTick
+                .getTargetReserve()
+                .add(next ? next.peekBest().reserveQty : ECs.zero());
+        };
+        const total = this.sumOverLayers(liquidity)[outSide];
+
+        const bucketFees = this._layers
+            .slice(configured.length)
+            .map((it) =>
+                total.isZero()
+                    ? ECs.zero()
+                    : fees.mul(liquidity(it.amm[outSide])).div(total, "floor")
             );
+        const rest = bucketFees.reduce((a, b) => a.sub(b), fees);
 
-            drifting = {
-                width: Math.max(
-                    this.driftingAMM.base.liquidity.reserve?.getWidth() ?? 0,
-                    this.driftingAMM.quote.liquidity.getInventoryWidth()
-                ),
-                qty: (
-                    this.driftingAMM.base.liquidity.reserve?.getReserveQty() ??
-                    ECs.zero()
-                )
-                    .add(
-                        this.driftingAMM.quote.liquidity.inventory.reduce(
-                            (prev, cur) =>
-                                prev.add(cur.getRespectiveInventoryQty()),
-                            ECs.zero()
-                        )
-                    )
-                    .add(this.driftingAMM.base.currentTick.getCurrentReserve()),
-            };
+        return [
+            ...splitByShares(
+                rest,
+                configured.map((it) => it.params.feeShare)
+            ),
+            ...bucketFees,
+        ];
+    }
 
-            stable = {
-                width: this.stableAMM.base.liquidity.reserve!.getWidth(),
-                qty: (
-                    this.stableAMM.base.liquidity.reserve?.getReserveQty() ??
-                    ECs.zero()
-                )
-                    .add(
-                        this.stableAMM.quote.liquidity.inventory.reduce(
-                            (prev, cur) =>
-                                prev.add(cur.getRespectiveInventoryQty()),
-                            ECs.zero()
-                        )
-                    )
-                    .add(this.stableAMM.base.currentTick.getCurrentReserve()),
-            };
+    /**
+     * The layers from `PoolParams.layers`, the lambda buckets come after them.
+     */
+    private get configuredLayers(): Layer[] {
+        return this._layers.filter((it) => !isLambdaLayer(it.params));
+    }
+
+    private get stretchingLayers(): Layer[] {
+        return this._layers.filter(
+            (it) => it.params.span.kind === "stretching"
+        );
+    }
+
+    /**
+     * `fn` of the base AMMs summed up, and of the quote ones.
+     */
+    private sumOverLayers(
+        fn: (amm: AMM, params: LayerParams) => ECs
+    ): TwoSided<ECs> {
+        const res = { base: ECs.zero(), quote: ECs.zero() };
+
+        for (const { params, amm } of this._layers) {
+            res.base.addAssign(fn(amm.base, params));
+            res.quote.addAssign(fn(amm.quote, params));
         }
 
-        const stablePerTickQty = stable.qty.div(stable.width);
-        const driftingPerTickQty =
-            drifting.width > 0
-                ? drifting.qty.div(drifting.width).add(stablePerTickQty)
-                : ECs.zero();
+        return res;
+    }
+
+    public get clock(): Clock {
+        return this._clock;
+    }
 
-        const driftingConsumedTicks =
-            drifting.width > 0
-                ? Math.ceil(expectedOut.div(driftingPerTickQty).toNumber())
-                : 0;
+    public get driftParams(): DriftParams {
+        return this._drift;
+    }
 
-        if (driftingConsumedTicks <= drifting.width)
-            return driftingConsumedTicks;
+    public get stretchAnchor(): StretchAnchor {
+        return this._stretchAnchor;
+    }
 
-        expectedOut.subAssign(drifting.qty);
+    public get inventoryShape(): InventoryShape {
+        return this._inventoryShape;
+    }
 
-        const stableConsumedTicks = Math.ceil(
-            expectedOut.div(stablePerTickQty).toNumber()
-        );
+    /**
+     * Turns the protocol fee on (or off, with 0), applies to the swaps from now on.
+     */
+    public setProtocolFee(protocolFee: ECs) {
+        if (protocolFee.isNegative() || protocolFee.gt(ECs.one()))
+            throw new InvalidArgumentError({
+                argument: "protocolFee",
+                detail: `should be in [0, 1]: ${protocolFee}`,
+            });
 
-        if (stableConsumedTicks <= stable.width)
-            return driftingConsumedTicks + stableConsumedTicks;
+        this._protocolFee = protocolFee.clone();
+    }
 
-        panic("Too big price impact");
+    public get protocolFee(): ECs {
+        return this._protocolFee.clone();
     }
 
-    private calculateFees(il: ECs, width: ECs): ECs {
-        const ilFees = MIN_FEES.add(
-            il.le(ECs.half())
-                ? MAX_FEES.mul(il).div(ECs.half())
-                : MAX_FEES.clone()
-        );
+    /**
+     * Takes everything out of the protocol treasury.
+     */
+    public collectProtocolFees(): TwoSided<ECs> {
+        const collected = this._treasury;
+        this._treasury = { base: ECs.zero(), quote: ECs.zero() };
+
+        return collected;
+    }
+
+    public get recoveryStrategy(): RecoveryStrategy {
+        return this._recoveryStrategy;
+    }
+
+    public get recoveryLimiter(): RecoveryLimiterParams | undefined {
+        return this._recoveryLimiter;
+    }
 
-        const widthFees = MIN_FEES.add(
-            MAX_FEES.mul(width.gt(ECs.one()) ? ECs.one() : width)
+    /**
+     * The oracle accumulators `secondsAgo` before now, for each of `secondsAgos`, like Uniswap V3's `observe`.
+     * Throws an `InvalidArgumentError` if any of them is older than the oldest observation.
+     */
+    public observe(secondsAgos: number[]): ObserveResult {
+        return this._oracle.observe(
+            this._clock.now(),
+            secondsAgos,
+            this.curAbsoluteTick,
+            this.curTickLiquidity
         );
+    }
+
+    /**
+     * The time-weighted average absolute tick over the last `seconds`.
+     */
+    public twapTick(seconds: number): number {
+        if (!(seconds > 0))
+            throw new InvalidArgumentError({
+                argument: "seconds",
+                detail: `should be positive: ${seconds}`,
+            });
 
-        return ilFees.add(widthFees).div(2);
+        const { tickCumulatives } = this.observe([seconds, 0]);
+
+        return (tickCumulatives[1] - tickCumulatives[0]) / seconds;
     }
 
-    public get liquidityDigest(): LiquidityDigestAbsolute {
-        const db = this.driftingAMM.base.liquidityDigest;
-        const dq = this.driftingAMM.quote.liquidityDigest;
-        const sb = this.stableAMM.base.liquidityDigest;
-        const sq = this.stableAMM.quote.liquidityDigest;
+    /**
+     * Lets the oracle keep more observations, the cardinality never shrinks.
+     */
+    public growOracleCardinality(cardinality: number) {
+        this._oracle.grow(cardinality);
+    }
 
-        // collect and verify current tick idx invariant
+    public get oracleCardinality(): number {
+        return this._oracle.cardinality;
+    }
 
-        const curIdx = db.curTick.idx;
-        if (
-            db.curTick.idx !== curIdx ||
-            dq.curTick.idx !== curIdx ||
-            sb.curTick.idx !== curIdx ||
-            sq.curTick.idx !== curIdx
-        ) {
-            panic(
-                `[Pool] Ticks don't match: drifting-base=${db.curTick.idx}, drifting-quote=${dq.curTick.idx}, stable-base=${sb.curTick.idx}, stable-quote=${sq.curTick.idx}`
+    /**
+     * The quote value of the current ticks of all AMMs, what the oracle weights the time by.
+     */
+    private get curTickLiquidity(): ECs {
+        const price = Beacon.base(this).price(this.curAbsoluteTick);
+        const liquidity = ECs.zero();
+
+        for (const { amm } of this._layers) {
+            liquidity.addAssign(
+                amm.base.currentTick.getTargetReserve().mul(price)
             );
+            liquidity.addAssign(amm.quote.currentTick.getTargetReserve());
         }
 
-        // collect all liquidity from the current tick
+        return liquidity;
+    }
 
-        const baseCurTickLiq = db.curTick.reserve
-            .add(dq.curTick.inventory)
-            .add(sb.curTick.reserve)
-            .add(sq.curTick.inventory);
+    /**
+     * Estimates how far (in absolute ticks) the price moves after the swap, without cloning the pool.
+     * Never throws because of a lack of liquidity, reports it in the result instead.
+     * The recovery bins follow the recovery strategy of the pool, whichever it is.
+     * With the delayed drift, the reserve edges due to move before the swap are not accounted for,
+     * neither is the recovery limiter (the recovery bins are assumed to sell all they can).
+     */
+    public estimatePriceImpactTicks(args: SwapArgs): PriceImpactEstimate {
+        const qtyIn = args.qtyIn.sub(
+            args.qtyIn.mul(this.getFeeFactor(args.direction), "ceil")
+        );
+        const s = this._tickMath.tickSpacing;
+
+        return estimatePriceImpact(
+            this.swapLegs(args.direction),
+            this._orderBook.getRestingQtyIn(args.direction),
+            qtyIn,
+            this.curAbsoluteTick,
+            args.direction === "base -> quote" ? -s : s,
+            this._tickMath,
+            this._recoveryStrategy
+        );
+    }
 
-        const quoteCurTickLiq = dq.curTick.reserve
-            .add(db.curTick.inventory)
-            .add(sq.curTick.reserve)
-            .add(sb.curTick.inventory);
+    public get liquidityDigest(): LiquidityDigestAbsolute {
+        const layers: LiquidityDigestAbsolute["layers"] = {};
+        const currentTick = { base: ECs.zero(), quote: ECs.zero() };
+        const recoveryBinCollateral = { base: ECs.zero(), quote: ECs.zero() };
 
-        // collect all collateral
+        // collect and verify current tick idx invariant
 
-        const baseRecoveryBin = dq.recoveryBin.collateral.add(
-            sq.recoveryBin.collateral
-        );
-        const quoteRecoveryBin = db.recoveryBin.collateral.add(
-            sb.recoveryBin.collateral
-        );
+        const curIdx = this.curAbsoluteTick;
+
+        for (const { params, amm } of this._layers) {
+            const b = amm.base.liquidityDigest;
+            const q = amm.quote.liquidityDigest;
+
+            if (b.curTick.idx !== curIdx || q.curTick.idx !== curIdx) {
+                throw new InvariantViolationError({
+                    component: "Pool",
+                    detail: `Ticks don't match: pool=${curIdx}, ${params.name}-base=${b.curTick.idx}, ${params.name}-quote=${q.curTick.idx}`,
+                });
+            }
+
+            // collect all liquidity from the current tick
+
+            currentTick.base.addAssign(
+                b.curTick.reserve.add(q.curTick.inventory)
+            );
+            currentTick.quote.addAssign(
+                q.curTick.reserve.add(b.curTick.inventory)
+            );
+
+            // collect all collateral
+
+            recoveryBinCollateral.base.addAssign(q.recoveryBin.collateral);
+            recoveryBinCollateral.quote.addAssign(b.recoveryBin.collateral);
+
+            layers[params.name] = {
+                base: { reserve: b.reserve, inventory: b.inventory },
+                quote: { reserve: q.reserve, inventory: q.inventory },
+            };
+        }
+
+        const primary = this.stretchingLayers[0] ?? this._layers[0];
 
         return {
-            base: {
-                reserve: db.reserve,
-                inventory: db.inventory,
-            },
-            quote: {
-                reserve: dq.reserve,
-                inventory: dq.inventory,
-            },
+            ...layers[primary.params.name],
+            layers,
             currentTick: {
                 idx: curIdx,
-                base: baseCurTickLiq,
-                quote: quoteCurTickLiq,
+                ...currentTick,
             },
-            recoveryBinCollateral: {
-                base: baseRecoveryBin,
-                quote: quoteRecoveryBin,
+            recoveryBinCollateral,
+            stretch: {
+                anchor: this._stretchAnchor,
+                target: {
+                    base: this.stretchTarget(primary, "base", "quote"),
+                    quote: this.stretchTarget(primary, "quote", "base"),
+                },
             },
         };
     }
 
     public get overallReserve(): TwoSided<ECs> {
-        const base = this.driftingAMM.base
-            .getActualReserve()
-            .add(this.stableAMM.base.getActualReserve())
-            .add(
-                this.driftingAMM.base
-                    .getRespectiveReserve()
-                    .add(this.stableAMM.base.getRespectiveReserve())
-            );
-
-        const quote = this.driftingAMM.quote
-            .getActualReserve()
-            .add(this.stableAMM.quote.getActualReserve())
-            .add(
-                this.driftingAMM.quote
-                    .getRespectiveReserve()
-                    .add(this.stableAMM.quote.getRespectiveReserve())
-            );
-
-        return { base, quote };
+        return this.sumOverLayers((amm) =>
+            amm.getActualReserve().add(amm.getRespectiveReserve())
+        );
     }
 
     public get tvlQuote(): ECs {
@@ -540,76 +1958,69 @@ export class Pool {
     }
 
     public get stats(): TwoSided<Stats> {
-        const actualBaseInv = this.driftingAMM.base
-            .getActualInventory()
-            .add(this.stableAMM.base.getActualInventory());
-
-        const base: Stats = {
-            depositedReserve: this.driftingAMM.base
-                .getDepositedReserve()
-                .add(this.stableAMM.base.getDepositedReserve()),
-            actualReserve: this.driftingAMM.base
-                .getActualReserve()
-                .add(this.stableAMM.base.getActualReserve()),
-            actualInventory: actualBaseInv,
-            respectiveReserve: this.driftingAMM.base
-                .getRespectiveReserve()
-                .add(this.stableAMM.base.getRespectiveReserve()),
-            expectedReserveFromExit: actualBaseInv.mul(
-                absoluteTickToPrice(this.curAbsoluteTick, "base", "inventory")
-            ),
-            collateral: this.driftingAMM.base.currentTick
-                .getRecoveryBin()
-                .getCollateral()
-                .add(
-                    this.stableAMM.base.currentTick
-                        .getRecoveryBin()
-                        .getCollateral()
-                ),
-        };
-
-        const actualQuoteInv = this.driftingAMM.quote
-            .getActualInventory()
-            .add(this.stableAMM.quote.getActualInventory());
-
-        const quote: Stats = {
-            depositedReserve: this.driftingAMM.quote
-                .getDepositedReserve()
-                .add(this.stableAMM.quote.getDepositedReserve()),
-            actualReserve: this.driftingAMM.quote
-                .getActualReserve()
-                .add(this.stableAMM.quote.getActualReserve()),
-            actualInventory: actualQuoteInv,
-            respectiveReserve: this.driftingAMM.quote
-                .getRespectiveReserve()
-                .add(this.stableAMM.quote.getRespectiveReserve()),
-            expectedReserveFromExit: actualQuoteInv.mul(
-                absoluteTickToPrice(this.curAbsoluteTick, "quote", "inventory")
-            ),
-            collateral: this.driftingAMM.quote.currentTick
-                .getRecoveryBin()
-                .getCollateral()
-                .add(
-                    this.stableAMM.quote.currentTick
-                        .getRecoveryBin()
-                        .getCollateral()
+        const stats = (side: Side): Stats => {
+            const sum = (fn: (amm: AMM) => ECs) => this.sumOverLayers(fn)[side];
+            const actualInventory = sum((amm) => amm.getActualInventory());
+
+            return {
+                asset: this._assets[side],
+                depositedReserve: sum((amm) => amm.getDepositedReserve()),
+                actualReserve: sum((amm) => amm.getActualReserve()),
+                actualInventory,
+                respectiveReserve: sum((amm) => amm.getRespectiveReserve()),
+                expectedReserveFromExit: actualInventory.mul(
+                    this._tickMath.price(
+                        this.curAbsoluteTick,
+                        side,
+                        "inventory"
+                    )
                 ),
+                collateral: sum((amm) => amm.getCollateral()),
+                protocolFees: this._treasury[side].clone(),
+            };
         };
 
-        return { base, quote };
+        return { base: stats("base"), quote: stats("quote") };
     }
 }
 
+/**
+ * Converts the reserve/inventory amounts of the AMM into base/quote ones.
+ */
+function toWithdrawReceipt(
+    side: Side,
+    res: WithdrawResult
+): Record<WithdrawSource, TwoSided<ECs>> {
+    const bySide = (reserve: ECs, inventory: ECs): TwoSided<ECs> =>
+        side === "base"
+            ? { base: reserve, quote: inventory }
+            : { base: inventory, quote: reserve };
+
+    return {
+        reserveRange: bySide(res.reserveRange, ECs.zero()),
+        inventoryRanges: bySide(ECs.zero(), res.inventoryRanges),
+        currentTick: bySide(res.currentTick.reserve, res.currentTick.inventory),
+        collateral: bySide(ECs.zero(), res.collateral),
+    };
+}
+
 export type Stats = {
+    asset: Asset;
     depositedReserve: ECs;
     actualReserve: ECs;
     actualInventory: ECs;
     respectiveReserve: ECs;
     expectedReserveFromExit: ECs;
     collateral: ECs;
+    /** Collected, but not yet taken out of the protocol treasury. */
+    protocolFees: ECs;
 };
 
+/**
+ * The ranges of the layers, the stats of the current tick and of the recovery bins summed up over all of them.
+ */
 export type LiquidityDigestAbsolute = {
+    /** The ranges of the first stretching layer (of the first layer, if there is none). */
     base: {
         reserve?: Range;
         inventory: Range[];
@@ -618,6 +2029,10 @@ export type LiquidityDigestAbsolute = {
         reserve?: Range;
         inventory: Range[];
     };
+    layers: Record<
+        LayerName,
+        TwoSided<{ reserve?: Range; inventory: Range[] }>
+    >;
     currentTick: {
         idx: number;
         base: ECs;
@@ -627,4 +2042,9 @@ export type LiquidityDigestAbsolute = {
         base: ECs;
         quote: ECs;
     };
+    stretch: {
+        anchor: StretchAnchor;
+        /** The tick the worst edge of the stretching reserve of the side is heading to, if any. */
+        target: TwoSided<number | undefined>;
+    };
 };
@@ -0,0 +1,161 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { Position } from "./position.ts";
+import { makePool } from "./test-utils.ts";
+
+/** Equal up to the rounding dust of the share math. */
+function assertDust(actual: ECs, expected: ECs) {
+    assert(
+        actual.sub(expected).abs().lt(ECs.fromString("1e-24")),
+        `${actual} != ${expected}`
+    );
+}
+
+/** the quote positions of the initial LP and of a tenth as big `bob`, then the trades that leave them with IL and collateral */
+function twoLps() {
+    const pool = makePool();
+    const [, initial] = pool.positions();
+    const bob = pool.deposit("quote", ECs.fromString("900000"), "bob");
+
+    for (let i = 0; i < 3; i++) {
+        pool.swap({ qtyIn: ECs.fromString("4"), direction: "base -> quote" });
+        pool.swap({
+            qtyIn: ECs.fromString("100000"),
+            direction: "quote -> base",
+        });
+    }
+    pool.swap({ qtyIn: ECs.fromString("5"), direction: "base -> quote" });
+
+    return { pool, initial, bob };
+}
+
+Deno.test("deposits mint positions of their owners", () => {
+    const pool = makePool();
+    const bob = pool.deposit("quote", ECs.fromString("900000"), "bob");
+
+    assertEquals(pool.positions("bob"), [bob]);
+    assertEquals(pool.positions().length, 3);
+
+    const stats = pool.positionStats(bob);
+    assertEquals(stats.owner, "bob");
+    assertEquals(stats.side, "quote");
+    assert(stats.depositedReserve.eq(ECs.fromString("900000")));
+    assert(
+        stats.value
+            .sub(stats.depositedReserve)
+            .abs()
+            .lt(ECs.fromString("0.000001"))
+    );
+    assert(stats.il.isZero());
+    assertThrows(() => pool.positionStats(42), InvalidArgumentError);
+});
+
+Deno.test("the positions of a side share its PnL pro rata", () => {
+    const { pool, initial, bob } = twoLps();
+    const a = pool.positionStats(initial);
+    const b = pool.positionStats(bob);
+
+    assert(b.il.isPositive());
+    assert(b.collateral.isPositive());
+    assert(b.il.sub(a.il).abs().lt(ECs.fromString("0.000000001")));
+    assert(
+        b.value.mul(10).sub(a.value).abs().lt(ECs.fromString("0.000001")),
+        `${b.value} * 10 != ${a.value}`
+    );
+    for (const layer of Object.keys(b.share)) {
+        assert(
+            b.share[layer]
+                .mul(10)
+                .sub(a.share[layer])
+                .abs()
+                .lt(ECs.fromString("0.000000001"))
+        );
+    }
+});
+
+Deno.test("a position is withdrawn by fractions until it is closed", () => {
+    const { pool, bob } = twoLps();
+    const deposited = pool.positionStats(bob).depositedReserve;
+
+    pool.withdraw(bob, ECs.fromString("0.5"));
+    assert(pool.positionStats(bob).depositedReserve.eq(deposited.div(2)));
+
+    pool.withdraw(bob);
+    assertEquals(pool.positions("bob"), []);
+    assertThrows(() => pool.withdraw(bob), InvalidArgumentError);
+});
+
+Deno.test(
+    "the receipt has everything the position takes out of the pool",
+    () => {
+        const { pool, bob } = twoLps();
+        const before = pool.stats.quote;
+        const collateral = pool.positionStats(bob).collateral;
+
+        const receipt = pool.withdraw(bob);
+        const after = pool.stats.quote;
+
+        assertEquals(Object.keys(receipt.layers), ["stable", "drifting"]);
+        assertEquals(receipt.side, "quote");
+
+        const sum = (fn: (it: (typeof receipt.layers)[string]) => ECs) =>
+            Object.values(receipt.layers).reduce(
+                (acc, it) => acc.add(fn(it)),
+                ECs.zero()
+            );
+
+        // the quote AMMs keep the reserve in quote and the inventory in base
+        assert(
+            receipt.total.quote.eq(
+                before.actualReserve.sub(after.actualReserve)
+            )
+        );
+        assertDust(
+            sum((it) => it.inventoryRanges.base.add(it.currentTick.base)),
+            before.actualInventory.sub(after.actualInventory)
+        );
+        assertDust(
+            sum((it) => it.collateral.base),
+            before.collateral.sub(after.collateral)
+        );
+        assert(sum((it) => it.collateral.quote).isZero());
+
+        // the collateral of the receipt is the one the position was shown
+        assert(sum((it) => it.collateral.base).isPositive());
+        assertDust(
+            sum((it) => it.collateral.base),
+            collateral
+        );
+        assert(
+            receipt.total.base.eq(
+                sum((it) =>
+                    it.inventoryRanges.base
+                        .add(it.currentTick.base)
+                        .add(it.collateral.base)
+                )
+            )
+        );
+    }
+);
+
+Deno.test("burning the whole position leaves no dust", () => {
+    const p = new Position(
+        1,
+        "bob",
+        "base",
+        { stable: ECs.fromString("0.3333333"), drifting: ECs.fromString("7") },
+        { stable: ECs.fromString("1"), drifting: ECs.fromString("21") },
+        0
+    );
+
+    const half = p.burn(ECs.fromString("0.5"));
+    assert(
+        half.shares.stable.add(p.shares.stable).eq(ECs.fromString("0.3333333"))
+    );
+    assert(!p.isEmpty());
+
+    p.burn(ECs.one());
+    assert(p.isEmpty());
+    assert(p.depositedReserve.drifting.isZero());
+});
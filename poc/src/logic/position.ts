@@ -0,0 +1,172 @@
+import { ECs } from "./ecs.ts";
+import { type Asset } from "./asset.ts";
+import { type Side } from "./utils.ts";
+import { type LayerName } from "./layer.ts";
+import { type Timestamp } from "./clock.ts";
+
+export type PositionId = number;
+
+/** The owner of the positions minted without an explicit one, e.g. the initial liquidity of a pool. */
+export const DEFAULT_OWNER = "default";
+
+/**
+ * What a position is worth right now, see `Pool.positionStats`.
+ */
+export type PositionStats = {
+    id: PositionId;
+    owner: string;
+    side: Side;
+    asset: Asset;
+    openedAt: Timestamp;
+    /** The share of the AMM of each layer on the side owned by the position, from 0 to 1. */
+    share: Record<LayerName, ECs>;
+    depositedReserve: ECs;
+    actualReserve: ECs;
+    actualInventory: ECs;
+    /** The fees collected by the recovery bins, in the inventory asset. */
+    collateral: ECs;
+    /** Everything the position would get on exit, valued in the reserve asset at the current price. */
+    value: ECs;
+    il: ECs;
+    /** `value - depositedReserve` */
+    pnl: ECs;
+};
+
+/**
+ * `Position` as plain data, see `Pool.toState`. The ECs are kept in raw units.
+ */
+export type PositionState = {
+    id: PositionId;
+    owner: string;
+    side: Side;
+    shares: Record<LayerName, string>;
+    depositedReserve: Record<LayerName, string>;
+    openedAt: Timestamp;
+};
+
+/**
+ * Liquidity of a single LP on one side of the pool.
+ *
+ * A deposit is split between the layers of the pool on the side (or goes to a single lambda bucket), and the AMM
+ * of each of them mints shares in return. The shares are what the position owns, so its part of the AMMs grows with the collected fees
+ * and shrinks with IL, no matter how the other LPs come and go.
+ */
+export class Position {
+    constructor(
+        private _id: PositionId,
+        private _owner: string,
+        private _side: Side,
+        private _shares: Record<LayerName, ECs>,
+        private _depositedReserve: Record<LayerName, ECs>,
+        private _openedAt: Timestamp
+    ) {}
+
+    public clone(): Position {
+        return new Position(
+            this._id,
+            this._owner,
+            this._side,
+            cloneRecord(this._shares),
+            cloneRecord(this._depositedReserve),
+            this._openedAt
+        );
+    }
+
+    public static fromState(state: PositionState): Position {
+        return new Position(
+            state.id,
+            state.owner,
+            state.side,
+            recordFromState(state.shares),
+            recordFromState(state.depositedReserve),
+            state.openedAt
+        );
+    }
+
+    public toState(): PositionState {
+        return {
+            id: this._id,
+            owner: this._owner,
+            side: this._side,
+            shares: recordToState(this._shares),
+            depositedReserve: recordToState(this._depositedReserve),
+            openedAt: this._openedAt,
+        };
+    }
+
+    /**
+     * Takes the `fraction` of the shares (and of the deposited reserve) out of the position.
+     * Taking the whole position never leaves any dust behind.
+     */
+    public burn(fraction: ECs): {
+        shares: Record<LayerName, ECs>;
+        depositedReserve: Record<LayerName, ECs>;
+    } {
+        const shares: Record<LayerName, ECs> = {};
+        const depositedReserve: Record<LayerName, ECs> = {};
+        const all = fraction.eq(ECs.one());
+
+        for (const layer of Object.keys(this._shares)) {
+            const burnt = all
+                ? this._shares[layer].clone()
+                : this._shares[layer].mul(fraction, "floor");
+            const basis = all
+                ? this._depositedReserve[layer].clone()
+                : this._depositedReserve[layer].mul(fraction, "floor");
+
+            this._shares[layer].subAssign(burnt);
+            this._depositedReserve[layer].subAssign(basis);
+
+            shares[layer] = burnt;
+            depositedReserve[layer] = basis;
+        }
+
+        return { shares, depositedReserve };
+    }
+
+    public isEmpty(): boolean {
+        return Object.values(this._shares).every((it) => it.isZero());
+    }
+
+    public get id(): PositionId {
+        return this._id;
+    }
+
+    public get owner(): string {
+        return this._owner;
+    }
+
+    public get side(): Side {
+        return this._side;
+    }
+
+    public get openedAt(): Timestamp {
+        return this._openedAt;
+    }
+
+    public get shares(): Record<LayerName, ECs> {
+        return cloneRecord(this._shares);
+    }
+
+    public get depositedReserve(): Record<LayerName, ECs> {
+        return cloneRecord(this._depositedReserve);
+    }
+}
+
+function cloneRecord(r: Record<LayerName, ECs>): Record<LayerName, ECs> {
+    return Object.fromEntries(
+        Object.entries(r).map(([k, v]) => [k, v.clone()])
+    );
+}
+
+function recordToState(r: Record<LayerName, ECs>): Record<LayerName, string> {
+    return Object.fromEntries(
+        Object.entries(r).map(([k, v]) => [k, v.raw.toString()])
+    );
+}
+
+function recordFromState(r: Record<LayerName, string>): Record<LayerName, ECs> {
+    return Object.fromEntries(
+        Object.entries(r).map(([k, v]) => [k, new ECs(BigInt(v))])
+    );
+}
@@ -0,0 +1,178 @@
+import { assert, assertEquals } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { Pool, type SwapArgs } from "./pool.ts";
+import { TickMath } from "./tick-math.ts";
+import { LAMBDA_3 } from "./lambda.ts";
+import {
+    ClosestFirstRecovery,
+    ProportionalRecovery,
+    WorstFirstRecovery,
+} from "./recovery-strategy.ts";
+import { makePool } from "./test-utils.ts";
+
+function assertMatchesQuote(pool: Pool, args: SwapArgs) {
+    const estimate = pool.estimatePriceImpactTicks(args);
+    const quote = pool.quote(args);
+
+    assertEquals(
+        estimate.ticks,
+        Math.abs(quote.postTradeTick - pool.curAbsoluteTick),
+        `${args.direction} of ${args.qtyIn}`
+    );
+    assertEquals(estimate.exhausted, quote.qtyInUnfilled.isPositive());
+}
+
+Deno.test("the estimate matches the quote on a fresh pool", () => {
+    const pool = makePool();
+
+    for (const qty of ["0.001", "0.5", "3", "20"]) {
+        assertMatchesQuote(pool, {
+            qtyIn: ECs.fromString(qty),
+            direction: "base -> quote",
+        });
+    }
+
+    for (const qty of ["100", "50000", "300000", "2000000"]) {
+        assertMatchesQuote(pool, {
+            qtyIn: ECs.fromString(qty),
+            direction: "quote -> base",
+        });
+    }
+});
+
+Deno.test("the estimate matches the quote after a reversal", () => {
+    const pool = makePool();
+    pool.swap({ qtyIn: ECs.fromString("5"), direction: "base -> quote" });
+
+    // the way back goes through the inventory and the recovery bins first
+    for (const qty of ["1000", "200000", "800000"]) {
+        assertMatchesQuote(pool, {
+            qtyIn: ECs.fromString(qty),
+            direction: "quote -> base",
+        });
+    }
+});
+
+for (const Strategy of [
+    WorstFirstRecovery,
+    ClosestFirstRecovery,
+    ProportionalRecovery,
+]) {
+    for (const holdLeftover of [false, true]) {
+        Deno.test(
+            `the estimate replays the recovery strategy (${Strategy.name}, holdLeftover: ${holdLeftover})`,
+            () => {
+                const pool = makePool({
+                    recoveryStrategy: new Strategy({ holdLeftover }),
+                });
+
+                // the swaps back and forth leave underwater inventory and collected fees on both sides
+                for (let i = 0; i < 20; i++) {
+                    pool.swap({
+                        qtyIn: ECs.fromString(`${1 + (i % 4)}`),
+                        direction: "base -> quote",
+                    });
+                    pool.swap({
+                        qtyIn: ECs.fromString(`${100_000 * (1 + (i % 3))}`),
+                        direction: "quote -> base",
+                    });
+                }
+
+                for (const qty of ["500", "20000", "150000", "600000"]) {
+                    assertMatchesQuote(pool, {
+                        qtyIn: ECs.fromString(qty),
+                        direction: "quote -> base",
+                    });
+                }
+
+                for (const qty of ["0.01", "0.3", "2", "9"]) {
+                    assertMatchesQuote(pool, {
+                        qtyIn: ECs.fromString(qty),
+                        direction: "base -> quote",
+                    });
+                }
+            }
+        );
+    }
+}
+
+Deno.test("the estimate walks the decaying reserve of a lambda bucket", () => {
+    const pool = makePool();
+    pool.deposit("quote", ECs.fromString("3_000_000"), "l", LAMBDA_3);
+
+    for (const qty of ["5", "30", "60"]) {
+        assertMatchesQuote(pool, {
+            qtyIn: ECs.fromString(qty),
+            direction: "base -> quote",
+        });
+    }
+});
+
+Deno.test("the estimate walks the piecewise-linear inventory ranges", () => {
+    const pool = makePool({ inventoryShape: "piecewise-linear" });
+
+    // the deposits change the reserve per tick, so the inventory ticks are not on a straight line
+    for (let i = 1; i <= 40; i++) {
+        pool.swap({ qtyIn: ECs.fromString("2"), direction: "base -> quote" });
+        pool.deposit("quote", ECs.fromString(`${300_000 * (1 + (i % 7))}`));
+    }
+
+    for (const qty of ["1000000", "3000000", "8000000"]) {
+        assertMatchesQuote(pool, {
+            qtyIn: ECs.fromString(qty),
+            direction: "quote -> base",
+        });
+    }
+});
+
+Deno.test(
+    "the estimate reports running out of liquidity like the quote",
+    () => {
+        // a close upper bound keeps the walk to the end of the liquidity short
+        const pool = makePool(undefined, new TickMath({ maxTick: 120000 }));
+        const args: SwapArgs = {
+            qtyIn: ECs.fromString("50_000_000"),
+            direction: "quote -> base",
+        };
+
+        assert(pool.estimatePriceImpactTicks(args).exhausted);
+        assertMatchesQuote(pool, args);
+    }
+);
+
+Deno.test("the estimate fills the resting orders before the AMMs", () => {
+    const pool = makePool();
+    const cur = pool.curAbsoluteTick;
+    pool.placeOrder("base", cur, ECs.fromString("2"));
+    pool.placeOrder("base", cur + 1, ECs.fromString("5"));
+    pool.placeOrder("base", cur + 30, ECs.fromString("20"));
+    pool.placeOrder("base", cur + 3000, ECs.fromString("10"));
+    pool.placeOrder("quote", cur - 10, ECs.fromString("300000"));
+
+    for (const qty of ["100000", "400000", "1500000", "4000000", "9000000"]) {
+        assertMatchesQuote(pool, {
+            qtyIn: ECs.fromString(qty),
+            direction: "quote -> base",
+        });
+    }
+
+    for (const qty of ["1", "5", "20"]) {
+        assertMatchesQuote(pool, {
+            qtyIn: ECs.fromString(qty),
+            direction: "base -> quote",
+        });
+    }
+});
+
+Deno.test("the estimate doesn't change the pool", () => {
+    const pool = makePool();
+    const before = pool.curAbsoluteTick;
+
+    const estimate = pool.estimatePriceImpactTicks({
+        qtyIn: ECs.fromString("10"),
+        direction: "base -> quote",
+    });
+
+    assert(estimate.ticks > 0);
+    assertEquals(pool.curAbsoluteTick, before);
+});
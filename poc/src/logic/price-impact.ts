@@ -0,0 +1,503 @@
+import { ECs } from "./ecs.ts";
+import { type TickMath } from "./tick-math.ts";
+import { type Range } from "./range.ts";
+import { sliceSum, UNIFORM, weightAt, type RangeShape } from "./range-shape.ts";
+import { type AMM } from "./amm.ts";
+import { type Liquidity } from "./liquidity.ts";
+import {
+    proportionalShare,
+    type RecoveryStrategy,
+} from "./recovery-strategy.ts";
+import { type AMMSwapDirection, type Side } from "./utils.ts";
+
+export type PriceImpactEstimate = {
+    /** How far (in absolute ticks) the price moves. */
+    ticks: number;
+    /**
+     * Whether the pool runs out of liquidity before the whole input is swapped.
+     * `ticks` is then the distance to the last tick that still has some liquidity.
+     */
+    exhausted: boolean;
+};
+
+/**
+ * The ticks of a range the swap hasn't passed yet, `first` is the one it reaches first.
+ * The reserve of a tick is `unit * weightAt(shape, offset)`, where the offsets count from the best tick of the range,
+ * `firstOffset` and `lastOffset` are the ones of `first` and `last`.
+ */
+type Segment = {
+    first: number;
+    last: number;
+    unit: ECs;
+    shape: RangeShape;
+    firstOffset: number;
+    lastOffset: number;
+};
+
+type LegState = {
+    side: Side;
+    direction: AMMSwapDirection;
+    segments: Segment[];
+};
+
+/**
+ * Estimates how far the price moves after swapping `qtyIn` (fees already taken), without touching the pool.
+ * `orders` is the input the resting limit orders of a tick take, see `OrderBook.getRestingQtyIn`.
+ * The recovery bins repair the inventory the way `recovery` does.
+ *
+ * It replays what `Pool._swap` does, but range-by-range instead of tick-by-tick: the orders and the current ticks
+ * and the recovery bins are consumed first, then the ticks are walked in pieces, where no range starts or ends and
+ * only the last tick can have orders. Inside such a piece every AMM takes either the reserve of the ticks
+ * (inventory ranges), or the reserve times the tick price (reserve ranges), both have a closed form for every
+ * range shape (see `sliceSum`).
+ *
+ * The result is exact up to rounding dust, which can only matter when the input ends right at a tick boundary.
+ */
+export function estimatePriceImpact(
+    legs: [AMM, AMMSwapDirection][],
+    orders: Map<number, ECs>,
+    qtyIn: ECs,
+    curTick: number,
+    step: number,
+    tm: TickMath,
+    recovery: RecoveryStrategy
+): PriceImpactEstimate {
+    const remaining = qtyIn.sub(orders.get(curTick) ?? ECs.zero());
+    const states: LegState[] = [];
+
+    // the ticks ahead with orders, in the order the swap reaches them
+    const orderTicks = [...orders.keys()]
+        .filter((it) => beyond(curTick, it, step))
+        .sort((a, b) => (a - b) * step);
+
+    for (const [amm, direction] of legs) {
+        const { currentTick, liquidity, side } = amm;
+
+        if (direction === "reserve -> inventory") {
+            const segments = toSegments(liquidity.inventory, curTick, step);
+
+            remaining.subAssign(
+                recover(
+                    segments,
+                    liquidity,
+                    currentTick.getRecoveryBin().getCollateral(),
+                    remaining,
+                    side,
+                    curTick,
+                    tm,
+                    recovery
+                )
+            );
+            remaining.subAssign(
+                currentTick
+                    .getTargetReserve()
+                    .sub(currentTick.getCurrentReserve())
+            );
+
+            states.push({ side, direction, segments });
+        } else {
+            remaining.subAssign(
+                currentTick
+                    .getCurrentReserve()
+                    .mul(tm.price(curTick, side, "reserve"))
+            );
+
+            const reserve = liquidity.reserve;
+            states.push({
+                side,
+                direction,
+                segments: reserve ? toSegments([reserve], curTick, step) : [],
+            });
+        }
+    }
+
+    if (!remaining.isPositive()) return { ticks: 0, exhausted: false };
+
+    const s = tm.tickSpacing;
+    let tick = curTick + step;
+    let lastLiquidTick = curTick;
+
+    while (tick >= tm.minTick && tick <= tm.maxTick) {
+        // the piece ends right before the closest range boundary
+        let len =
+            Math.floor((step > 0 ? tm.maxTick - tick : tick - tm.minTick) / s) +
+            1;
+        const parts: ((n: number) => ECs)[] = [];
+        let liquid = false;
+
+        while (orderTicks.length > 0 && beyond(orderTicks[0], tick, step))
+            orderTicks.shift();
+
+        const orderTick = orderTicks[0];
+        if (orderTick !== undefined) {
+            liquid = true;
+            len = Math.min(len, Math.abs(orderTick - tick) / s + 1);
+
+            // the orders are at the last tick of the piece, unless a range boundary comes first
+            const orderN = Math.abs(orderTick - tick) / s + 1;
+            const orderQtyIn = orders.get(orderTick)!;
+            parts.push((n) => (n === orderN ? orderQtyIn : ECs.zero()));
+        }
+
+        for (const st of states) {
+            while (
+                st.segments.length > 0 &&
+                beyond(st.segments[0].last, tick, step)
+            )
+                st.segments.shift();
+
+            const seg = st.segments[0];
+            if (seg === undefined) continue;
+
+            if (beyond(seg.first, tick, step) || seg.first === tick) {
+                liquid = true;
+                len = Math.min(len, Math.abs(seg.last - tick) / s + 1);
+
+                const rest = startingAt(seg, tick, s);
+                if (st.direction === "reserve -> inventory") {
+                    parts.push((n) => walkSum(rest, "first", n, false, tm));
+                } else {
+                    const price = tm.price(tick, st.side, "reserve");
+                    parts.push((n) =>
+                        walkSum(rest, "first", n, true, tm).mul(price)
+                    );
+                }
+            } else {
+                liquid = true;
+                len = Math.min(len, Math.abs(seg.first - tick) / s);
+            }
+        }
+
+        if (!liquid) break;
+
+        const consumed = (n: number) =>
+            parts.reduce((sum, it) => sum.add(it(n)), ECs.zero());
+
+        const piece = consumed(len);
+        if (piece.lt(remaining)) {
+            remaining.subAssign(piece);
+
+            if (piece.isPositive()) lastLiquidTick = tick + (len - 1) * step;
+
+            tick += len * step;
+            continue;
+        }
+
+        // the smallest number of ticks, that consumes the rest of the input
+        let lo = 1;
+        let hi = len;
+        while (lo < hi) {
+            const mid = Math.floor((lo + hi) / 2);
+
+            if (consumed(mid).lt(remaining)) lo = mid + 1;
+            else hi = mid;
+        }
+
+        return {
+            ticks: Math.abs(tick + (lo - 1) * step - curTick),
+            exhausted: false,
+        };
+    }
+
+    return { ticks: Math.abs(lastLiquidTick - curTick), exhausted: true };
+}
+
+/**
+ * Mirrors `RecoveryBin.recover`: the collateral buys back the inventory of `liquidity` in the order of the `strategy`
+ * at the current price, whatever is left is sold as is, if the strategy does so. Returns the absorbed reserve,
+ * the recovered ticks are removed from `segments`.
+ *
+ * Only the proportional share depends on `reserveIn`. The other strategies repair the ticks in a fixed order and
+ * take exactly the input that is left, so they are replayed as if the input was unlimited.
+ */
+function recover(
+    segments: Segment[],
+    liquidity: Liquidity,
+    collateral: ECs,
+    reserveIn: ECs,
+    side: Side,
+    curTick: number,
+    tm: TickMath,
+    strategy: RecoveryStrategy
+): ECs {
+    if (collateral.isZero()) return ECs.zero();
+
+    const absorbed =
+        strategy.order === "proportional"
+            ? repairShare(
+                  segments,
+                  liquidity,
+                  collateral,
+                  reserveIn,
+                  side,
+                  curTick,
+                  tm
+              )
+            : repairTicks(
+                  segments,
+                  collateral,
+                  side,
+                  curTick,
+                  tm,
+                  strategy.order
+              );
+
+    if (!strategy.sellsLeftover) return absorbed;
+
+    return absorbed.add(
+        collateral.mul(tm.price(curTick, side, "inventory"), "ceil")
+    );
+}
+
+/**
+ * Mirrors `WorstFirstRecovery` and `ClosestFirstRecovery`: repairs the ticks one by one from the worst or the closest
+ * end, until the collateral runs out.
+ */
+function repairTicks(
+    segments: Segment[],
+    collateral: ECs,
+    side: Side,
+    curTick: number,
+    tm: TickMath,
+    order: "worst" | "closest"
+): ECs {
+    const absorbed = ECs.zero();
+    const s = tm.tickSpacing;
+    const curPrice = tm.price(curTick, side, "reserve");
+    const worst = order === "worst";
+    const end = worst ? "last" : "first";
+
+    while (segments.length > 0) {
+        const seg = worst ? segments[segments.length - 1] : segments[0];
+        if (seg[end] === curTick) break;
+
+        const width = Math.abs(seg.lastOffset - seg.firstOffset) + 1;
+        const dir = seg.first < seg.last ? 1 : -1;
+        const offsetDir = Math.sign(seg.lastOffset - seg.firstOffset);
+
+        // the `n` ticks from the repaired end, the worst of them is the cheapest one and the prices grow towards
+        // the best tick
+        const head = (n: number): Segment =>
+            worst
+                ? {
+                      ...seg,
+                      first: seg.last - dir * (n - 1) * s,
+                      firstOffset: seg.lastOffset - offsetDir * (n - 1),
+                  }
+                : {
+                      ...seg,
+                      last: seg.first + dir * (n - 1) * s,
+                      lastOffset: seg.firstOffset + offsetDir * (n - 1),
+                  };
+        const missing = (n: number) => {
+            if (n === 0) return ECs.zero();
+
+            const it = head(n);
+            return walkSum(it, "last", n, false, tm)
+                .mul(curPrice)
+                .sub(
+                    walkSum(it, "last", n, true, tm).mul(
+                        tm.price(it.last, side, "reserve")
+                    )
+                );
+        };
+        const remove = () => (worst ? segments.pop() : segments.shift());
+
+        if (missing(width).le(collateral)) {
+            collateral.subAssign(missing(width));
+            absorbed.addAssign(walkSum(seg, end, width, false, tm));
+            remove();
+
+            continue;
+        }
+
+        let lo = 0;
+        let hi = width - 1;
+        while (lo < hi) {
+            const mid = Math.ceil((lo + hi) / 2);
+
+            if (missing(mid).le(collateral)) lo = mid;
+            else hi = mid - 1;
+        }
+
+        collateral.subAssign(missing(lo));
+        absorbed.addAssign(walkSum(seg, end, lo, false, tm));
+
+        const partialTick = worst
+            ? seg.last - dir * lo * s
+            : seg.first + dir * lo * s;
+        const partialOffset = worst
+            ? seg.lastOffset - offsetDir * lo
+            : seg.firstOffset + offsetDir * lo;
+
+        const tickReserve = seg.unit.mul(weightAt(seg.shape, partialOffset));
+        const share = collateral.div(
+            tickReserve.mul(
+                curPrice.sub(tm.price(partialTick, side, "reserve"))
+            ),
+            "floor"
+        );
+        const recovered = tickReserve.mul(share, "ceil");
+
+        const leftover = tickReserve.sub(recovered);
+        absorbed.addAssign(recovered);
+        collateral.subAssign(collateral.clone());
+
+        if (partialTick === (worst ? seg.first : seg.last)) remove();
+        else if (worst) {
+            seg.last = partialTick - dir * s;
+            seg.lastOffset = partialOffset - offsetDir;
+        } else {
+            seg.first = partialTick + dir * s;
+            seg.firstOffset = partialOffset + offsetDir;
+        }
+
+        if (leftover.isPositive()) {
+            const rest: Segment = {
+                first: partialTick,
+                last: partialTick,
+                unit: leftover,
+                shape: UNIFORM,
+                firstOffset: 0,
+                lastOffset: 0,
+            };
+
+            if (worst) segments.push(rest);
+            else segments.unshift(rest);
+        }
+
+        break;
+    }
+
+    return absorbed;
+}
+
+/**
+ * Mirrors `ProportionalRecovery`: repairs the same share of every tick, as much as `reserveIn` buys and the collateral
+ * covers. The share is taken from the ranges themselves, so it's rounded down exactly like the swap does.
+ */
+function repairShare(
+    segments: Segment[],
+    liquidity: Liquidity,
+    collateral: ECs,
+    reserveIn: ECs,
+    side: Side,
+    curTick: number,
+    tm: TickMath
+): ECs {
+    const best = liquidity.getBestInventory();
+    if (best === undefined || best === curTick) return ECs.zero();
+    if (!reserveIn.isPositive()) return ECs.zero();
+
+    const price = tm.price(curTick, side, "reserve");
+    const share = proportionalShare(
+        liquidity,
+        liquidity.getInventoryQty(),
+        price,
+        reserveIn,
+        collateral
+    );
+    if (share.isZero()) return ECs.zero();
+
+    const taken = liquidity.peekInventoryShare(share);
+    collateral.subAssign(
+        taken.reserve.mul(price, "floor").sub(taken.inventory)
+    );
+
+    if (share.eq(ECs.one())) segments.length = 0;
+    for (const seg of segments) seg.unit = seg.unit.sub(seg.unit.mul(share));
+
+    return taken.reserve;
+}
+
+/**
+ * Ranges as segments, sorted in the order the swap reaches them.
+ */
+function toSegments(ranges: Range[], curTick: number, step: number): Segment[] {
+    return ranges
+        .filter((it) => !it.isEmptyNonChecking())
+        .map((it) => {
+            const [first, last] =
+                step > 0
+                    ? [it.getLeft(), it.getRight()]
+                    : [it.getRight(), it.getLeft()];
+            const worstOffset = it.getWidth() - 1;
+            const bestFirst = first === it.getBest();
+
+            return {
+                first,
+                last,
+                unit: it.getUnitReserveQty(),
+                shape: it.shape,
+                firstOffset: bestFirst ? 0 : worstOffset,
+                lastOffset: bestFirst ? worstOffset : 0,
+            };
+        })
+        .filter((it) => !beyond(it.last, curTick, step))
+        .sort((a, b) => (a.first - b.first) * step);
+}
+
+/**
+ * The rest of the segment from `tick` on, `tick` has to be within it.
+ */
+function startingAt(seg: Segment, tick: number, s: number): Segment {
+    const passed = Math.abs(tick - seg.first) / s;
+
+    return {
+        ...seg,
+        first: tick,
+        firstOffset:
+            seg.firstOffset +
+            Math.sign(seg.lastOffset - seg.firstOffset) * passed,
+    };
+}
+
+/**
+ * The reserve of the `n` ticks from the `end` of the segment, when `priced`, every tick is weighted by
+ * `spacingPrice ^ j` instead, where `j` counts the ticks from `end`.
+ */
+function walkSum(
+    seg: Segment,
+    end: "first" | "last",
+    n: number,
+    priced: boolean,
+    tm: TickMath
+): ECs {
+    if (n === 0) return ECs.zero();
+
+    const ratio = tm.spacingPrice;
+    if (seg.shape.kind === "uniform")
+        return priced ? geometricSum(seg.unit, n, ratio, tm) : seg.unit.mul(n);
+
+    const [from, towards] =
+        end === "first"
+            ? [seg.firstOffset, seg.lastOffset]
+            : [seg.lastOffset, seg.firstOffset];
+    const g = priced ? ratio : ECs.one();
+
+    if (towards >= from) return seg.unit.mul(sliceSum(seg.shape, from, n, g));
+
+    // towards the best tick the offsets go down, so the sum is taken from the other end
+    return seg.unit
+        .mul(g.pow(n - 1))
+        .mul(sliceSum(seg.shape, from - n + 1, n, ECs.one().div(g)));
+}
+
+/**
+ * Whether `a` is behind `b`, when walking ticks in the direction of `step`.
+ */
+function beyond(a: number, b: number, step: number): boolean {
+    return step > 0 ? a < b : a > b;
+}
+
+/**
+ * `x + x * ratio + ... + x * ratio ^ (n - 1)`, where `ratio = basePrice ^ tickSpacing`.
+ */
+function geometricSum(x: ECs, n: number, ratio: ECs, tm: TickMath): ECs {
+    if (n === 0 || x.isZero()) return ECs.zero();
+    if (n === 1) return x.clone();
+
+    return x
+        .mul(tm.prices.price(n * tm.tickSpacing).sub(ECs.one()))
+        .div(ratio.sub(ECs.one()));
+}
@@ -0,0 +1,81 @@
+import { assert, assertEquals } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { PriceLadder } from "./price-ladder.ts";
+import { BASE_PRICE } from "./tick-math.ts";
+import { makePool } from "./test-utils.ts";
+
+Deno.test("cached prices are bit-identical to pow", () => {
+    const ladder = new PriceLadder(BASE_PRICE, 10, 16);
+
+    // back and forth across more ticks than the cache keeps, so some prices get evicted and recomputed
+    for (const [from, to, step] of [
+        [114000, 115000, 10],
+        [115000, 113000, -10],
+    ]) {
+        for (let tick = from; tick !== to; tick += step) {
+            ladder.setActiveTick(tick);
+
+            assertEquals(ladder.price(tick).raw, BASE_PRICE.pow(tick).raw);
+            assertEquals(
+                ladder.invPrice(tick).raw,
+                ECs.one().div(BASE_PRICE.pow(tick)).raw
+            );
+        }
+    }
+});
+
+Deno.test("stepped prices stay within the documented bound", () => {
+    const maxSteps = 64;
+    const ladder = new PriceLadder(BASE_PRICE, 10, 2048, maxSteps);
+    const f = BASE_PRICE.pow(10);
+    const one = ECs.one().raw;
+
+    for (const [from, dir] of [
+        [114440, 1],
+        [114440, -1],
+        [-200000, 1],
+    ]) {
+        const anchor = ladder.price(from).raw;
+        assertEquals(anchor, BASE_PRICE.pow(from).raw);
+
+        for (let k = 1; k <= maxSteps; k++) {
+            const stepped = ladder.price(from + dir * 10 * k).raw;
+
+            // the exact anchor * f ^ ±k, as a fraction of the raw units
+            const [num, den] =
+                dir > 0
+                    ? [anchor * f.raw ** BigInt(k), one ** BigInt(k)]
+                    : [anchor * one ** BigInt(k), f.raw ** BigInt(k)];
+            const bound = BigInt(Math.ceil(k * f.toNumber() ** k));
+
+            assert(stepped * den <= num);
+            assert(num - stepped * den < bound * den);
+        }
+
+        // a chain never gets longer than `maxSteps`, the next price is a `pow` again
+        const tick = from + dir * 10 * (maxSteps + 1);
+        assertEquals(ladder.price(tick).raw, BASE_PRICE.pow(tick).raw);
+    }
+});
+
+Deno.test("clones don't move the price cache window of the pool", () => {
+    const pool = makePool();
+    const tick = pool.curAbsoluteTick;
+
+    pool.quote({
+        qtyIn: ECs.fromString("10"),
+        direction: "base -> quote",
+    });
+    pool.clone(true)
+        .clone(true)
+        .swap({
+            qtyIn: ECs.fromString("500000"),
+            direction: "quote -> base",
+        });
+
+    assertEquals(pool.tickMath.prices.activeTick, tick);
+
+    pool.swap({ qtyIn: ECs.fromString("10"), direction: "base -> quote" });
+
+    assertEquals(pool.tickMath.prices.activeTick, pool.curAbsoluteTick);
+});
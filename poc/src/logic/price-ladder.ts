@@ -0,0 +1,138 @@
+import { ECs } from "./ecs.ts";
+
+/** How many tick spacings around the active tick are kept in the cache. */
+const DEFAULT_RADIUS = 2048;
+
+/** A cached price and how many steps away from a `pow` it was computed. */
+type Rung = {
+    price: ECs;
+    steps: number;
+};
+
+type Cache<T> = {
+    entries: Map<number, T>;
+    /** The size, above which the prices far from the active tick are evicted. */
+    evictAt: number;
+};
+
+/**
+ * A memoizing cache of `basePrice ^ tick` (and its inverse) around the active tick.
+ *
+ * By default a missing price is computed with `pow`, so every price is bit-identical to it.
+ *
+ * With `maxSteps > 0`, a missing price one tick spacing away from a cached one is stepped from it instead,
+ * like `next_price`/`prev_price` in `ticks.mo`: multiplied or divided by `f = basePrice ^ tickSpacing`, truncated.
+ * At most `maxSteps` steps are chained, then the price is computed with `pow` again. A price `k` steps away from
+ * its `pow` is below the exact `pow * f ^ ±k` by less than `k * f ^ k` raw units (every step truncates less than
+ * a raw unit, and multiplying by `f` grows the error of the steps before). `pow` rounds on its own as well,
+ * so the stepped prices are not bit-identical to it and the swap outputs change.
+ */
+export class PriceLadder {
+    private _prices: Cache<Rung>;
+    private _invPrices: Cache<ECs>;
+    private _spacingPrice: ECs;
+    private _activeTick = 0;
+
+    constructor(
+        private _basePrice: ECs,
+        private _tickSpacing: number = 1,
+        private _radius: number = DEFAULT_RADIUS,
+        private _maxSteps: number = 0
+    ) {
+        this._prices = { entries: new Map(), evictAt: _radius * 4 };
+        this._invPrices = { entries: new Map(), evictAt: _radius * 4 };
+        this._spacingPrice = _basePrice.pow(_tickSpacing);
+    }
+
+    /**
+     * `basePrice ^ tick`
+     */
+    public price(tick: number): ECs {
+        let rung = this._prices.entries.get(tick);
+
+        if (rung === undefined) {
+            rung = this.step(tick) ?? {
+                price: this._basePrice.pow(tick),
+                steps: 0,
+            };
+            this._prices.entries.set(tick, rung);
+            this.evict(this._prices);
+        }
+
+        return rung.price.clone();
+    }
+
+    /**
+     * `1 / basePrice ^ tick`
+     */
+    public invPrice(tick: number): ECs {
+        let p = this._invPrices.entries.get(tick);
+
+        if (p === undefined) {
+            p = ECs.one().div(this.price(tick));
+            this._invPrices.entries.set(tick, p);
+            this.evict(this._invPrices);
+        }
+
+        return p.clone();
+    }
+
+    /**
+     * Moves the cache window, prices far from the active tick get evicted once the cache is full.
+     */
+    public setActiveTick(tick: number) {
+        this._activeTick = tick;
+    }
+
+    public get activeTick() {
+        return this._activeTick;
+    }
+
+    public get basePrice() {
+        return this._basePrice.clone();
+    }
+
+    public get maxSteps() {
+        return this._maxSteps;
+    }
+
+    /**
+     * The price stepped from a cached neighbour, if there is one that is not too many steps away from its `pow`.
+     */
+    private step(tick: number): Rung | undefined {
+        if (this._maxSteps === 0) return undefined;
+
+        const below = this._prices.entries.get(tick - this._tickSpacing);
+        if (below !== undefined && below.steps < this._maxSteps)
+            return {
+                price: below.price.mul(this._spacingPrice),
+                steps: below.steps + 1,
+            };
+
+        const above = this._prices.entries.get(tick + this._tickSpacing);
+        if (above !== undefined && above.steps < this._maxSteps)
+            return {
+                price: above.price.div(this._spacingPrice),
+                steps: above.steps + 1,
+            };
+
+        return undefined;
+    }
+
+    /**
+     * Drops the prices outside of the radius in one go, then waits until the cache doubles before the next pass,
+     * so a cache full of prices within the radius isn't scanned on every insert.
+     */
+    private evict<T>(cache: Cache<T>) {
+        if (cache.entries.size <= cache.evictAt) return;
+
+        const radius = this._radius * this._tickSpacing;
+
+        for (const tick of cache.entries.keys()) {
+            if (Math.abs(tick - this._activeTick) > radius)
+                cache.entries.delete(tick);
+        }
+
+        cache.evictAt = Math.max(this._radius * 4, cache.entries.size * 2);
+    }
+}
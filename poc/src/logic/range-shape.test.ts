@@ -0,0 +1,106 @@
+import { assert, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import {
+    MAX_PROFILE_POINTS,
+    priceWeightedSum,
+    totalWeight,
+    weightAt,
+    type RangeShape,
+} from "./range-shape.ts";
+import { makePool } from "./test-utils.ts";
+
+const SHAPES: [RangeShape, number][] = [
+    [{ kind: "uniform" }, 7],
+    [{ kind: "geometric", ratio: ECs.fromString("0.9") }, 25],
+    [
+        {
+            kind: "piecewise-linear",
+            points: [
+                { offset: 0, weight: ECs.fromString("1") },
+                { offset: 3, weight: ECs.fromString("4") },
+                { offset: 7, weight: ECs.fromString("2") },
+                { offset: 10, weight: ECs.fromString("2.5") },
+            ],
+        },
+        11,
+    ],
+    [
+        {
+            kind: "piecewise-linear",
+            points: [{ offset: 0, weight: ECs.fromString("3") }],
+        },
+        1,
+    ],
+];
+
+/** Equal up to the rounding of the closed forms, relative to `expected`. */
+function assertClose(actual: ECs, expected: ECs) {
+    const tolerance = expected
+        .abs()
+        .mul(ECs.fromString("0.0000000000000000000001"));
+
+    assert(
+        actual.sub(expected).abs().le(tolerance),
+        `${actual} != ${expected}`
+    );
+}
+
+Deno.test("the closed forms match the per-tick sums", () => {
+    for (const g of [
+        ECs.fromString("1"),
+        ECs.fromString("1.0001"),
+        ECs.fromString("0.9999"),
+    ]) {
+        for (const [shape, width] of SHAPES) {
+            const total = ECs.zero();
+            const priceWeighted = ECs.zero();
+
+            for (let k = 0; k < width; k++) {
+                const w = weightAt(shape, k);
+                total.addAssign(w);
+                priceWeighted.addAssign(w.mul(g.pow(k)));
+            }
+
+            assertClose(totalWeight(shape, width), total);
+            assertClose(priceWeightedSum(shape, width, g), priceWeighted);
+        }
+    }
+});
+
+Deno.test("a piecewise-linear weight is only defined within its points", () => {
+    const [shape] = SHAPES[2];
+
+    assertClose(weightAt(shape, 5), ECs.fromString("3"));
+    assertThrows(() => weightAt(shape, 11), InvalidArgumentError);
+    assertThrows(() => weightAt(shape, -1), InvalidArgumentError);
+});
+
+Deno.test(
+    "the piecewise-linear inventory ranges never grow past the points limit",
+    () => {
+        const pool = makePool({ inventoryShape: "piecewise-linear" });
+
+        // the deposits change the reserve per tick, so the inventory ticks are not on a straight line
+        for (let i = 1; i <= 40; i++) {
+            pool.swap({
+                qtyIn: ECs.fromString("0.2"),
+                direction: "base -> quote",
+            });
+            pool.deposit("quote", ECs.fromString(`${10_000 * (1 + (i % 7))}`));
+        }
+
+        let ranges = 0;
+        for (const { amm } of pool.toState().layers) {
+            for (const { shape } of amm.quote.liquidity.inventory) {
+                assert(shape.kind === "piecewise-linear");
+                assert(shape.points.length <= MAX_PROFILE_POINTS);
+                ranges++;
+            }
+        }
+
+        // the stretch got split, not fragmented into single ticks
+        assert(ranges > 2);
+        assert(ranges < 40);
+    }
+);
@@ -0,0 +1,348 @@
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+
+/**
+ * The most points a piecewise-linear range keeps, so its closed forms stay cheap. A tick that would add one more
+ * starts a new range instead (see `Range.fitsBest`).
+ */
+export const MAX_PROFILE_POINTS = 16;
+
+/**
+ * A point of a piecewise-linear profile, `offset` ticks (of the tick spacing) away from the best tick of the range.
+ */
+export type ProfilePoint = { offset: number; weight: ECs };
+
+/**
+ * How the reserve of a range is spread over its ticks. Only the relative weights of the ticks are kept,
+ * so the shape stays the same when the reserve is added or split.
+ * - `uniform` - the same reserve at every tick.
+ * - `geometric` - every next tick away from the best one gets `ratio` of the previous one's reserve.
+ * - `piecewise-linear` - the weights are interpolated between the `points`, the first one is at the best tick
+ *   (offset 0) and the last one is at the worst tick.
+ */
+export type RangeShape =
+    | { kind: "uniform" }
+    | { kind: "geometric"; ratio: ECs }
+    | { kind: "piecewise-linear"; points: ProfilePoint[] };
+
+export const UNIFORM: RangeShape = { kind: "uniform" };
+
+/**
+ * `RangeShape` as plain data, the ECs are kept in raw units.
+ */
+export type RangeShapeState =
+    | { kind: "uniform" }
+    | { kind: "geometric"; ratio: string }
+    | {
+          kind: "piecewise-linear";
+          points: { offset: number; weight: string }[];
+      };
+
+export function shapeToState(shape: RangeShape): RangeShapeState {
+    switch (shape.kind) {
+        case "uniform":
+            return { kind: "uniform" };
+        case "geometric":
+            return { kind: "geometric", ratio: shape.ratio.raw.toString() };
+        case "piecewise-linear":
+            return {
+                kind: "piecewise-linear",
+                points: shape.points.map((it) => ({
+                    offset: it.offset,
+                    weight: it.weight.raw.toString(),
+                })),
+            };
+    }
+}
+
+export function shapeFromState(state: RangeShapeState): RangeShape {
+    switch (state.kind) {
+        case "uniform":
+            return UNIFORM;
+        case "geometric":
+            return { kind: "geometric", ratio: new ECs(BigInt(state.ratio)) };
+        case "piecewise-linear":
+            return {
+                kind: "piecewise-linear",
+                points: state.points.map((it) => ({
+                    offset: it.offset,
+                    weight: new ECs(BigInt(it.weight)),
+                })),
+            };
+    }
+}
+
+export function cloneShape(shape: RangeShape): RangeShape {
+    switch (shape.kind) {
+        case "uniform":
+            return shape;
+        case "geometric":
+            return { kind: "geometric", ratio: shape.ratio.clone() };
+        case "piecewise-linear":
+            return {
+                kind: "piecewise-linear",
+                points: shape.points.map((it) => ({
+                    offset: it.offset,
+                    weight: it.weight.clone(),
+                })),
+            };
+    }
+}
+
+/**
+ * The weight of the tick `offset` ticks away from the best one.
+ */
+export function weightAt(shape: RangeShape, offset: number): ECs {
+    switch (shape.kind) {
+        case "uniform":
+            return ECs.one();
+        case "geometric":
+            return shape.ratio.pow(offset);
+        case "piecewise-linear": {
+            const points = shape.points;
+            const last = points[points.length - 1].offset;
+            if (!(offset >= 0 && offset <= last))
+                throw new InvalidArgumentError({
+                    argument: "offset",
+                    detail: `should be within the points, [0, ${last}]: ${offset}`,
+                });
+
+            const i = points.findIndex((it) => it.offset >= offset);
+            if (points[i].offset === offset) return points[i].weight.clone();
+
+            return interpolate(points[i - 1], points[i], offset);
+        }
+    }
+}
+
+/**
+ * The sum of the weights of all `width` ticks.
+ */
+export function totalWeight(shape: RangeShape, width: number): ECs {
+    switch (shape.kind) {
+        case "uniform":
+            return ECs.one().mul(width);
+        case "geometric":
+            return geometricSum(shape.ratio, width);
+        case "piecewise-linear": {
+            const points = shape.points;
+            const total = points[points.length - 1].weight.clone();
+
+            for (let i = 1; i < points.length; i++) {
+                const a = points[i - 1];
+                const b = points[i];
+                const m = b.offset - a.offset;
+
+                // the ticks from `a` up to (but not including) `b`
+                total.addAssign(
+                    a.weight.mul(m).add(
+                        b.weight
+                            .sub(a.weight)
+                            .mul(m - 1)
+                            .div(2)
+                    )
+                );
+            }
+
+            return total;
+        }
+    }
+}
+
+/**
+ * `sum(weight(k) * g ^ k)` over all `width` ticks, where `g` is how the price changes from a tick to the next one
+ * away from the best tick. Multiplied by the price of the best tick, that's the inventory of a range of unit weights.
+ */
+export function priceWeightedSum(
+    shape: RangeShape,
+    width: number,
+    g: ECs
+): ECs {
+    switch (shape.kind) {
+        case "uniform":
+            return geometricSum(g, width);
+        case "geometric":
+            return geometricSum(shape.ratio.mul(g), width);
+        case "piecewise-linear": {
+            const points = shape.points;
+            const last = points[points.length - 1];
+            const total = last.weight.mul(g.pow(last.offset));
+
+            for (let i = 1; i < points.length; i++) {
+                const a = points[i - 1];
+                const b = points[i];
+                const m = b.offset - a.offset;
+                const slope = b.weight.sub(a.weight).div(m);
+
+                // an arithmetico-geometric series from `a` up to (but not including) `b`
+                total.addAssign(
+                    g
+                        .pow(a.offset)
+                        .mul(
+                            a.weight
+                                .mul(geometricSum(g, m))
+                                .add(slope.mul(arithmeticoGeometricSum(g, m)))
+                        )
+                );
+            }
+
+            return total;
+        }
+    }
+}
+
+/**
+ * `sum(weight(from + k) * g ^ k)` over the `n` ticks from the offset `from` on, like `priceWeightedSum`, but for a part
+ * of the range (`g = 1` sums up the weights).
+ */
+export function sliceSum(
+    shape: RangeShape,
+    from: number,
+    n: number,
+    g: ECs
+): ECs {
+    if (n === 0) return ECs.zero();
+
+    switch (shape.kind) {
+        case "uniform":
+            return priceWeightedSum(shape, n, g);
+        case "geometric":
+            return shape.ratio.pow(from).mul(priceWeightedSum(shape, n, g));
+        case "piecewise-linear": {
+            const to = from + n - 1;
+            if (n === 1) return weightAt(shape, from);
+
+            const inner = shape.points.filter(
+                (it) => it.offset > from && it.offset < to
+            );
+            const points = [
+                { offset: from, weight: weightAt(shape, from) },
+                ...inner,
+                { offset: to, weight: weightAt(shape, to) },
+            ].map((it) => ({ offset: it.offset - from, weight: it.weight }));
+
+            return priceWeightedSum({ kind: "piecewise-linear", points }, n, g);
+        }
+    }
+}
+
+/**
+ * The shape of the `width` ticks without the best one.
+ */
+export function dropBest(shape: RangeShape, width: number): RangeShape {
+    if (shape.kind !== "piecewise-linear" || width <= 1) return shape;
+
+    const [first, second, ...rest] = shape.points;
+    const shifted = (it: ProfilePoint) => ({
+        offset: it.offset - 1,
+        weight: it.weight,
+    });
+
+    const points =
+        second.offset === 1
+            ? [second, ...rest].map(shifted)
+            : [
+                  { offset: 0, weight: interpolate(first, second, 1) },
+                  ...[second, ...rest].map(shifted),
+              ];
+
+    return { kind: "piecewise-linear", points };
+}
+
+/**
+ * The shape of the `width` ticks without the worst one.
+ */
+export function dropWorst(shape: RangeShape, width: number): RangeShape {
+    if (shape.kind !== "piecewise-linear" || width <= 1) return shape;
+
+    const points = shape.points.slice(0, -1);
+    const prev = points[points.length - 1];
+    const last = shape.points[shape.points.length - 1];
+
+    if (prev.offset !== width - 2)
+        points.push({
+            offset: width - 2,
+            weight: interpolate(prev, last, width - 2),
+        });
+
+    return { kind: "piecewise-linear", points };
+}
+
+/**
+ * The shape with one more tick of `weight` before the best one.
+ */
+export function addBest(shape: RangeShape, weight: ECs): RangeShape {
+    if (shape.kind !== "piecewise-linear") return shape;
+
+    const points = [
+        { offset: 0, weight: weight.clone() },
+        ...shape.points.map((it) => ({
+            offset: it.offset + 1,
+            weight: it.weight,
+        })),
+    ];
+
+    // a point in the middle of a straight line is not needed
+    if (points.length >= 3 && isCollinear(points[0], points[1], points[2]))
+        points.splice(1, 1);
+
+    return { kind: "piecewise-linear", points };
+}
+
+/**
+ * The shape of the `width` ticks with one more tick of `weight` after the worst one.
+ */
+export function addWorst(
+    shape: RangeShape,
+    width: number,
+    weight: ECs
+): RangeShape {
+    if (shape.kind !== "piecewise-linear") return shape;
+
+    const points = [...shape.points, { offset: width, weight: weight.clone() }];
+
+    const n = points.length;
+    if (n >= 3 && isCollinear(points[n - 3], points[n - 2], points[n - 1]))
+        points.splice(n - 2, 1);
+
+    return { kind: "piecewise-linear", points };
+}
+
+function interpolate(a: ProfilePoint, b: ProfilePoint, offset: number): ECs {
+    return a.weight.add(
+        b.weight
+            .sub(a.weight)
+            .mul(offset - a.offset)
+            .div(b.offset - a.offset)
+    );
+}
+
+function isCollinear(a: ProfilePoint, b: ProfilePoint, c: ProfilePoint) {
+    return interpolate(a, c, b.offset).almostEq(b.weight);
+}
+
+/**
+ * `1 + x + ... + x ^ (n - 1)`
+ */
+function geometricSum(x: ECs, n: number): ECs {
+    if (x.eq(ECs.one())) return ECs.one().mul(n);
+
+    return ECs.one().sub(x.pow(n)).div(ECs.one().sub(x));
+}
+
+/**
+ * `0 + x + 2 * x ^ 2 + ... + (n - 1) * x ^ (n - 1)`
+ */
+function arithmeticoGeometricSum(x: ECs, n: number): ECs {
+    if (x.eq(ECs.one())) return ECs.one().mul((n * (n - 1)) / 2);
+
+    const oneMinusX = ECs.one().sub(x);
+
+    return x
+        .mul(
+            ECs.one()
+                .sub(x.pow(n - 1).mul(n))
+                .add(x.pow(n).mul(n - 1))
+        )
+        .div(oneMinusX.mul(oneMinusX));
+}
@@ -1,7 +1,23 @@
 import { Beacon } from "./beacon.ts";
-import { BASE_PRICE, ECs } from "./ecs.ts";
+import { ECs } from "./ecs.ts";
 import { Pool } from "./pool.ts";
-import { panic } from "./utils.ts";
+import { InvariantViolationError } from "./errors.ts";
+import {
+    addBest,
+    addWorst,
+    cloneShape,
+    dropBest,
+    dropWorst,
+    MAX_PROFILE_POINTS,
+    priceWeightedSum,
+    shapeFromState,
+    shapeToState,
+    totalWeight,
+    UNIFORM,
+    weightAt,
+    type RangeShape,
+    type RangeShapeState,
+} from "./range-shape.ts";
 
 /**
  * The result of taking a tick from a range.
@@ -12,44 +28,66 @@ export type TakeResult = {
     tickIdx: number;
 };
 
+/**
+ * `Range` as plain data, see `Pool.toState`.
+ */
+export type RangeState = {
+    /** Raw ECs units. */
+    reserveQty: string;
+    left: number;
+    right: number;
+    shape: RangeShapeState;
+};
+
 export class Range {
     public putBest(reserveQty: ECs) {
         this.assertNonEmpty();
         this.assertBoundsOk();
 
-        if (reserveQty.isPositive()) {
-            if (!reserveQty.almostEq(this.getPerTickReserveQty()))
-                panic(
-                    `[Range ${
-                        this.$
-                    }] The range has to stay uniform: perTick=${this.getPerTickReserveQty()}, putting=${reserveQty}`
+        if (this._shape.kind === "uniform") {
+            if (reserveQty.isPositive()) {
+                if (!reserveQty.almostEq(this.getPerTickReserveQty()))
+                    throw this.violation(
+                        `The range has to stay uniform: perTick=${this.getPerTickReserveQty()}, putting=${reserveQty}`
+                    );
+            }
+        } else {
+            if (!this.fitsBest(reserveQty))
+                throw this.violation(
+                    `The range has to keep its ${this._shape.kind} shape: putting=${reserveQty}`
                 );
+
+            this._shape = addBest(this._shape, this.weightOf(reserveQty));
         }
         this._reserveQty.addAssign(reserveQty);
 
         if (this.$.isBase) {
-            if (this.$.isReserve) this._left -= 1;
-            else this._right += 1;
+            if (this.$.isReserve) this._left -= this.$.tickMath.tickSpacing;
+            else this._right += this.$.tickMath.tickSpacing;
         } else {
-            if (this.$.isReserve) this._right += 1;
-            else this._left -= 1;
+            if (this.$.isReserve) this._right += this.$.tickMath.tickSpacing;
+            else this._left -= this.$.tickMath.tickSpacing;
         }
 
         this._respectiveInventoryQty = undefined;
     }
 
+    /**
+     * Adds the reserve to the whole range, which gets one more best tick of the same weight as the current best one.
+     */
     public putBestUniform(reserveQty: ECs) {
         this.assertNonEmpty();
         this.assertBoundsOk();
 
+        this._shape = addBest(this._shape, weightAt(this._shape, 0));
         this._reserveQty.addAssign(reserveQty);
 
         if (this.$.isBase) {
-            if (this.$.isReserve) this._left -= 1;
-            else this._right += 1;
+            if (this.$.isReserve) this._left -= this.$.tickMath.tickSpacing;
+            else this._right += this.$.tickMath.tickSpacing;
         } else {
-            if (this.$.isReserve) this._right += 1;
-            else this._left -= 1;
+            if (this.$.isReserve) this._right += this.$.tickMath.tickSpacing;
+            else this._left -= this.$.tickMath.tickSpacing;
         }
 
         this._respectiveInventoryQty = undefined;
@@ -59,23 +97,35 @@ export class Range {
         this.assertNonEmpty();
         this.assertBoundsOk();
 
-        if (reserveQty.isPositive()) {
-            if (!reserveQty.almostEq(this.getPerTickReserveQty()))
-                panic(
-                    `[Range ${
-                        this.$
-                    }] The range has to stay uniform: perTick=${this.getPerTickReserveQty()}, putting=${reserveQty}`
+        if (this._shape.kind === "uniform") {
+            if (reserveQty.isPositive()) {
+                if (!reserveQty.almostEq(this.getPerTickReserveQty()))
+                    throw this.violation(
+                        `The range has to stay uniform: perTick=${this.getPerTickReserveQty()}, putting=${reserveQty}`
+                    );
+            }
+
+            this._reserveQty.addAssign(this.getPerTickReserveQty());
+        } else {
+            if (!this.fitsWorst(reserveQty))
+                throw this.violation(
+                    `The range has to keep its ${this._shape.kind} shape: putting=${reserveQty}`
                 );
-        }
 
-        this._reserveQty.addAssign(this.getPerTickReserveQty());
+            this._shape = addWorst(
+                this._shape,
+                this.getWidth(),
+                this.weightOf(reserveQty)
+            );
+            this._reserveQty.addAssign(reserveQty);
+        }
 
         if (this.$.isBase) {
-            if (this.$.isReserve) this._right += 1;
-            else this._left -= 1;
+            if (this.$.isReserve) this._right += this.$.tickMath.tickSpacing;
+            else this._left -= this.$.tickMath.tickSpacing;
         } else {
-            if (this.$.isReserve) this._left -= 1;
-            else this._right += 1;
+            if (this.$.isReserve) this._left -= this.$.tickMath.tickSpacing;
+            else this._right += this.$.tickMath.tickSpacing;
         }
 
         this._respectiveInventoryQty = undefined;
@@ -85,25 +135,26 @@ export class Range {
         this.assertNonEmpty();
         this.assertBoundsOk();
 
-        const reserveQty = this.getPerTickReserveQty();
+        const reserveQty = this.getTickReserveQty(0);
         this._reserveQty.subAssign(reserveQty);
+        this._shape = dropBest(this._shape, this.getWidth());
 
         let tickIdx;
         if (this.$.isBase) {
             if (this.$.isReserve) {
                 tickIdx = this._left;
-                this._left += 1;
+                this._left += this.$.tickMath.tickSpacing;
             } else {
                 tickIdx = this._right;
-                this._right -= 1;
+                this._right -= this.$.tickMath.tickSpacing;
             }
         } else {
             if (this.$.isReserve) {
                 tickIdx = this._right;
-                this._right -= 1;
+                this._right -= this.$.tickMath.tickSpacing;
             } else {
                 tickIdx = this._left;
-                this._left += 1;
+                this._left += this.$.tickMath.tickSpacing;
             }
         }
 
@@ -117,25 +168,26 @@ export class Range {
         this.assertNonEmpty();
         this.assertBoundsOk();
 
-        const reserveQty = this.getPerTickReserveQty();
+        const reserveQty = this.getTickReserveQty(this.getWidth() - 1);
         this._reserveQty.subAssign(reserveQty);
+        this._shape = dropWorst(this._shape, this.getWidth());
 
         let tickIdx;
         if (this.$.isBase) {
             if (this.$.isReserve) {
                 tickIdx = this._right;
-                this._right -= 1;
+                this._right -= this.$.tickMath.tickSpacing;
             } else {
                 tickIdx = this._left;
-                this._left += 1;
+                this._left += this.$.tickMath.tickSpacing;
             }
         } else {
             if (this.$.isReserve) {
                 tickIdx = this._left;
-                this._left += 1;
+                this._left += this.$.tickMath.tickSpacing;
             } else {
                 tickIdx = this._right;
-                this._right -= 1;
+                this._right -= this.$.tickMath.tickSpacing;
             }
         }
 
@@ -153,7 +205,7 @@ export class Range {
         this.assertNonEmpty();
         this.assertBoundsOk();
 
-        const reserveQty = this.getPerTickReserveQty();
+        const reserveQty = this.getTickReserveQty(0);
         const tickIdx = this.getBest();
         const respectiveInventoryQty = reserveQty.mul(this.$.price(tickIdx));
 
@@ -164,13 +216,16 @@ export class Range {
         this.assertNonEmpty();
         this.assertBoundsOk();
 
-        const reserveQty = this.getPerTickReserveQty();
+        const reserveQty = this.getTickReserveQty(this.getWidth() - 1);
         const tickIdx = this.getWorst();
         const respectiveInventoryQty = reserveQty.mul(this.$.price(tickIdx));
 
         return { reserveQty, respectiveInventoryQty, tickIdx };
     }
 
+    /**
+     * Adds the reserve to the whole range, keeping its shape.
+     */
     public putUniform(reserveQty: ECs) {
         this.assertNonEmpty();
         this.assertBoundsOk();
@@ -180,18 +235,28 @@ export class Range {
     }
 
     public splitUniform(cut: ECs): Range {
-        this.assertNonEmpty();
-        this.assertBoundsOk();
+        const part = this.peekSplitUniform(cut);
 
-        const qty = this._reserveQty.mul(cut);
-        this._reserveQty.subAssign(qty);
+        this._reserveQty.subAssign(part.getReserveQty());
         this._respectiveInventoryQty = undefined;
 
+        return part;
+    }
+
+    /**
+     * The part `splitUniform` would split off, the range stays as it is.
+     */
+    public peekSplitUniform(cut: ECs): Range {
+        this.assertNonEmpty();
+        this.assertBoundsOk();
+
+        // the split-off part is the one leaving the pool, so it never gets the dust
         return new Range(
-            qty,
+            this._reserveQty.mul(cut, "floor"),
             this.getLeft(),
             this.getRight(),
-            this.$.clone(undefined)
+            this.$.clone(undefined),
+            cloneShape(this._shape)
         );
     }
 
@@ -200,8 +265,13 @@ export class Range {
         this.assertBoundsOk();
 
         if (!this.$.isReserve)
-            panic(
-                `[Range ${this.$}] The range is not inventory, so it can't drift`
+            throw this.violation(
+                "The range is not inventory, so it can't drift"
+            );
+
+        if (this._shape.kind === "piecewise-linear")
+            throw this.violation(
+                "A piecewise-linear range has fixed points, so it can't drift"
             );
 
         if (this.$.isBase) {
@@ -217,11 +287,15 @@ export class Range {
 
     private _respectiveInventoryQty: ECs | undefined = undefined;
 
+    /**
+     * @param _shape How the reserve is spread over the ticks, see `RangeShape`.
+     */
     constructor(
         private _reserveQty: ECs,
         private _left: number,
         private _right: number,
-        private $: Beacon
+        private $: Beacon,
+        private _shape: RangeShape = UNIFORM
     ) {}
 
     public clone(pool: Pool, noLogs: boolean) {
@@ -229,21 +303,43 @@ export class Range {
             this.getReserveQty(),
             this.getLeft(),
             this.getRight(),
-            this.$.clone({ noLogs, pool })
+            this.$.clone({ noLogs, pool }),
+            cloneShape(this._shape)
         );
     }
 
+    public static fromState(state: RangeState, $: Beacon) {
+        return new Range(
+            new ECs(BigInt(state.reserveQty)),
+            state.left,
+            state.right,
+            $,
+            shapeFromState(state.shape)
+        );
+    }
+
+    public toState(): RangeState {
+        return {
+            reserveQty: this._reserveQty.raw.toString(),
+            left: this._left,
+            right: this._right,
+            shape: shapeToState(this._shape),
+        };
+    }
+
     public static reserve(args: {
         qty: ECs;
         left: number;
         right: number;
         $: Beacon;
+        shape?: RangeShape;
     }) {
         return new Range(
             args.qty,
             args.left,
             args.right,
-            args.$.clone(undefined)
+            args.$.clone(undefined),
+            args.shape
         );
     }
 
@@ -252,12 +348,14 @@ export class Range {
         left: number;
         right: number;
         $: Beacon;
+        shape?: RangeShape;
     }) {
         return new Range(
             args.qty,
             args.left,
             args.right,
-            args.$.clone(undefined)
+            args.$.clone(undefined),
+            args.shape
         );
     }
 
@@ -275,16 +373,93 @@ export class Range {
         return this._right;
     }
 
+    /**
+     * The number of usable ticks in the range.
+     */
     public getWidth() {
         this.assertBoundsOk();
 
-        return this._right - this._left + 1;
+        return this.$.tickMath.countTicks(this._left, this._right);
     }
 
+    /**
+     * The reserve of every tick, the average one if the range is not uniform.
+     */
     public getPerTickReserveQty() {
         return this.getReserveQty().div(this.getWidth());
     }
 
+    /**
+     * The reserve of a tick of weight 1, the reserve of the `k`-th tick is this times `weightAt(shape, k)`.
+     */
+    public getUnitReserveQty() {
+        if (this._shape.kind === "uniform") return this.getPerTickReserveQty();
+
+        return this.getReserveQty().div(
+            totalWeight(this._shape, this.getWidth())
+        );
+    }
+
+    /**
+     * The reserve of the `k`-th tick, counting from the best one.
+     */
+    public getTickReserveQty(k: number) {
+        const n = this.getWidth();
+        if (this._shape.kind === "uniform" || n === 1)
+            return this.getPerTickReserveQty();
+
+        return this.getReserveQty()
+            .mul(weightAt(this._shape, k))
+            .div(totalWeight(this._shape, n));
+    }
+
+    /**
+     * Whether a tick of `reserveQty` put before the best one keeps the shape of the range
+     * (any tick does for a piecewise-linear range, as long as it doesn't need more than `MAX_PROFILE_POINTS`).
+     */
+    public fitsBest(reserveQty: ECs): boolean {
+        switch (this._shape.kind) {
+            case "uniform":
+                return this.getPerTickReserveQty().eq(reserveQty);
+            case "geometric":
+                return reserveQty.almostEq(
+                    this.getTickReserveQty(0).div(this._shape.ratio)
+                );
+            case "piecewise-linear":
+                return fitsPoints(
+                    addBest(this._shape, this.weightOf(reserveQty))
+                );
+        }
+    }
+
+    /**
+     * Whether a tick of `reserveQty` put after the worst one keeps the shape of the range, see `fitsBest`.
+     */
+    public fitsWorst(reserveQty: ECs): boolean {
+        switch (this._shape.kind) {
+            case "uniform":
+                return this.getPerTickReserveQty().eq(reserveQty);
+            case "geometric":
+                return reserveQty.almostEq(
+                    this.getTickReserveQty(this.getWidth() - 1).mul(
+                        this._shape.ratio
+                    )
+                );
+            case "piecewise-linear":
+                return fitsPoints(
+                    addWorst(
+                        this._shape,
+                        this.getWidth(),
+                        this.weightOf(reserveQty)
+                    )
+                );
+        }
+    }
+
+    public get shape(): RangeShape {
+        return this._shape;
+    }
+
     public getReserveQty() {
         this.assertBoundsOk();
 
@@ -306,12 +481,50 @@ export class Range {
     private calcInventoryQty() {
         this.assertBoundsOk();
 
+        if (this._shape.kind !== "uniform")
+            return this.calcShapedInventoryQty();
+
         const worstTickQty = this.calcInventoryQtyAtTick(this.getWorst());
         if (this.getWidth() === 1) return worstTickQty;
 
+        const tm = this.$.tickMath;
+
+        // a geometric series with the ratio of basePrice ^ tickSpacing
         return worstTickQty
-            .mul(BASE_PRICE.pow(this.getWidth()).sub(ECs.one()))
-            .div(BASE_PRICE.sub(ECs.one()));
+            .mul(
+                tm.prices.price(this.getWidth() * tm.tickSpacing).sub(ECs.one())
+            )
+            .div(tm.spacingPrice.sub(ECs.one()));
+    }
+
+    /**
+     * The reserve per unit of weight times the weighted sum of the prices, which has a closed form for every shape
+     * (see `priceWeightedSum`).
+     */
+    private calcShapedInventoryQty() {
+        const n = this.getWidth();
+        const best = this.getBest();
+        if (n === 1) return this.getReserveQty().mul(this.$.price(best));
+
+        const s = this.$.tickMath.tickSpacing;
+        const next = this.getWorst() > best ? best + s : best - s;
+        const g = this.$.price(next).div(this.$.price(best));
+
+        return this.getReserveQty()
+            .mul(this.$.price(best))
+            .mul(priceWeightedSum(this._shape, n, g))
+            .div(totalWeight(this._shape, n));
+    }
+
+    /**
+     * The weight of a tick of `reserveQty`, relative to the weights of the ticks of this range.
+     */
+    private weightOf(reserveQty: ECs): ECs {
+        if (this._reserveQty.isZero()) return weightAt(this._shape, 0);
+
+        return reserveQty
+            .mul(totalWeight(this._shape, this.getWidth()))
+            .div(this._reserveQty);
     }
 
     public getWorst() {
@@ -333,8 +546,8 @@ export class Range {
     public isEmpty() {
         const empty = this.getWidth() <= 0;
         if (empty && !this._reserveQty.isZero())
-            panic(
-                `[Range ${this.$}] The range is empty, but there is still ${this._reserveQty} liquidity`
+            throw this.violation(
+                `The range is empty, but there is still ${this._reserveQty} liquidity`
             );
 
         return empty;
@@ -346,17 +559,30 @@ export class Range {
 
     protected assertBoundsOk() {
         if (this.getRight() < this.getLeft())
-            panic(
-                `[Range ${
-                    this.$
-                }] Invalid bounds [${this.getLeft()}, ${this.getRight()}]`
+            throw this.violation(
+                `Invalid bounds [${this.getLeft()}, ${this.getRight()}]`
             );
     }
 
     protected assertNonEmpty() {
         if (this.isEmpty())
-            panic(
-                `[Range ${this.$}] An empty range should be disposed and re-created later again`
+            throw this.violation(
+                "An empty range should be disposed and re-created later again"
             );
     }
+
+    private violation(detail: string) {
+        return new InvariantViolationError({
+            component: "Range",
+            beacon: `${this.$}`,
+            detail,
+        });
+    }
+}
+
+function fitsPoints(shape: RangeShape): boolean {
+    return (
+        shape.kind !== "piecewise-linear" ||
+        shape.points.length <= MAX_PROFILE_POINTS
+    );
 }
@@ -0,0 +1,116 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { SimulatedClock } from "./clock.ts";
+import { type RecoveryLimiterParams } from "./recovery-bin.ts";
+import { makePool } from "./test-utils.ts";
+
+/** A downtrend, so the quote AMMs hold underwater base inventory and the base fees to recover it with. */
+function underwater(recoveryLimiter?: RecoveryLimiterParams) {
+    const clock = new SimulatedClock();
+    const pool = makePool({ clock, recoveryLimiter });
+
+    for (let i = 0; i < 5; i++) {
+        pool.swap({ qtyIn: ECs.fromString("2"), direction: "base -> quote" });
+    }
+
+    const buy = (qty: string) =>
+        pool.swap({ qtyIn: ECs.fromString(qty), direction: "quote -> base" });
+
+    return { pool, clock, buy };
+}
+
+Deno.test("without a limiter the recovery sells everything it can", () => {
+    const { pool, buy } = underwater();
+    const tick = pool.curAbsoluteTick;
+
+    for (let i = 0; i < 3; i++) {
+        const res = buy("20000");
+
+        assert(res.recoveredQtyOut.isPositive());
+        assert(res.recoveryDeferredIn.isZero());
+    }
+    assertEquals(pool.curAbsoluteTick, tick);
+});
+
+Deno.test(
+    "the alternating rule puts a normal fill between the recovered slices",
+    () => {
+        const unlimited = underwater().buy("20000");
+        const { pool, buy } = underwater({ alternate: true });
+        const tick = pool.curAbsoluteTick;
+
+        const res = buy("20000");
+
+        assert(res.recoveredQtyOut.isPositive());
+        assert(res.recoveredQtyOut.lt(unlimited.recoveredQtyOut));
+        assert(res.recoveryDeferredIn.isPositive());
+        // the deferred part was filled normally, so the price has moved
+        assert(pool.curAbsoluteTick > tick);
+    }
+);
+
+Deno.test(
+    "a tick takes in at most the limit per window, until the window expires",
+    () => {
+        const window = 60;
+        const { pool, clock, buy } = underwater({
+            alternate: false,
+            perTick: {
+                maxIn: {
+                    base: ECs.fromString("0.001"),
+                    quote: ECs.fromString("100"),
+                },
+                window,
+            },
+        });
+        const tick = pool.curAbsoluteTick;
+
+        const first = buy("60");
+        assert(first.recoveredQtyOut.isPositive());
+        assert(first.recoveryDeferredIn.isZero());
+
+        // past the limits of both layers, nothing is recovered
+        buy("60");
+        buy("60");
+        const capped = buy("60");
+        assert(capped.recoveredQtyOut.isZero());
+        assert(capped.recoveryDeferredIn.isPositive());
+        assertEquals(pool.curAbsoluteTick, tick);
+
+        clock.advance(window - 1);
+        assert(buy("60").recoveredQtyOut.isZero());
+
+        clock.advance(1);
+        const next = buy("60");
+        assert(next.recoveredQtyOut.isPositive());
+        assert(next.recoveryDeferredIn.isZero());
+
+        // the expired window was replaced with a new one
+        const windows = pool
+            .toState()
+            .layers.flatMap(
+                (it) => it.amm.quote.currentTick.recoveryBin.windows
+            );
+        assert(windows.some((it) => it.start === window));
+    }
+);
+
+Deno.test("the limits are validated", () => {
+    const perTick = (window: number, quote: string) => ({
+        alternate: false,
+        perTick: {
+            maxIn: { base: ECs.one(), quote: ECs.fromString(quote) },
+            window,
+        },
+    });
+
+    assertThrows(
+        () => makePool({ recoveryLimiter: perTick(0, "1") }),
+        InvalidArgumentError
+    );
+    assertThrows(
+        () => makePool({ recoveryLimiter: perTick(60, "-1") }),
+        InvalidArgumentError
+    );
+});
@@ -2,7 +2,21 @@ import { Beacon } from "./beacon.ts";
 import { ECs } from "./ecs.ts";
 import { Liquidity } from "./liquidity.ts";
 import { Pool } from "./pool.ts";
-import { panic } from "./utils.ts";
+import { type Timestamp } from "./clock.ts";
+import { type TwoSided } from "./utils.ts";
+
+/**
+ * Keeps the recovery from becoming a predictable "free wall" of subsidized liquidity (risk analysis 3B/3C).
+ */
+export type RecoveryLimiterParams = {
+    /** Every recovered slice has to be followed by a normal (unsubsidized) fill, before the next one is sold. */
+    alternate: boolean;
+    /**
+     * The most a single tick can take in through the recovery within `window` seconds,
+     * per reserve asset of the AMM (the `base` AMM takes in base, the `quote` one - quote).
+     */
+    perTick?: { maxIn: TwoSided<ECs>; window: number };
+};
 
 export type RecoverArgs = {
     reserveIn: ECs;
@@ -12,13 +26,28 @@ export type RecoverArgs = {
 export type RecoverResult = {
     inventoryOut: ECs;
     reminderReserveIn: ECs;
+    /** The limiter held the recovery back, so the reminder could have been recovered otherwise. */
+    deferred: boolean;
+};
+
+/**
+ * `RecoveryBin` as plain data, see `Pool.toState`. The ECs are kept in raw units.
+ */
+export type RecoveryBinState = {
+    collateral: string;
+    awaitingNormalFill: boolean;
+    windows: { tickIdx: number; start: Timestamp; takenIn: string }[];
 };
 
 /**
- * Fee-funded IL repair engine that focuses on a single worst tick at a time.
+ * Fee-funded IL repair engine, which of the underwater ticks it repairs first is up to the pool's
+ * `RecoveryStrategy`.
  */
 export class RecoveryBin {
     private _collateral = ECs.zero();
+    private _awaitingNormalFill = false;
+    /** What each tick took in through the recovery since the start of its current window. */
+    private _windows = new Map<number, { start: Timestamp; takenIn: ECs }>();
 
     constructor(private liquidity: Liquidity, private $: Beacon) {}
 
@@ -26,12 +55,50 @@ export class RecoveryBin {
         const r = new RecoveryBin(newLiquidity, this.$.clone({ noLogs, pool }));
 
         r._collateral = this._collateral.clone();
+        r._awaitingNormalFill = this._awaitingNormalFill;
+        r._windows = new Map(
+            [...this._windows].map(([tickIdx, it]) => [
+                tickIdx,
+                { start: it.start, takenIn: it.takenIn.clone() },
+            ])
+        );
 
         return r;
     }
 
+    public static fromState(
+        state: RecoveryBinState,
+        liquidity: Liquidity,
+        $: Beacon
+    ) {
+        const r = new RecoveryBin(liquidity, $);
+
+        r._collateral = new ECs(BigInt(state.collateral));
+        r._awaitingNormalFill = state.awaitingNormalFill;
+        r._windows = new Map(
+            state.windows.map((it) => [
+                it.tickIdx,
+                { start: it.start, takenIn: new ECs(BigInt(it.takenIn)) },
+            ])
+        );
+
+        return r;
+    }
+
+    public toState(): RecoveryBinState {
+        return {
+            collateral: this._collateral.raw.toString(),
+            awaitingNormalFill: this._awaitingNormalFill,
+            windows: [...this._windows].map(([tickIdx, it]) => ({
+                tickIdx,
+                start: it.start,
+                takenIn: it.takenIn.raw.toString(),
+            })),
+        };
+    }
+
     public withdrawCut(cut: ECs): ECs {
-        const collateralToWithdraw = this._collateral.mul(cut);
+        const collateralToWithdraw = this._collateral.mul(cut, "floor");
         this._collateral.subAssign(collateralToWithdraw);
 
         return collateralToWithdraw;
@@ -45,118 +112,77 @@ export class RecoveryBin {
             return {
                 inventoryOut,
                 reminderReserveIn,
+                deferred: false,
             };
         }
 
-        this.liquidity.borrowInventoryForRecovery((wt) => {
-            if (wt.tickIdx === args.curTickIdx) {
-                return undefined;
-            }
-
-            if (reminderReserveIn.lt(wt.reserveQty)) {
-                const haveInventory = reminderReserveIn.mul(
-                    this.$.price(wt.tickIdx)
-                );
-                const wantInventory = reminderReserveIn.mul(
-                    this.$.price(args.curTickIdx)
-                );
-
-                if (wantInventory.lt(haveInventory)) {
-                    panic(
-                        `[RecoveryBin ${this.$}] Should always require more inventory to recover the tick`
-                    );
-                }
-
-                const missingInventoryToBreakEven =
-                    wantInventory.sub(haveInventory);
-
-                if (this._collateral.ge(missingInventoryToBreakEven)) {
-                    this._collateral.subAssign(missingInventoryToBreakEven);
+        const limiter = this.$.pool.recoveryLimiter;
+        const allowance = this.allowance(args.curTickIdx);
 
-                    inventoryOut.addAssign(wantInventory);
-                    const leftoverReserveQty =
-                        wt.reserveQty.sub(reminderReserveIn);
-                    reminderReserveIn.subAssign(reminderReserveIn);
-
-                    return {
-                        curTickIdx: args.curTickIdx,
-                        leftoverReserveQty: leftoverReserveQty,
-                    };
-                }
-
-                const recoveredShare = this._collateral.div(
-                    missingInventoryToBreakEven
-                );
-                const recoveredReserve = reminderReserveIn.mul(recoveredShare);
-                const recoveredInventory = wantInventory.mul(recoveredShare);
+        if (
+            (limiter?.alternate && this._awaitingNormalFill) ||
+            allowance?.isZero()
+        ) {
+            return {
+                inventoryOut,
+                reminderReserveIn,
+                deferred: true,
+            };
+        }
 
-                inventoryOut.addAssign(recoveredInventory);
-                reminderReserveIn.subAssign(recoveredReserve);
-                this._collateral = ECs.zero();
+        // whatever is above the allowance bypasses the recovery
+        const bypassedIn =
+            allowance && reminderReserveIn.gt(allowance)
+                ? reminderReserveIn.sub(allowance)
+                : ECs.zero();
+        reminderReserveIn.subAssign(bypassedIn);
 
-                return {
-                    curTickIdx: args.curTickIdx,
-                    leftoverReserveQty: wt.reserveQty.sub(recoveredReserve),
-                };
-            }
+        const takenInBefore = reminderReserveIn.clone();
+        let slices = 0;
+        let deferred = bypassedIn.isPositive();
 
-            const wantInventory = wt.reserveQty.mul(
-                this.$.price(args.curTickIdx)
-            );
+        const strategy = this.$.pool.recoveryStrategy;
 
-            if (wantInventory.lt(wt.respectiveInventoryQty)) {
-                panic(
-                    `[RecoveryBin ${this.$}] Should always require more inventory to recover the tick`
-                );
-            }
+        strategy.repair({
+            liquidity: this.liquidity,
+            $: this.$,
+            curTickIdx: args.curTickIdx,
+            reserveIn: reminderReserveIn,
+            inventoryOut,
+            collateral: this._collateral,
+            nextSlice: () => {
+                if (limiter?.alternate && slices > 0) {
+                    deferred = true;
 
-            const missingInventoryToBreakEven = wantInventory.sub(
-                wt.respectiveInventoryQty
-            );
+                    return false;
+                }
 
-            // if we have enough
-            if (this._collateral.ge(missingInventoryToBreakEven)) {
-                this._collateral.subAssign(missingInventoryToBreakEven);
+                slices += 1;
 
-                inventoryOut.addAssign(wantInventory.clone());
-                reminderReserveIn.subAssign(wt.reserveQty);
+                return true;
+            },
+        });
 
-                return {
-                    curTickIdx: args.curTickIdx,
-                    leftoverReserveQty: ECs.zero(),
-                };
-            }
+        if (limiter?.alternate && slices > 0) this._awaitingNormalFill = true;
 
-            const recoveredShare = this._collateral.div(
-                missingInventoryToBreakEven
+        // the leftover collateral is held for later, when the recovery is deferred or the strategy holds it
+        if (this._collateral.isZero() || deferred || !strategy.sellsLeftover) {
+            this.recordTakenIn(
+                args.curTickIdx,
+                takenInBefore.sub(reminderReserveIn)
             );
-            const recoveredReserve = wt.reserveQty.mul(recoveredShare);
-            const recoveredInventory =
-                wt.respectiveInventoryQty.mul(recoveredShare);
-            const recoveredWantInventory =
-                this._collateral.add(recoveredInventory);
-
-            inventoryOut.addAssign(recoveredWantInventory);
-            reminderReserveIn.subAssign(recoveredReserve);
-            this._collateral = ECs.zero();
+            reminderReserveIn.addAssign(bypassedIn);
 
-            return {
-                curTickIdx: args.curTickIdx,
-                leftoverReserveQty: wt.reserveQty.sub(recoveredReserve),
-            };
-        });
-
-        // Uncomment to sell unused fees, instead of holding them for later
-
-        if (this._collateral.isZero()) {
             return {
                 inventoryOut,
                 reminderReserveIn,
+                deferred,
             };
         }
 
         const reserveForCollateral = this._collateral.mul(
-            this.$.price(args.curTickIdx, "inventory")
+            this.$.price(args.curTickIdx, "inventory"),
+            "ceil"
         );
 
         if (reminderReserveIn.ge(reserveForCollateral)) {
@@ -165,29 +191,86 @@ export class RecoveryBin {
             this._collateral = ECs.zero();
 
             this.liquidity.deposit(reserveForCollateral, args.curTickIdx);
+            this.recordTakenIn(
+                args.curTickIdx,
+                takenInBefore.sub(reminderReserveIn)
+            );
 
             return {
                 inventoryOut,
                 reminderReserveIn,
+                deferred,
             };
         }
 
-        const recoveredShare = reminderReserveIn.div(reserveForCollateral);
-        const recoveredInventory = this._collateral.mul(recoveredShare);
-        const recoveredReserve = reserveForCollateral.mul(recoveredShare);
+        const recoveredShare = reminderReserveIn.div(
+            reserveForCollateral,
+            "floor"
+        );
+        const recoveredInventory = this._collateral.mul(
+            recoveredShare,
+            "floor"
+        );
+        // the share is taken from the whole reminder, so it is consumed entirely
+        const recoveredReserve = reminderReserveIn.clone();
 
         this._collateral.subAssign(recoveredInventory);
         inventoryOut.addAssign(recoveredInventory);
         reminderReserveIn.subAssign(recoveredReserve);
 
         this.liquidity.deposit(recoveredReserve, args.curTickIdx);
+        this.recordTakenIn(
+            args.curTickIdx,
+            takenInBefore.sub(reminderReserveIn)
+        );
 
         return {
             inventoryOut,
             reminderReserveIn,
+            deferred,
         };
     }
 
+    /**
+     * Lets the next recovered slice be sold, see `RecoveryLimiterParams.alternate`.
+     */
+    public onNormalFill() {
+        this._awaitingNormalFill = false;
+    }
+
+    /**
+     * What the tick can still take in through the recovery in its current window, `undefined` if unlimited.
+     */
+    private allowance(tickIdx: number): ECs | undefined {
+        const perTick = this.$.pool.recoveryLimiter?.perTick;
+        if (!perTick) return undefined;
+
+        const maxIn = this.$.isBase ? perTick.maxIn.base : perTick.maxIn.quote;
+        const w = this._windows.get(tickIdx);
+
+        if (!w || this.$.now() - w.start >= perTick.window)
+            return maxIn.clone();
+
+        return w.takenIn.ge(maxIn) ? ECs.zero() : maxIn.sub(w.takenIn);
+    }
+
+    private recordTakenIn(tickIdx: number, takenIn: ECs) {
+        const perTick = this.$.pool.recoveryLimiter?.perTick;
+        if (!perTick || takenIn.isZero()) return;
+
+        const now = this.$.now();
+
+        // the expired windows would start anew anyway, so only the ticks of the last `window` seconds are kept
+        for (const [idx, it] of this._windows) {
+            if (now - it.start >= perTick.window) this._windows.delete(idx);
+        }
+
+        const w = this._windows.get(tickIdx);
+
+        if (!w) this._windows.set(tickIdx, { start: now, takenIn });
+        else w.takenIn.addAssign(takenIn);
+    }
+
     public addCollateral(fees: ECs) {
         this._collateral.addAssign(fees);
     }
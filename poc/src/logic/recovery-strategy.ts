@@ -0,0 +1,277 @@
+import { type Beacon } from "./beacon.ts";
+import { ECs } from "./ecs.ts";
+import { type Liquidity } from "./liquidity.ts";
+import { type TakeResult } from "./range.ts";
+import { InvariantViolationError } from "./errors.ts";
+import { type TwoAmmSided } from "./utils.ts";
+
+/**
+ * What a strategy works with. It takes the trader's input from `reserveIn`, pays the trader out to `inventoryOut`
+ * and covers the loss of the recovered inventory from `collateral`, all three are changed in place.
+ */
+export type RecoveryContext = {
+    liquidity: Liquidity;
+    $: Beacon;
+    curTickIdx: number;
+    reserveIn: ECs;
+    inventoryOut: ECs;
+    collateral: ECs;
+    /** Whether the recovery limiter lets one more slice be sold, see `RecoveryLimiterParams`. */
+    nextSlice(): boolean;
+};
+
+export type RecoveryStrategyArgs = {
+    /** Keep the collateral left after the repair for later, instead of selling it at the current tick. */
+    holdLeftover?: boolean;
+};
+
+/**
+ * Which underwater inventory gets repaired first: the worst tick, the closest to break-even one,
+ * or the same share of every tick at once.
+ */
+export type RepairOrder = "worst" | "closest" | "proportional";
+
+/**
+ * Decides which underwater inventory the recovery bin sells to the trader at the current price,
+ * with the loss covered by the collected fees.
+ */
+export interface RecoveryStrategy {
+    repair(ctx: RecoveryContext): void;
+    /** Whether the collateral left after the repair is sold at the current tick. */
+    readonly sellsLeftover: boolean;
+    /** What `repair` sells first, so `estimatePriceImpact` can replay it. */
+    readonly order: RepairOrder;
+}
+
+/**
+ * The original one: repairs the worst (the most underwater) inventory tick first, one tick at a time.
+ */
+export class WorstFirstRecovery implements RecoveryStrategy {
+    public readonly sellsLeftover: boolean;
+    public readonly order: RepairOrder = "worst";
+
+    constructor(args?: RecoveryStrategyArgs) {
+        this.sellsLeftover = !args?.holdLeftover;
+    }
+
+    public repair(ctx: RecoveryContext) {
+        ctx.liquidity.borrowInventoryForRecovery(
+            (tick) => recoverTick(ctx, tick),
+            "worst"
+        );
+    }
+}
+
+/**
+ * Repairs the closest to break-even inventory tick first, so the same collateral repairs more of the inventory,
+ * but the most underwater ticks stay underwater the longest.
+ */
+export class ClosestFirstRecovery implements RecoveryStrategy {
+    public readonly sellsLeftover: boolean;
+    public readonly order: RepairOrder = "closest";
+
+    constructor(args?: RecoveryStrategyArgs) {
+        this.sellsLeftover = !args?.holdLeftover;
+    }
+
+    public repair(ctx: RecoveryContext) {
+        ctx.liquidity.borrowInventoryForRecovery(
+            (tick) => recoverTick(ctx, tick),
+            "best"
+        );
+    }
+}
+
+/**
+ * Repairs the same share of every underwater inventory tick at once, as a single slice.
+ */
+export class ProportionalRecovery implements RecoveryStrategy {
+    public readonly sellsLeftover: boolean;
+    public readonly order: RepairOrder = "proportional";
+
+    constructor(args?: RecoveryStrategyArgs) {
+        this.sellsLeftover = !args?.holdLeftover;
+    }
+
+    public repair(ctx: RecoveryContext) {
+        const { $, liquidity, curTickIdx } = ctx;
+
+        const best = liquidity.getBestInventory();
+        if (best === undefined || best === curTickIdx) return;
+        if (!ctx.reserveIn.isPositive() || !ctx.nextSlice()) return;
+
+        const price = $.price(curTickIdx);
+        const total = liquidity.getInventoryQty();
+
+        if (total.reserve.mul(price, "floor").lt(total.inventory))
+            throw violation($);
+
+        const share = proportionalShare(
+            liquidity,
+            total,
+            price,
+            ctx.reserveIn,
+            ctx.collateral
+        );
+        if (share.isZero()) return;
+
+        // the shares of the ranges are rounded down, so the trader never pays for more than is taken
+        const taken = liquidity.takeInventoryShare(share);
+        const paidOut = taken.reserve.mul(price, "floor");
+        const paidIn = taken.reserve;
+
+        ctx.inventoryOut.addAssign(paidOut);
+        ctx.collateral.subAssign(paidOut.sub(taken.inventory));
+
+        ctx.reserveIn.subAssign(paidIn);
+        liquidity.deposit(paidIn, curTickIdx);
+    }
+}
+
+/**
+ * The share of every underwater inventory tick `ProportionalRecovery` repairs at `price`: as much as `reserveIn` buys
+ * and `collateral` covers, rounded down. `total` is the whole underwater inventory, see `Liquidity.getInventoryQty`.
+ */
+export function proportionalShare(
+    liquidity: Liquidity,
+    total: TwoAmmSided<ECs>,
+    price: ECs,
+    reserveIn: ECs,
+    collateral: ECs
+): ECs {
+    const missingInventoryToBreakEven = total.reserve
+        .mul(price, "floor")
+        .sub(total.inventory);
+
+    let share = ECs.one();
+    if (reserveIn.lt(total.reserve))
+        share = reserveIn.div(total.reserve, "floor");
+    if (collateral.lt(missingInventoryToBreakEven.mul(share, "ceil")))
+        share = collateral.div(missingInventoryToBreakEven, "floor");
+
+    // every range rounds its inventory on its own, so the taken part can need a bit more subsidy than
+    // its share of the total - then the share shrinks, until the collateral covers it
+    const subsidyOf = (it: TwoAmmSided<ECs>) =>
+        it.reserve.mul(price, "floor").sub(it.inventory);
+
+    let subsidy = subsidyOf(liquidity.peekInventoryShare(share));
+    while (!share.isZero() && subsidy.gt(collateral)) {
+        share = share
+            .mul(collateral.div(subsidy, "floor"), "floor")
+            .sub(new ECs(1n));
+        if (share.isNegative()) share = ECs.zero();
+
+        subsidy = subsidyOf(liquidity.peekInventoryShare(share));
+    }
+
+    return share;
+}
+
+/**
+ * Sells as much of the tick as the input and the collateral allow, returns what is left of it
+ * (see `Liquidity.borrowInventoryForRecovery`).
+ */
+function recoverTick(ctx: RecoveryContext, wt: TakeResult) {
+    const { $, curTickIdx } = ctx;
+    const reminderReserveIn = ctx.reserveIn;
+
+    if (wt.tickIdx === curTickIdx) {
+        return undefined;
+    }
+
+    if (reminderReserveIn.isPositive() && !ctx.nextSlice()) return undefined;
+
+    // amounts are rounded against the trader, so recovery never leaks
+    if (reminderReserveIn.lt(wt.reserveQty)) {
+        const haveInventory = reminderReserveIn.mul(
+            $.price(wt.tickIdx),
+            "floor"
+        );
+        const wantInventory = reminderReserveIn.mul(
+            $.price(curTickIdx),
+            "floor"
+        );
+
+        if (wantInventory.lt(haveInventory)) throw violation($);
+
+        const missingInventoryToBreakEven = wantInventory.sub(haveInventory);
+
+        if (ctx.collateral.ge(missingInventoryToBreakEven)) {
+            ctx.collateral.subAssign(missingInventoryToBreakEven);
+
+            ctx.inventoryOut.addAssign(wantInventory);
+            const leftoverReserveQty = wt.reserveQty.sub(reminderReserveIn);
+            reminderReserveIn.subAssign(reminderReserveIn.clone());
+
+            return {
+                curTickIdx,
+                leftoverReserveQty: leftoverReserveQty,
+            };
+        }
+
+        const recoveredShare = ctx.collateral.div(
+            missingInventoryToBreakEven,
+            "floor"
+        );
+        const recoveredReserve = reminderReserveIn.mul(recoveredShare, "ceil");
+        const recoveredInventory = wantInventory.mul(recoveredShare, "floor");
+
+        ctx.inventoryOut.addAssign(recoveredInventory);
+        reminderReserveIn.subAssign(recoveredReserve);
+        ctx.collateral.subAssign(ctx.collateral.clone());
+
+        return {
+            curTickIdx,
+            leftoverReserveQty: wt.reserveQty.sub(recoveredReserve),
+        };
+    }
+
+    const wantInventory = wt.reserveQty.mul($.price(curTickIdx), "floor");
+
+    if (wantInventory.lt(wt.respectiveInventoryQty)) throw violation($);
+
+    const missingInventoryToBreakEven = wantInventory.sub(
+        wt.respectiveInventoryQty
+    );
+
+    // if we have enough
+    if (ctx.collateral.ge(missingInventoryToBreakEven)) {
+        ctx.collateral.subAssign(missingInventoryToBreakEven);
+
+        ctx.inventoryOut.addAssign(wantInventory.clone());
+        reminderReserveIn.subAssign(wt.reserveQty);
+
+        return {
+            curTickIdx,
+            leftoverReserveQty: ECs.zero(),
+        };
+    }
+
+    const recoveredShare = ctx.collateral.div(
+        missingInventoryToBreakEven,
+        "floor"
+    );
+    const recoveredReserve = wt.reserveQty.mul(recoveredShare, "ceil");
+    const recoveredInventory = wt.respectiveInventoryQty.mul(
+        recoveredShare,
+        "floor"
+    );
+    const recoveredWantInventory = ctx.collateral.add(recoveredInventory);
+
+    ctx.inventoryOut.addAssign(recoveredWantInventory);
+    reminderReserveIn.subAssign(recoveredReserve);
+    ctx.collateral.subAssign(ctx.collateral.clone());
+
+    return {
+        curTickIdx,
+        leftoverReserveQty: wt.reserveQty.sub(recoveredReserve),
+    };
+}
+
+function violation($: Beacon) {
+    return new InvariantViolationError({
+        component: "RecoveryBin",
+        beacon: `${$}`,
+        detail: "Should always require more inventory to recover the tick",
+    });
+}
@@ -0,0 +1,23 @@
+import { ECs } from "./ecs.ts";
+import { Pool, type PoolParams } from "./pool.ts";
+import { BTC, USDT } from "./asset.ts";
+import { TickMath } from "./tick-math.ts";
+
+/**
+ * The pool the tests start from: BTC/USDT at tick 114445 with 100 BTC and 9M USDT, like the uniswap pool the
+ * simulation is based on.
+ */
+export function makePool(params?: PoolParams, tickMath = new TickMath()) {
+    return new Pool(
+        114445,
+        1000,
+        { base: BTC, quote: USDT },
+        tickMath,
+        true,
+        {
+            baseQty: ECs.fromString("100"),
+            quoteQty: ECs.fromString("9_000_000"),
+        },
+        params
+    );
+}
@@ -0,0 +1,158 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ECs } from "./ecs.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { MAX_TICK, MIN_TICK, TickMath } from "./tick-math.ts";
+
+const ONE_RAW = new ECs(1n);
+
+function assertPriceToTick(tickMath: TickMath, tick: number) {
+    const price = tickMath.price(tick, "base", "reserve");
+    const next = tickMath.price(tick + 1, "base", "reserve");
+
+    // right at the boundary, and one raw unit to each side of it
+    assertEquals(tickMath.priceToTick(price), tick, `price(${tick})`);
+    assertEquals(
+        tickMath.priceToTick(price.sub(ONE_RAW)),
+        tick - 1,
+        `price(${tick}) - 1`
+    );
+    assertEquals(
+        tickMath.priceToTick(price.add(ONE_RAW)),
+        tick,
+        `price(${tick}) + 1`
+    );
+    assertEquals(
+        tickMath.priceToTick(next.sub(ONE_RAW)),
+        tick,
+        `price(${tick + 1}) - 1`
+    );
+}
+
+Deno.test(
+    "priceToTick inverts the tick prices exactly at and around the boundaries",
+    () => {
+        const tickMath = new TickMath();
+
+        for (const tick of [
+            MIN_TICK + 1,
+            -300_000,
+            -114_445,
+            -1,
+            0,
+            1,
+            2,
+            114_445,
+            300_000,
+            MAX_TICK - 1,
+        ]) {
+            assertPriceToTick(tickMath, tick);
+        }
+
+        // a whole run of ticks, so the logarithm lands on both sides of a few boundaries
+        for (let tick = 114_400; tick < 114_500; tick++) {
+            assertPriceToTick(tickMath, tick);
+        }
+    }
+);
+
+Deno.test("priceToTick works with a custom base price", () => {
+    const tickMath = new TickMath({
+        basePrice: ECs.fromString("1.01"),
+        minTick: -5000,
+        maxTick: 5000,
+    });
+
+    for (const tick of [-4999, -100, -1, 0, 1, 100, 4999]) {
+        assertPriceToTick(tickMath, tick);
+    }
+});
+
+Deno.test(
+    "priceToTick clamps to the tick bounds and rejects negative prices",
+    () => {
+        const tickMath = new TickMath({ minTick: -1000, maxTick: 1000 });
+
+        assertEquals(tickMath.priceToTick(ECs.zero()), -1000);
+        assertEquals(tickMath.priceToTick(ONE_RAW), -1000);
+        assertEquals(tickMath.priceToTick(ECs.fromString("1000000")), 1000);
+        assertEquals(tickMath.priceToTick(ECs.one()), 0);
+
+        assertThrows(
+            () => tickMath.priceToTick(ECs.one().negate()),
+            InvalidArgumentError
+        );
+    }
+);
+
+Deno.test("align rounds down to the usable ticks, negatives included", () => {
+    const tickMath = new TickMath({ tickSpacing: 8 });
+
+    assertEquals(tickMath.align(0), 0);
+    assertEquals(tickMath.align(7), 0);
+    assertEquals(tickMath.align(8), 8);
+    assertEquals(tickMath.align(114445), 114440);
+    assertEquals(tickMath.align(-1), -8);
+    assertEquals(tickMath.align(-8), -8);
+    assertEquals(tickMath.align(-9), -16);
+
+    assert(tickMath.isAligned(0));
+    assert(tickMath.isAligned(114440));
+    assert(tickMath.isAligned(-16));
+    assert(!tickMath.isAligned(114445));
+    assert(!tickMath.isAligned(-9));
+
+    // every tick is usable without a spacing
+    const plain = new TickMath();
+    assertEquals(plain.align(-9), -9);
+    assert(plain.isAligned(114445));
+});
+
+Deno.test("countTicks counts the usable ticks of a closed range", () => {
+    const tickMath = new TickMath({ tickSpacing: 64 });
+
+    assertEquals(tickMath.countTicks(0, 0), 1);
+    assertEquals(tickMath.countTicks(0, 64), 2);
+    assertEquals(tickMath.countTicks(-128, 128), 5);
+    assertEquals(tickMath.countTicks(114368, 114368 + 64 * 99), 100);
+
+    assertEquals(new TickMath().countTicks(-5, 5), 11);
+});
+
+Deno.test("the tick bounds shrink to the usable ticks", () => {
+    const tickMath = new TickMath({ tickSpacing: 64 });
+
+    assertEquals(tickMath.minTick, Math.ceil(MIN_TICK / 64) * 64);
+    assertEquals(tickMath.maxTick, Math.floor(MAX_TICK / 64) * 64);
+    assert(tickMath.isAligned(tickMath.minTick));
+    assert(tickMath.isAligned(tickMath.maxTick));
+    assert(tickMath.minTick >= MIN_TICK && tickMath.maxTick <= MAX_TICK);
+
+    const custom = new TickMath({
+        tickSpacing: 8,
+        minTick: -1001,
+        maxTick: 1001,
+    });
+    assertEquals(custom.minTick, -1000);
+    assertEquals(custom.maxTick, 1000);
+
+    assertEquals(
+        tickMath.spacingPrice.raw,
+        tickMath.price(64, "base", "reserve").raw
+    );
+});
+
+Deno.test("invalid tick configurations are rejected", () => {
+    for (const args of [
+        { tickSpacing: 0 },
+        { tickSpacing: 65 },
+        { tickSpacing: 1.5 },
+        { basePrice: ECs.one() },
+        { minTick: 1 },
+        { maxTick: -1 },
+        { tickSpacing: 64, minTick: -63, maxTick: 63 },
+        { priceSteps: -1 },
+        { priceSteps: 0.5 },
+    ]) {
+        assertThrows(() => new TickMath(args), InvalidArgumentError);
+    }
+});
@@ -0,0 +1,191 @@
+import { ECs } from "./ecs.ts";
+import { PriceLadder } from "./price-ladder.ts";
+import { InvalidArgumentError } from "./errors.ts";
+import { type AMMSide, type Side } from "./utils.ts";
+
+/** The base price used for calculating tick prices. */
+export const BASE_PRICE = ECs.fromString("1.0001");
+
+/**
+ * The minimum tick index, whose price is still representable in e32s.
+ * `ticks.mo` goes further (±887272), but the inverse prices of those ticks round to zero here.
+ */
+export const MIN_TICK = -552626;
+/** The maximum tick index, see `MIN_TICK`. */
+export const MAX_TICK = 552626;
+
+/** The same tick spacing bounds as in `ticks.mo`. */
+export const MIN_TICK_SPACING = 1;
+export const MAX_TICK_SPACING = 64;
+
+// how close to a tick boundary the logarithm has to be, for the boundary to be double-checked;
+// tiny prices only have a few significant digits in e32s, so the logarithm is only that precise
+const TICK_ROUNDING_EPS = ECs.fromString("0.001").raw;
+
+export type TickMathArgs = {
+    basePrice?: ECs;
+    minTick?: number;
+    maxTick?: number;
+    tickSpacing?: number;
+    /**
+     * How many times the tick prices may be stepped from their neighbours instead of `pow`, see `PriceLadder`.
+     * Stepping is faster, but changes the swap outputs, so it's off (0) by default.
+     */
+    priceSteps?: number;
+};
+
+/**
+ * Per-pool tick configuration: the base price, the tick bounds and the tick spacing.
+ *
+ * Tick indices are always absolute (`price = basePrice ^ tick`), but only the multiples of the tick
+ * spacing are usable, so liquidity moves between ticks `tickSpacing` apart.
+ */
+export class TickMath {
+    private _basePrice: ECs;
+    private _lnBasePrice: ECs;
+    private _tickSpacing: number;
+    private _minTick: number;
+    private _maxTick: number;
+    private _prices: PriceLadder;
+
+    constructor(args?: TickMathArgs) {
+        this._basePrice = args?.basePrice?.clone() ?? BASE_PRICE.clone();
+        if (this._basePrice.le(ECs.one()))
+            throw new InvalidArgumentError({
+                argument: "basePrice",
+                detail: "the base price should be > 1",
+            });
+
+        this._tickSpacing = args?.tickSpacing ?? MIN_TICK_SPACING;
+        if (
+            !Number.isInteger(this._tickSpacing) ||
+            this._tickSpacing < MIN_TICK_SPACING ||
+            this._tickSpacing > MAX_TICK_SPACING
+        )
+            throw new InvalidArgumentError({
+                argument: "tickSpacing",
+                detail: `the tick spacing should be an integer in [${MIN_TICK_SPACING}, ${MAX_TICK_SPACING}]`,
+            });
+
+        // the bounds are shrunk to the closest usable ticks
+        this._minTick =
+            Math.ceil((args?.minTick ?? MIN_TICK) / this._tickSpacing) *
+            this._tickSpacing;
+        this._maxTick =
+            Math.floor((args?.maxTick ?? MAX_TICK) / this._tickSpacing) *
+            this._tickSpacing;
+
+        if (this._minTick >= 0 || this._maxTick <= 0)
+            throw new InvalidArgumentError({
+                argument: "minTick/maxTick",
+                detail: `invalid tick bounds [${this._minTick}, ${this._maxTick}]`,
+            });
+
+        this._lnBasePrice = this._basePrice.ln();
+        const priceSteps = args?.priceSteps ?? 0;
+        if (!Number.isInteger(priceSteps) || priceSteps < 0)
+            throw new InvalidArgumentError({
+                argument: "priceSteps",
+                detail: "the price steps should be a non-negative integer",
+            });
+
+        this._prices = new PriceLadder(
+            this._basePrice,
+            this._tickSpacing,
+            undefined,
+            priceSteps
+        );
+    }
+
+    /**
+     * The price of the tick, from the point of view of the AMM.
+     */
+    public price(absoluteTick: number, side: Side, ammSide: AMMSide): ECs {
+        if (side === "base") {
+            return ammSide === "reserve"
+                ? this._prices.price(absoluteTick)
+                : this._prices.invPrice(absoluteTick);
+        } else {
+            return ammSide === "reserve"
+                ? this._prices.invPrice(absoluteTick)
+                : this._prices.price(absoluteTick);
+        }
+    }
+
+    /**
+     * The highest tick (not necessarily a usable one), whose price is not above the given price.
+     */
+    public priceToTick(price: ECs): number {
+        if (price.isNegative())
+            throw new InvalidArgumentError({
+                argument: "price",
+                detail: "the price can't be negative",
+            });
+        if (price.isZero()) return this._minTick;
+
+        if (price.eq(ECs.one())) return 0;
+
+        const one = ECs.one().raw;
+        const exact = price.ln().div(this._lnBasePrice).raw;
+
+        let tick = Number(exact / one);
+        if (exact < 0n && exact % one !== 0n) tick -= 1;
+
+        // tick prices are rounded themselves, so the logarithm of a price that sits
+        // right at the tick boundary can land on either side of it
+        const fraction = exact - BigInt(tick) * one;
+
+        if (fraction > one - TICK_ROUNDING_EPS) {
+            if (this._prices.price(tick + 1).le(price)) tick += 1;
+        } else if (fraction < TICK_ROUNDING_EPS) {
+            if (this._prices.price(tick).gt(price)) tick -= 1;
+        }
+
+        return Math.min(Math.max(tick, this._minTick), this._maxTick);
+    }
+
+    /**
+     * Rounds the tick down to the closest usable one.
+     */
+    public align(tick: number): number {
+        return Math.floor(tick / this._tickSpacing) * this._tickSpacing;
+    }
+
+    public isAligned(tick: number): boolean {
+        return tick % this._tickSpacing === 0;
+    }
+
+    /**
+     * The number of usable ticks in `[left, right]`.
+     */
+    public countTicks(left: number, right: number): number {
+        return Math.floor((right - left) / this._tickSpacing) + 1;
+    }
+
+    /**
+     * The price ratio between two neighbouring usable ticks, `basePrice ^ tickSpacing`.
+     */
+    public get spacingPrice(): ECs {
+        return this._prices.price(this._tickSpacing);
+    }
+
+    public get basePrice(): ECs {
+        return this._basePrice.clone();
+    }
+
+    public get tickSpacing(): number {
+        return this._tickSpacing;
+    }
+
+    public get minTick(): number {
+        return this._minTick;
+    }
+
+    public get maxTick(): number {
+        return this._maxTick;
+    }
+
+    public get prices(): PriceLadder {
+        return this._prices;
+    }
+}
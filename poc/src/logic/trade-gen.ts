@@ -1,17 +1,20 @@
 import { CURRENT_TICK } from "../components/Simulation.tsx";
-import { BASE_PRICE, ECs, basePriceAbsoluteToTick } from "./ecs.ts";
+import { ECs } from "./ecs.ts";
+import { type TickMath } from "./tick-math.ts";
 import { Pool, type SwapArgs } from "./pool.ts";
-import { panic, type SwapDirection } from "./utils.ts";
+import { type SwapDirection } from "./utils.ts";
+import { InvalidArgumentError } from "./errors.ts";
 
 export type GenerateTradeArgs = {
     pool: Pool;
-} & GenerateNextDayTickOptionsArgs;
+} & Omit<GenerateNextDayTickOptionsArgs, "tickMath">;
 
 export function generateTrade(args: GenerateTradeArgs): SwapArgs {
     const curTick = args.pool.curAbsoluteTick;
     let { left, right } = generateNextDayPivotTickOptions({
         todayPivotTick: args.todayPivotTick,
         todayVolatility: args.todayVolatility,
+        tickMath: args.pool.tickMath,
     });
 
     let direction: SwapDirection | undefined = undefined;
@@ -53,10 +56,13 @@ export function generateTrade(args: GenerateTradeArgs): SwapArgs {
             : ECs.fromString("100");
 
     while (true) {
-        const priceChange = args.pool.estimatePriceImpactTicks({
+        // the exact estimate is much cheaper than a quote, since it doesn't clone the pool
+        const { ticks, exhausted } = args.pool.estimatePriceImpactTicks({
             direction,
             qtyIn,
         });
+        const priceChange = exhausted ? Infinity : ticks;
+
         if (priceChange <= w) break;
 
         qtyIn.divAssign(2);
@@ -73,6 +79,7 @@ export function generateTrade(args: GenerateTradeArgs): SwapArgs {
 export type GenerateNextDayTickOptionsArgs = {
     todayPivotTick: number;
     todayVolatility: ECs;
+    tickMath: TickMath;
 };
 
 export type GenerateNextDayTickOptionsResult = {
@@ -83,7 +90,10 @@ export type GenerateNextDayTickOptionsResult = {
 export function generateNextDayPivotTickOptions(
     args: GenerateNextDayTickOptionsArgs
 ): GenerateNextDayTickOptionsResult {
-    const tickVolatility = volatilityToTickVolatility(args.todayVolatility);
+    const tickVolatility = volatilityToTickVolatility(
+        args.todayVolatility,
+        args.tickMath
+    );
 
     const left = args.todayPivotTick - tickVolatility;
     const right = args.todayPivotTick + tickVolatility;
@@ -122,15 +132,12 @@ export function generateTodayTargetQuoteVolume(avgDailyQuoteVolume: ECs): ECs {
     return avgDailyQuoteVolume.mul(ECs.random().mul(2));
 }
 
-function volatilityToTickVolatility(vol: ECs): number {
-    const leftPrice = BASE_PRICE.clone();
-    const rightPrice = leftPrice.mul(ECs.one().add(vol));
-    const rightTick = basePriceAbsoluteToTick(rightPrice);
-
-    if (rightTick < 1)
-        panic(
-            `Right tick should be greater than BASE_TICK: ${rightPrice} ${rightTick}`
-        );
+function volatilityToTickVolatility(vol: ECs, tickMath: TickMath): number {
+    if (vol.isNegative())
+        throw new InvalidArgumentError({
+            argument: "vol",
+            detail: `volatility can't be negative: ${vol}`,
+        });
 
-    return rightTick - 1;
+    return tickMath.priceToTick(ECs.one().add(vol));
 }
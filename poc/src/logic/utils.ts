@@ -1,8 +1,3 @@
-/** The minimum possible tick index. */
-export const MIN_TICK = -552626;
-/** The maximum possible tick index. */
-export const MAX_TICK = 552626;
-
 /**
  * A generic type for representing two-sided objects, such as AMMs for the base and quote assets.
  */
@@ -23,8 +18,6 @@ export type Side = keyof TwoSided<unknown>;
 
 export type AMMSide = keyof TwoAmmSided<unknown>;
 
-export type DriftingStatus = "drifting" | "stable";
-
 /**
  * The direction of a swap, either `base -> quote` or `quote -> base`.
  */
@@ -45,14 +38,6 @@ export function twoSided<T>(base: T, quote: T): TwoSided<T> {
     };
 }
 
-/**
- * A utility function for throwing an error and stopping execution.
- * @param msg The error message.
- */
-export function panic(msg?: string): never {
-    throw new Error(`Panicked: ${msg}`);
-}
-
 export function delay(ms: number) {
     return new Promise((res) => setTimeout(res, ms));
 }